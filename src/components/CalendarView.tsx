@@ -1,10 +1,18 @@
 import * as React from 'react';
 const { useState, useMemo, useCallback } = React;
-import { TFile } from 'obsidian';
+import { Menu, Notice, TFile } from 'obsidian';
 import { useSessions, useSessionsForDate } from '../hooks/useSessions';
 import { usePlugin } from '../context/PluginContext';
 import { formatDateOnly, isSameDay, addDays } from '../utils/datetime';
+import { HOUR_MS, MINUTE_MS } from '../constants';
 import { extractTaskName, formatDurationHuman } from '../utils/formatters';
+import { countInterruptionsByTask, countInterruptionsByHour } from '../utils/interruptions';
+import { getOverlapMs, splitSessionByDay } from '../utils/session-ranges';
+import type { Session } from '../types';
+import { EditSessionModal } from '../modals/edit-session-modal';
+import { SplitSessionModal } from '../modals/split-session-modal';
+import { ConfirmModal } from '../modals/confirm-modal';
+import { TaskSuggestModal } from '../modals/task-suggest-modal';
 
 interface CalendarViewProps {
   onClose?: () => void;
@@ -14,18 +22,33 @@ interface CalendarViewProps {
  * Calendar view with mini calendar and daily timeline
  */
 export function CalendarView({ onClose }: CalendarViewProps): JSX.Element {
-  const [selectedDate, setSelectedDate] = useState(new Date());
+  const { plugin } = usePlugin();
+  const [selectedDate, setSelectedDate] = useState(() => plugin.dayBoundary.getToday());
   const [viewMonth, setViewMonth] = useState(new Date());
 
   return (
     <div className="timegrain-calendar-view">
       <div className="timegrain-calendar-header">
         <h4>Daily Log</h4>
-        {onClose && (
-          <button className="timegrain-close-btn" onClick={onClose}>
-            ×
+        <div className="timegrain-calendar-header-actions">
+          <button
+            className="timegrain-btn timegrain-btn-secondary"
+            onClick={() =>
+              plugin.openExportModal(
+                new Date(viewMonth.getFullYear(), viewMonth.getMonth(), 1),
+                new Date(viewMonth.getFullYear(), viewMonth.getMonth() + 1, 0)
+              )
+            }
+            title="Export this month's sessions"
+          >
+            Export
           </button>
-        )}
+          {onClose && (
+            <button className="timegrain-close-btn" onClick={onClose}>
+              ×
+            </button>
+          )}
+        </div>
       </div>
       <div className="timegrain-calendar-content">
         <MiniCalendar
@@ -54,18 +77,20 @@ function MiniCalendar({
   onChangeMonth,
 }: MiniCalendarProps): JSX.Element {
   const { sessions } = useSessions();
-  // Get today's date - will update when component re-renders
-  const today = new Date();
+  const { plugin } = usePlugin();
+  const days = plugin.dayBoundary;
 
-  // Get session counts by date for the month
+  // Get session counts by day for the month - sessions spanning days count on each
   const sessionCountsByDate = useMemo(() => {
     const counts = new Map<string, number>();
     sessions.forEach((session) => {
-      const dateStr = formatDateOnly(session.started);
-      counts.set(dateStr, (counts.get(dateStr) || 0) + 1);
+      if (session.kind === 'break') return;
+      for (const { dayKey } of splitSessionByDay(session, days)) {
+        counts.set(dayKey, (counts.get(dayKey) || 0) + 1);
+      }
     });
     return counts;
-  }, [sessions]);
+  }, [sessions, days]);
 
   // Get max sessions in month for heat map intensity
   const maxSessions = useMemo(() => {
@@ -119,9 +144,10 @@ function MiniCalendar({
   }, [viewMonth, onChangeMonth]);
 
   const goToToday = useCallback(() => {
-    onChangeMonth(new Date());
-    onSelectDate(new Date());
-  }, [onChangeMonth, onSelectDate]);
+    const today = days.getToday();
+    onChangeMonth(today);
+    onSelectDate(today);
+  }, [days, onChangeMonth, onSelectDate]);
 
   const monthName = viewMonth.toLocaleDateString('en-US', {
     month: 'long',
@@ -157,7 +183,7 @@ function MiniCalendar({
           const dateStr = formatDateOnly(date);
           const sessionCount = sessionCountsByDate.get(dateStr) || 0;
           const intensity = maxSessions > 0 ? Math.ceil((sessionCount / maxSessions) * 5) : 0;
-          const isToday = isSameDay(date, today);
+          const isToday = days.isToday(date);
           const isSelected = isSameDay(date, selectedDate);
           const isWeekend = date.getDay() === 0 || date.getDay() === 6;
 
@@ -185,8 +211,21 @@ function DayTimeline({ date }: DayTimelineProps): JSX.Element {
   const { sessions, loading } = useSessionsForDate(date);
   const { app, plugin } = usePlugin();
   const [hoveredSessionId, setHoveredSessionId] = useState<string | null>(null);
-  // Get today's date - will update when component re-renders
-  const today = new Date();
+  const days = plugin.dayBoundary;
+  // Current time - will update when component re-renders
+  const now = new Date();
+
+  // The day runs from the configured day start to the next one (23 or 25 hours on DST days)
+  const { start: dayStart, end: dayEnd } = days.getDayBounds(date);
+  const dayStartMs = dayStart.getTime();
+  const dayEndMs = dayEnd.getTime();
+  const rowCount = Math.round((dayEndMs - dayStartMs) / HOUR_MS);
+
+  // Minutes from the start of the day, clamped to the day
+  const toOffset = useCallback(
+    (d: Date) => (Math.min(Math.max(d.getTime(), dayStartMs), dayEndMs) - dayStartMs) / MINUTE_MS,
+    [dayStartMs, dayEndMs]
+  );
 
   // Generate deterministic color from task name
   const getTaskColor = useCallback((taskName: string): string => {
@@ -198,76 +237,209 @@ function DayTimeline({ date }: DayTimelineProps): JSX.Element {
     return `hsl(${hue}, 70%, 50%)`;
   }, []);
 
-  // Calculate hour range (7am to 10pm, or expand based on sessions)
-  const { startHour, endHour } = useMemo(() => {
-    let minHour = 7;
-    let maxHour = 22;
+  // Calculate visible rows (7am to 10pm, or expand based on sessions)
+  const { startRow, endRow } = useMemo(() => {
+    const dayStartMinutes = days.getDayStartMinutes();
+    let minRow = Math.floor((7 * 60 - dayStartMinutes) / 60);
+    let maxRow = Math.ceil((22 * 60 - dayStartMinutes) / 60);
 
     sessions.forEach((session) => {
-      const startH = session.started.getHours();
-      const endDate = session.ended || new Date();
-
-      // For midnight-spanning sessions, extend to 24
-      if (!isSameDay(session.started, endDate)) {
-        maxHour = 24;
-      } else {
-        maxHour = Math.max(maxHour, endDate.getHours() + 1);
-      }
-      minHour = Math.min(minHour, startH);
+      const startOffset = toOffset(session.started);
+      const endOffset = toOffset(session.ended || new Date());
+      minRow = Math.min(minRow, Math.floor(startOffset / 60));
+      maxRow = Math.max(maxRow, Math.floor(endOffset / 60) + 1);
     });
 
-    return { startHour: minHour, endHour: Math.min(maxHour, 24) };
-  }, [sessions]);
+    return { startRow: Math.max(minRow, 0), endRow: Math.min(maxRow, rowCount) };
+  }, [sessions, days, toOffset, rowCount]);
 
   // Group sessions by task for legend (with path for navigation)
+  // Keyed by task note path, so tasks sharing a name in different folders stay apart
+  const getTaskKey = useCallback(
+    (session: Session) => plugin.sessionRepository.getTaskKey(session),
+    [plugin]
+  );
   const taskInfo = useMemo(() => {
-    const info = new Map<string, { color: string; taskLink: string }>();
+    const info = new Map<string, { name: string; color: string; taskPath?: string }>();
     sessions.forEach((session) => {
-      const name = extractTaskName(session.taskLink);
-      if (!info.has(name)) {
-        info.set(name, {
-          color: getTaskColor(name),
-          taskLink: session.taskLink,
+      if (session.kind === 'break') return;
+      const key = getTaskKey(session);
+      if (!info.has(key)) {
+        info.set(key, {
+          name: extractTaskName(session.taskLink),
+          color: getTaskColor(key),
+          taskPath: plugin.sessionRepository.resolveTaskPath(session),
         });
       }
     });
     return info;
-  }, [sessions, getTaskColor]);
+  }, [sessions, getTaskColor, getTaskKey, plugin]);
 
   // Navigate to task file
-  const handleTaskClick = useCallback((taskLink: string) => {
-    // Extract path from wikilink format [[Task Name]] or [[path/to/task|Task Name]]
-    const match = taskLink.match(/\[\[([^\]|]+)/);
-    if (!match) return;
-
-    const linkText = match[1];
-    // Try to find the file - could be a path or just a name
-    const file = app.metadataCache.getFirstLinkpathDest(linkText, '');
+  // The path is resolved from the session's task_path or its link, as the legend groups by it
+  const handleTaskClick = useCallback((taskPath: string | undefined, name: string) => {
+    const file = taskPath && app.vault.getAbstractFileByPath(taskPath);
     if (file instanceof TFile) {
       app.workspace.getLeaf().openFile(file);
     } else {
-      // Try finding by task name in repository
-      const task = plugin.taskRepository.findTaskByName(linkText);
+      // Fall back to a name lookup for tasks the link doesn't resolve to
+      const task = plugin.taskRepository.findTaskByName(name);
       if (task?.file) {
         app.workspace.getLeaf().openFile(task.file);
       }
     }
   }, [app, plugin]);
 
-  // Calculate total duration
+  // Run a session edit; the repository tells every view showing sessions to refresh
+  const runEdit = useCallback(async (edit: () => Promise<void>, success: string) => {
+    try {
+      await edit();
+      new Notice(success);
+    } catch (e) {
+      console.error('Failed to edit session:', e);
+      new Notice(`Failed to edit session: ${e instanceof Error ? e.message : e}`);
+    }
+  }, []);
+
+  // Right-click menu for editing a session from the timeline
+  const handleSessionContextMenu = useCallback((event: React.MouseEvent, session: Session) => {
+    event.preventDefault();
+    const menu = new Menu();
+    const repo = plugin.sessionRepository;
+
+    // The running timer owns its session file - only finished sessions are editable,
+    // and archived ones are read-only entries of their monthly note
+    const editable = !!session.ended && !session.archived;
+    if (editable) {
+      menu.addItem((item) =>
+        item
+          .setTitle('Adjust times...')
+          .setIcon('clock')
+          .onClick(() => new EditSessionModal(app, plugin, session).open())
+      );
+
+      if (session.kind !== 'break') {
+        menu.addItem((item) =>
+          item
+            .setTitle('Reassign to task...')
+            .setIcon('arrow-right-left')
+            .onClick(() => {
+              new TaskSuggestModal(app, plugin, 'pick', (task) => {
+                runEdit(
+                  () => repo.reassignSession(session.file, task.name, task.path),
+                  `Session moved to "${task.title || task.name}"`
+                );
+              }).open();
+            })
+        );
+
+        menu.addItem((item) =>
+          item
+            .setTitle('Split...')
+            .setIcon('scissors')
+            .onClick(() => new SplitSessionModal(app, plugin, session).open())
+        );
+
+        // Merging only makes sense with the chronological neighbour of the same task
+        const ordered = sessions
+          .filter((s) => !s.abandoned)
+          .sort((a, b) => a.started.getTime() - b.started.getTime());
+        const index = ordered.findIndex((s) => s.filePath === session.filePath);
+        const canMergeWith = (other: Session | undefined): other is Session =>
+          !!other &&
+          !!other.ended &&
+          !other.archived &&
+          other.kind !== 'break' &&
+          getTaskKey(other) === getTaskKey(session);
+
+        const previous = ordered[index - 1];
+        if (index > 0 && canMergeWith(previous)) {
+          menu.addItem((item) =>
+            item
+              .setTitle('Merge with previous')
+              .setIcon('merge')
+              .onClick(() =>
+                runEdit(() => repo.mergeSessions(previous.file, session.file), 'Sessions merged')
+              )
+          );
+        }
+
+        const next = ordered[index + 1];
+        if (index >= 0 && canMergeWith(next)) {
+          menu.addItem((item) =>
+            item
+              .setTitle('Merge with next')
+              .setIcon('merge')
+              .onClick(() =>
+                runEdit(() => repo.mergeSessions(session.file, next.file), 'Sessions merged')
+              )
+          );
+        }
+      }
+
+      menu.addSeparator();
+    }
+
+    menu.addItem((item) =>
+      item
+        .setTitle(session.archived ? 'Open monthly archive' : 'Open session file')
+        .setIcon('file-text')
+        .onClick(() => app.workspace.getLeaf().openFile(session.file))
+    );
+
+    if (editable) {
+      menu.addItem((item) =>
+        item
+          .setTitle('Delete session')
+          .setIcon('trash')
+          .setWarning(true)
+          .onClick(() => {
+            new ConfirmModal(
+              app,
+              'Delete session?',
+              'The session file will be deleted and its time removed from your stats.',
+              'Delete',
+              (confirmed) => {
+                if (!confirmed) return;
+                runEdit(() => repo.deleteSession(session.file), 'Session deleted');
+              }
+            ).open();
+          })
+      );
+    }
+
+    menu.showAtMouseEvent(event.nativeEvent);
+  }, [app, plugin, sessions, runEdit, getTaskKey]);
+
+  // Interruption counts for the legend and hour labels - only the ones inside this day
+  const interruptionsByTask = useMemo(
+    () => countInterruptionsByTask(sessions, getTaskKey, dayStart, dayEnd),
+    [sessions, getTaskKey, dayStartMs, dayEndMs]
+  );
+  const interruptionsByHour = useMemo(
+    () => countInterruptionsByHour(sessions, dayStart, dayEnd),
+    [sessions, dayStartMs, dayEndMs]
+  );
+  const totalInterruptions = interruptionsByHour.reduce((sum, n) => sum + n, 0);
+  const interruptedHours = useMemo(() => {
+    const firstHour = dayStart.getHours();
+    return Array.from({ length: 24 }, (_, i) => (firstHour + i) % 24).filter((hour) => interruptionsByHour[hour] > 0);
+  }, [interruptionsByHour, dayStartMs]);
+
+  // Calculate total duration - only the part of each session inside this day
   const totalDuration = useMemo(() => {
     return sessions.reduce((acc, session) => {
-      return acc + (session.durationMs || 0);
+      if (session.kind === 'break' || !session.ended) return acc;
+      return acc + getOverlapMs(session, dayStart, dayEnd);
     }, 0);
-  }, [sessions]);
+  }, [sessions, dayStartMs, dayEndMs]);
 
   // Format date label
   const dateLabel = useMemo(() => {
-    if (isSameDay(date, today)) {
+    if (days.isToday(date)) {
       return 'Today';
     }
-    const yesterday = addDays(today, -1);
-    if (isSameDay(date, yesterday)) {
+    if (days.isToday(addDays(date, 1))) {
       return 'Yesterday';
     }
     return date.toLocaleDateString('en-US', {
@@ -275,15 +447,17 @@ function DayTimeline({ date }: DayTimelineProps): JSX.Element {
       month: 'short',
       day: 'numeric',
     });
-  }, [date, today]);
+  }, [date, days, now]);
 
-  const hours = useMemo(() => {
+  // One row per hour from the day start; clock hours repeat or skip across DST changes
+  const rows = useMemo(() => {
     const arr = [];
-    for (let h = startHour; h < endHour; h++) {
-      arr.push(h);
+    for (let row = startRow; row < endRow; row++) {
+      const rowStart = new Date(dayStartMs + row * HOUR_MS);
+      arr.push({ row, hour: rowStart.getHours(), minute: rowStart.getMinutes() });
     }
     return arr;
-  }, [startHour, endHour]);
+  }, [startRow, endRow, dayStartMs]);
 
   if (loading) {
     return (
@@ -301,57 +475,49 @@ function DayTimeline({ date }: DayTimelineProps): JSX.Element {
           {totalDuration > 0
             ? `Total: ${formatDurationHuman(totalDuration)}`
             : 'No sessions recorded'}
+          {totalInterruptions > 0 &&
+            ` · ${totalInterruptions} interruption${totalInterruptions === 1 ? '' : 's'}`}
         </span>
       </div>
 
       {sessions.length > 0 ? (
         <>
           <div className="timegrain-timeline-chart">
-            {hours.map((hour) => {
+            {rows.map(({ row, hour, minute }) => {
+              const rowStart = row * 60;
+              const rowEnd = rowStart + 60;
               const hourSessions = sessions.filter((s) => {
-                const startH = s.started.getHours();
-                const endDate = s.ended || new Date();
-                const endH = endDate.getHours();
-
-                // Handle same-day sessions
-                if (isSameDay(s.started, endDate)) {
-                  return startH <= hour && endH >= hour;
-                }
-
-                // Handle midnight-spanning sessions (started on this day, ended next day)
-                // Session spans from startH to 23:59 on this day
-                return startH <= hour;
+                const startOffset = toOffset(s.started);
+                const endOffset = toOffset(s.ended || now);
+                // Zero-length sessions still show in the row they start in
+                return startOffset < rowEnd && (endOffset > rowStart || startOffset >= rowStart);
               });
 
               return (
-                <div key={hour} className="timegrain-timeline-hour">
-                  <span className="timegrain-hour-label">
-                    {hour.toString().padStart(2, '0')}:00
+                <div key={row} className="timegrain-timeline-hour">
+                  <span
+                    className="timegrain-hour-label"
+                    title={
+                      interruptionsByHour[hour] > 0
+                        ? `${interruptionsByHour[hour]} interruption${interruptionsByHour[hour] === 1 ? '' : 's'}`
+                        : undefined
+                    }
+                  >
+                    {hour.toString().padStart(2, '0')}:{minute.toString().padStart(2, '0')}
                   </span>
                   <div className="timegrain-hour-bar">
                     {hourSessions.length > 0 ? (
                       hourSessions.map((session, i) => {
-                        const taskName = extractTaskName(session.taskLink);
-                        const color = taskInfo.get(taskName)?.color || '#888';
+                        const isBreak = session.kind === 'break';
+                        const taskName = isBreak ? 'Break' : extractTaskName(session.taskLink);
+                        const color = isBreak
+                          ? 'var(--background-modifier-border)'
+                          : taskInfo.get(getTaskKey(session))?.color || '#888';
                         const isActive = !session.ended;
 
-                        // Calculate fill within this hour
-                        const startMin = session.started.getHours() === hour
-                          ? session.started.getMinutes()
-                          : 0;
-
-                        // For midnight-spanning sessions, use 60 for hours before end
-                        const endDate = session.ended || new Date();
-                        const sessionSpansDays = !isSameDay(session.started, endDate);
-                        let endMin: number;
-                        if (sessionSpansDays) {
-                          // Session spans midnight - fill to end of hour
-                          endMin = 60;
-                        } else if (endDate.getHours() === hour) {
-                          endMin = endDate.getMinutes();
-                        } else {
-                          endMin = 60;
-                        }
+                        // Calculate fill within this hour - sessions running past the day end fill to it
+                        const startMin = Math.max(toOffset(session.started) - rowStart, 0);
+                        const endMin = Math.min(toOffset(session.ended || now) - rowStart, 60);
                         const width = ((endMin - startMin) / 60) * 100;
                         const left = (startMin / 60) * 100;
 
@@ -369,7 +535,7 @@ function DayTimeline({ date }: DayTimelineProps): JSX.Element {
                         return (
                           <div
                             key={`${session.filePath}-${i}`}
-                            className={`timegrain-session-block ${isActive ? 'active' : ''} ${isHovered ? 'hovered' : ''}`}
+                            className={`timegrain-session-block ${isActive ? 'active' : ''} ${isHovered ? 'hovered' : ''} ${isBreak ? 'break' : ''}`}
                             style={{
                               backgroundColor: color,
                               left: `${left}%`,
@@ -378,30 +544,47 @@ function DayTimeline({ date }: DayTimelineProps): JSX.Element {
                             title={`${taskName}\n${startTimeStr} → ${endTimeStr} ${durationStr}`}
                             onMouseEnter={() => setHoveredSessionId(session.filePath)}
                             onMouseLeave={() => setHoveredSessionId(null)}
+                            onContextMenu={(e) => handleSessionContextMenu(e, session)}
                           />
                         );
                       })
                     ) : (
                       <span className="timegrain-hour-empty">·</span>
                     )}
+                    {hourSessions.flatMap((session) =>
+                      session.interruptions
+                        .filter((interruption) => {
+                          const offset = toOffset(interruption.time);
+                          return offset >= rowStart && offset < rowEnd;
+                        })
+                        .map((interruption) => (
+                          <span
+                            key={`${session.filePath}-${interruption.time.getTime()}`}
+                            className={`timegrain-interruption-marker ${interruption.type}`}
+                            style={{ left: `${((toOffset(interruption.time) - rowStart) / 60) * 100}%` }}
+                            title={`${interruption.type === 'internal' ? 'Internal' : 'External'} interruption at ${interruption.time.getHours().toString().padStart(2, '0')}:${interruption.time.getMinutes().toString().padStart(2, '0')}${interruption.note ? `\n${interruption.note}` : ''}`}
+                          />
+                        ))
+                    )}
                   </div>
                 </div>
               );
             })}
 
             {/* Current time indicator for today */}
-            {isSameDay(date, today) && today.getHours() >= startHour && today.getHours() < endHour && (
+            {now >= dayStart && now < dayEnd &&
+              toOffset(now) >= startRow * 60 && toOffset(now) < endRow * 60 && (
               <div
                 className="timegrain-current-time"
                 style={{
                   // Vertical: each row is 24px + 1px gap
-                  top: `${(today.getHours() - startHour) * 25}px`,
+                  top: `${(Math.floor(toOffset(now) / 60) - startRow) * 25}px`,
                   // Horizontal: minutes as percentage within hour bar (after 54px label)
-                  '--minute-percent': `${(today.getMinutes() / 60) * 100}%`,
+                  '--minute-percent': `${((toOffset(now) % 60) / 60) * 100}%`,
                 } as React.CSSProperties}
               >
                 <span className="timegrain-time-text">
-                  {today.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                  {now.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
                 </span>
               </div>
             )}
@@ -409,18 +592,18 @@ function DayTimeline({ date }: DayTimelineProps): JSX.Element {
 
           {/* Task legend */}
           <div className="timegrain-timeline-legend">
-            {Array.from(taskInfo.entries()).map(([name, info]) => {
+            {Array.from(taskInfo.entries()).map(([key, info]) => {
               const taskSessions = sessions.filter(
-                (s) => extractTaskName(s.taskLink) === name
+                (s) => s.kind !== 'break' && getTaskKey(s) === key
               );
               const hasActive = taskSessions.some((s) => !s.ended);
 
               return (
                 <button
-                  key={name}
+                  key={key}
                   className="timegrain-legend-item"
-                  onClick={() => handleTaskClick(info.taskLink)}
-                  title={`Open ${name}`}
+                  onClick={() => handleTaskClick(info.taskPath, info.name)}
+                  title={`Open ${info.name}`}
                 >
                   <span
                     className="timegrain-legend-color"
@@ -428,11 +611,31 @@ function DayTimeline({ date }: DayTimelineProps): JSX.Element {
                   >
                     {hasActive ? '▶' : ''}
                   </span>
-                  <span className="timegrain-legend-name">{name}</span>
+                  <span className="timegrain-legend-name">{info.name}</span>
+                  {interruptionsByTask[key] > 0 && (
+                    <span
+                      className="timegrain-legend-interruptions"
+                      title={`${interruptionsByTask[key]} interruption${interruptionsByTask[key] === 1 ? '' : 's'}`}
+                    >
+                      ⚡{interruptionsByTask[key]}
+                    </span>
+                  )}
                 </button>
               );
             })}
           </div>
+
+          {/* Interruptions per hour, in day order */}
+          {totalInterruptions > 0 && (
+            <div className="timegrain-interruption-hours">
+              <span className="timegrain-interruption-hours-label">Interruptions by hour</span>
+              {interruptedHours.map((hour) => (
+                <span key={hour} className="timegrain-interruption-hour">
+                  {hour.toString().padStart(2, '0')}:00 ⚡{interruptionsByHour[hour]}
+                </span>
+              ))}
+            </div>
+          )}
         </>
       ) : (
         <div className="timegrain-empty-state">
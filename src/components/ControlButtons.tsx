@@ -2,10 +2,11 @@ import { useTimer } from '../hooks/useTimer';
 import { usePlugin } from '../context/PluginContext';
 
 /**
- * Timer control buttons: Pause/Resume, Complete, Cancel
+ * Timer control buttons: Pause/Resume, Interrupt, Complete, Cancel
+ * During a break only Skip is offered
  */
 export function ControlButtons() {
-  const { isRunning, isPaused, isIdle, togglePause, complete, cancel } = useTimer();
+  const { isPaused, isIdle, isBreak, interruptions, togglePause, complete, cancel, skipBreak } = useTimer();
   const { plugin } = usePlugin();
 
   const handleComplete = async () => {
@@ -25,6 +26,21 @@ export function ControlButtons() {
     return null; // Task selector handles starting
   }
 
+  if (isBreak) {
+    return (
+      <div className="timegrain-controls">
+        <button
+          className="timegrain-btn timegrain-btn-secondary"
+          onClick={skipBreak}
+          aria-label="Skip break"
+        >
+          <SkipIcon />
+          <span>Skip break</span>
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="timegrain-controls">
       {/* Pause/Resume button */}
@@ -46,6 +62,19 @@ export function ControlButtons() {
         )}
       </button>
 
+      {/* Interruption button - only while the clock runs */}
+      {!isPaused && (
+        <button
+          className="timegrain-btn timegrain-btn-secondary"
+          onClick={() => plugin.openInterruptionModal()}
+          aria-label="Log interruption"
+          title="Log interruption"
+        >
+          <InterruptIcon />
+          {interruptions > 0 && <span className="timegrain-interruption-count">{interruptions}</span>}
+        </button>
+      )}
+
       {/* Complete button */}
       <button
         className="timegrain-btn timegrain-btn-primary"
@@ -95,6 +124,23 @@ function CheckIcon() {
   );
 }
 
+function InterruptIcon() {
+  return (
+    <svg viewBox="0 0 24 24" width="16" height="16" fill="none" stroke="currentColor" strokeWidth="2">
+      <polygon points="13,2 4,14 12,14 11,22 20,10 12,10" />
+    </svg>
+  );
+}
+
+function SkipIcon() {
+  return (
+    <svg viewBox="0 0 24 24" width="16" height="16" fill="currentColor">
+      <polygon points="5,4 15,12 5,20" />
+      <rect x="16" y="4" width="3" height="16" />
+    </svg>
+  );
+}
+
 function CancelIcon() {
   return (
     <svg viewBox="0 0 24 24" width="16" height="16" fill="none" stroke="currentColor" strokeWidth="2">
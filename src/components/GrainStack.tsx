@@ -3,16 +3,26 @@ interface GrainStackProps {
   goalGrains: number;
   currentProgress: number; // 0-1 for current grain progress
   isActive: boolean;
+  countdownProgress?: number | null; // 0-1 through a session target; drains the glass instead
+  countdownLabel?: string;
 }
 
 /**
  * Hourglass visualization
  * Sand flows from top to bottom as time passes
  */
-export function GrainStack({ completedGrains, goalGrains, currentProgress, isActive }: GrainStackProps) {
+export function GrainStack({
+  completedGrains,
+  goalGrains,
+  currentProgress,
+  isActive,
+  countdownProgress = null,
+  countdownLabel,
+}: GrainStackProps) {
   const currentGrainContribution = isActive ? currentProgress : 0;
   const totalProgress = (completedGrains + currentGrainContribution) / goalGrains;
-  const fillPercent = Math.min(totalProgress, 1);
+  const isCountdown = countdownProgress !== null;
+  const fillPercent = isCountdown ? Math.min(Math.max(countdownProgress, 0), 1) : Math.min(totalProgress, 1);
   const isOverflow = completedGrains >= goalGrains;
 
   // Hourglass dimensions
@@ -85,9 +95,11 @@ export function GrainStack({ completedGrains, goalGrains, currentProgress, isAct
           />
         </div>
         <div className="timegrain-tooltip-detail">
-          {remaining > 0
-            ? `${remaining} more to reach your goal`
-            : 'Daily goal reached!'
+          {isCountdown && countdownLabel
+            ? countdownLabel
+            : remaining > 0
+              ? `${remaining} more to reach your goal`
+              : 'Daily goal reached!'
           }
         </div>
       </div>
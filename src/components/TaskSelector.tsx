@@ -3,19 +3,32 @@ import { useTimer } from '../hooks/useTimer';
 import { useTasks } from '../hooks/useTasks';
 import { usePlugin } from '../context/PluginContext';
 import { useSettings } from '../hooks/useSettings';
-import type { Task } from '../types';
+import type { Task, TargetPreset } from '../types';
 import type { TFile } from 'obsidian';
+import { formatTargetPresetLabel, resolveTarget } from '../utils/targets';
+import { getStatusesInGroup, getStatusLabel, getStatusColor } from '../utils/task-status';
+import { formatBlockedBy } from '../utils/task-dependencies';
+
+interface TaskSelectorProps {
+  /** 'switch' moves the running work block to the chosen task instead of starting one */
+  mode?: 'start' | 'switch';
+  onDone?: () => void;
+}
 
 /**
  * Task selector component for starting a timer
  * Shows tasks filtered by status with search
  */
-export function TaskSelector() {
-  const { start } = useTimer();
+export function TaskSelector({ mode = 'start', onDone }: TaskSelectorProps) {
+  const { start, switchTask, taskPath: currentTaskPath } = useTimer();
+  const isSwitching = mode === 'switch';
   const { settings } = useSettings();
-  const { tasks, loading } = useTasks(settings.taskStatuses);
+  const statusDefinitions = settings.taskStatusDefinitions;
+  const activeStatuses = getStatusesInGroup(statusDefinitions, 'active');
+  const { tasks, loading } = useTasks(activeStatuses);
   const { plugin, app } = usePlugin();
   const [searchQuery, setSearchQuery] = useState('');
+  const [selectedPreset, setSelectedPreset] = useState<TargetPreset | null>(null);
   const [activeFile, setActiveFile] = useState<TFile | null>(app.workspace.getActiveFile());
 
   // Track active file changes so the button updates reactively
@@ -32,21 +45,34 @@ export function TaskSelector() {
     };
   }, [app.workspace]);
 
+  const availableTasks = isSwitching ? tasks.filter((t) => t.path !== currentTaskPath) : tasks;
   const filteredTasks = searchQuery
-    ? tasks.filter(
+    ? availableTasks.filter(
         (t) =>
           t.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
           t.title.toLowerCase().includes(searchQuery.toLowerCase())
       )
-    : tasks;
+    : availableTasks;
+
+  const getTarget = () =>
+    selectedPreset ? resolveTarget(selectedPreset, settings.cycleSeconds) : null;
+
+  const begin = async (name: string, path: string) => {
+    if (isSwitching) {
+      await switchTask(name, path);
+    } else {
+      await start(name, path, getTarget());
+    }
+    onDone?.();
+  };
 
   const handleStartWithTask = async (task: Task) => {
-    await start(task.name, task.path);
+    await begin(task.name, task.path);
   };
 
   const handleStartWithCurrentNote = async () => {
     if (activeFile) {
-      await start(activeFile.basename, activeFile.path);
+      await begin(activeFile.basename, activeFile.path);
     }
   };
 
@@ -57,7 +83,7 @@ export function TaskSelector() {
         <button
           className="timegrain-start-btn"
           onClick={handleStartWithCurrentNote}
-          disabled={!activeFile}
+          disabled={!activeFile || (isSwitching && activeFile.path === currentTaskPath)}
         >
           <div className="timegrain-start-icon">
             <PlayIcon />
@@ -66,10 +92,33 @@ export function TaskSelector() {
         </button>
       </div>
 
+      {/* Target presets - a switch keeps the block's target */}
+      {!isSwitching && settings.targetPresets.length > 0 && (
+        <div className="timegrain-target-presets">
+          <button
+            className={`timegrain-filter-chip ${selectedPreset === null ? 'is-active' : ''}`}
+            onClick={() => setSelectedPreset(null)}
+            title="Count up with no target"
+          >
+            open
+          </button>
+          {settings.targetPresets.map((preset, i) => (
+            <button
+              key={i}
+              className={`timegrain-filter-chip ${selectedPreset === preset ? 'is-active' : ''}`}
+              onClick={() => setSelectedPreset(preset)}
+              title={`Count down, then ${preset.onExpiry === 'overtime' ? 'keep going as overtime' : preset.onExpiry}`}
+            >
+              {formatTargetPresetLabel(preset)}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Task list */}
       <div className="timegrain-task-list">
         <h5>
-          Tasks ({settings.taskStatuses.join(', ')})
+          {isSwitching ? 'Switch to' : 'Tasks'} ({activeStatuses.map((s) => getStatusLabel(statusDefinitions, s)).join(', ')})
         </h5>
 
         {/* Search input */}
@@ -120,6 +169,7 @@ export function TaskSelector() {
                   <button
                     className="timegrain-task-button"
                     data-status={task.status?.toLowerCase()}
+                    style={{ '--timegrain-status-color': getStatusColor(statusDefinitions, task.status) } as React.CSSProperties}
                     onClick={() => handleStartWithTask(task)}
                   >
                     <div className="timegrain-task-header">
@@ -145,7 +195,12 @@ export function TaskSelector() {
                       )}
                     </div>
                     <div className="timegrain-task-meta">
-                      <span className="timegrain-task-status">{task.status}</span>
+                      <span className="timegrain-task-status">{getStatusLabel(statusDefinitions, task.status)}</span>
+                      {task.blocked && (
+                        <span className="timegrain-blocked-badge" title={formatBlockedBy(task.blockedBy)}>
+                          blocked
+                        </span>
+                      )}
                       {task.scope && (
                         <span className="timegrain-task-scope">{task.scope}</span>
                       )}
@@ -1,5 +1,5 @@
 import * as React from 'react';
-const { useState } = React;
+const { useState, useEffect } = React;
 import { TFile } from 'obsidian';
 import { useTimer } from '../hooks/useTimer';
 import { useSessions } from '../hooks/useSessions';
@@ -25,10 +25,39 @@ const FEELING_EMOJIS: Record<Feeling, string> = {
  * Main timer display component for the sidebar view
  */
 export function TimerDisplay() {
-  const { isRunning, isPaused, isIdle, taskName, taskPath, elapsedSeconds, currentPomodoro } = useTimer();
+  const {
+    isRunning,
+    isPaused,
+    isIdle,
+    isBreak,
+    breakType,
+    remainingSeconds,
+    targetSeconds,
+    overtimeSeconds,
+    taskName,
+    taskPath,
+    elapsedSeconds,
+    currentPomodoro,
+  } = useTimer();
+  const isWorking = (isRunning || isPaused) && !isBreak;
+  const hasTarget = isWorking && targetSeconds !== null;
+  const isOvertime = hasTarget && overtimeSeconds > 0;
+
+  // Target sessions count down, then count overtime up from zero
+  const displaySeconds = isBreak || (hasTarget && !isOvertime)
+    ? remainingSeconds ?? 0
+    : isOvertime
+      ? overtimeSeconds
+      : elapsedSeconds;
   const { todaySessions, todayPomodoros } = useSessions();
   const { settings } = useSettings();
   const { plugin, app } = usePlugin();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  // Close the switch picker once the block ends
+  useEffect(() => {
+    if (!isWorking) setIsSwitching(false);
+  }, [isWorking]);
 
   const handleTaskClick = () => {
     if (taskPath) {
@@ -61,16 +90,34 @@ export function TimerDisplay() {
       <GrainStack
         completedGrains={todayPomodoros}
         goalGrains={settings.dailyGoalPoms}
-        currentProgress={isRunning || isPaused ? (elapsedSeconds % (settings.cycleSeconds)) / settings.cycleSeconds : 0}
-        isActive={isRunning}
+        currentProgress={isWorking ? (elapsedSeconds % (settings.cycleSeconds)) / settings.cycleSeconds : 0}
+        isActive={isRunning && !isBreak}
+        countdownProgress={hasTarget ? 1 - (remainingSeconds ?? 0) / (targetSeconds || 1) : null}
+        countdownLabel={
+          hasTarget
+            ? isOvertime
+              ? `${formatDurationHuman(overtimeSeconds * 1000)} over target`
+              : `${formatDurationHuman((remainingSeconds ?? 0) * 1000)} left of ${formatDurationHuman((targetSeconds ?? 0) * 1000)}`
+            : undefined
+        }
       />
 
       {/* Timer display - hero element */}
-      <div className={`timegrain-time-display ${isRunning ? 'timegrain-running' : ''} ${isPaused ? 'timegrain-paused' : ''}`}>
-        <TimerDigits seconds={elapsedSeconds} isRunning={isRunning} isPaused={isPaused} />
-        {(isRunning || isPaused) && (
+      <div className={`timegrain-time-display ${isRunning ? 'timegrain-running' : ''} ${isPaused ? 'timegrain-paused' : ''} ${isBreak ? 'timegrain-break' : ''} ${isOvertime ? 'timegrain-overtime' : ''}`}>
+        <TimerDigits
+          seconds={displaySeconds}
+          isRunning={isRunning}
+          isPaused={isPaused}
+        />
+        {isWorking && (
           <span className="timegrain-pomodoro-count">
             Grain {currentPomodoro}
+            {hasTarget && (isOvertime ? ' · overtime' : ` · target ${formatDurationHuman((targetSeconds ?? 0) * 1000)}`)}
+          </span>
+        )}
+        {isBreak && (
+          <span className="timegrain-pomodoro-count">
+            {breakType === 'long' ? 'Long break' : 'Short break'}
           </span>
         )}
       </div>
@@ -81,16 +128,30 @@ export function TimerDisplay() {
       {/* Current task or task selector */}
       {isIdle ? (
         <TaskSelector />
-      ) : (
+      ) : isBreak ? (
         <div className="timegrain-current-task">
-          <span
-            className="timegrain-task-name-display"
-            onClick={handleTaskClick}
-            title="Open task"
-          >
-            {taskName || 'Unknown task'}
-          </span>
+          <span className="timegrain-break-message">Step away - the next grain can wait</span>
         </div>
+      ) : (
+        <>
+          <div className="timegrain-current-task">
+            <span
+              className="timegrain-task-name-display"
+              onClick={handleTaskClick}
+              title="Open task"
+            >
+              {taskName || 'Unknown task'}
+            </span>
+            <button
+              className={`timegrain-switch-btn ${isSwitching ? 'is-active' : ''}`}
+              onClick={() => setIsSwitching(!isSwitching)}
+              title="Switch to another task without ending this block"
+            >
+              {isSwitching ? 'Cancel' : 'Switch'}
+            </button>
+          </div>
+          {isSwitching && <TaskSelector mode="switch" onDone={() => setIsSwitching(false)} />}
+        </>
       )}
 
       {/* Action bar - only when idle */}
@@ -247,13 +308,19 @@ function RecentSessions({
                   {formatTimeOfDay(session.started)}
                   {session.ended && ` → ${formatTimeOfDay(session.ended)}`}
                 </span>
-                <span
-                  className="timegrain-session-task"
-                  onClick={() => handleSessionTaskClick(session.taskLink)}
-                  title={`Open ${session.taskName}`}
-                >
-                  {session.taskName}
-                </span>
+                {session.kind === 'break' ? (
+                  <span className="timegrain-session-task timegrain-session-break">
+                    {session.breakType === 'long' ? 'Long break' : 'Break'}
+                  </span>
+                ) : (
+                  <span
+                    className="timegrain-session-task"
+                    onClick={() => handleSessionTaskClick(session.taskLink)}
+                    title={`Open ${session.taskName}`}
+                  >
+                    {session.taskName}
+                  </span>
+                )}
                 {session.perceivedEffort !== undefined && (
                   <EffortRing effort={session.perceivedEffort} />
                 )}
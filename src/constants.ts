@@ -8,6 +8,21 @@ export const POMODORO_DURATION_SECONDS = 25 * 60;
 /** Default pomodoro duration in milliseconds */
 export const POMODORO_DURATION_MS = POMODORO_DURATION_SECONDS * 1000;
 
+/** Default short break duration in seconds (5 minutes) */
+export const SHORT_BREAK_DURATION_SECONDS = 5 * 60;
+
+/** Default long break duration in seconds (15 minutes) */
+export const LONG_BREAK_DURATION_SECONDS = 15 * 60;
+
+/** Default number of grains between long breaks */
+export const DEFAULT_LONG_BREAK_INTERVAL = 4;
+
+/** Default inactivity before the timer auto-pauses, in seconds (10 minutes) */
+export const DEFAULT_IDLE_THRESHOLD_SECONDS = 10 * 60;
+
+/** Default work block length that triggers the long-running session notification, in minutes */
+export const DEFAULT_LONG_SESSION_MINUTES = 90;
+
 /** One minute in milliseconds */
 export const MINUTE_MS = 60 * 1000;
 
@@ -53,6 +68,14 @@ export const VIEW_TYPE_TASK_LIST = 'timegrain-task-list-view';
 
 export const DEFAULT_TIMER_SESSIONS_DIR = 'timer_sessions';
 export const DEFAULT_TASK_DIRECTORY = 'tasks';
+export const DEFAULT_EXPORT_DIRECTORY = 'timegrain_exports';
+export const DEFAULT_ARCHIVE_AFTER_MONTHS = 12;
+export const DEFAULT_TASK_FOLDERS = ['**/tasks'];
+export const DEFAULT_TASK_EXCLUDE = ['**/templates', '**/template'];
+
+/** Subfolder of the sessions directory holding monthly archive notes */
+export const SESSION_ARCHIVE_FOLDER = 'archive';
+
 export const DEFAULT_DAILY_GOAL_POMS = 8;
 export const DEFAULT_FOCUS_HORIZON_DAYS = 30;
 
@@ -79,6 +79,22 @@ export async function updateFrontmatter<T extends Record<string, unknown>>(
   });
 }
 
+/**
+ * Append an item to a list in frontmatter, creating the list if needed
+ */
+export async function appendFrontmatterListItem(
+  app: App,
+  file: TFile,
+  key: string,
+  item: unknown
+): Promise<void> {
+  await app.fileManager.processFrontMatter(file, (frontmatter) => {
+    const list = Array.isArray(frontmatter[key]) ? frontmatter[key] : [];
+    list.push(item);
+    frontmatter[key] = list;
+  });
+}
+
 /**
  * Create a new file with frontmatter
  */
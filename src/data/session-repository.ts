@@ -1,4 +1,4 @@
-import { App, TFile, TFolder } from 'obsidian';
+import { App, TFile, TFolder, Events, EventRef, stringifyYaml } from 'obsidian';
 import type {
   Session,
   SessionFrontmatter,
@@ -6,10 +6,17 @@ import type {
   SessionAction,
   TimegrainSettings,
   Feeling,
+  BreakType,
+  InterruptionType,
+  SessionInterruption,
+  SessionStats,
+  ArchivedSessionEntry,
+  SessionArchiveFrontmatter,
 } from '../types';
 import {
   readFrontmatter,
   updateFrontmatter,
+  appendFrontmatterListItem,
   createFileWithFrontmatter,
   safeInt,
   safeString,
@@ -18,19 +25,62 @@ import {
   parseDateTime,
   formatDateTimeISO,
   formatSessionFilename,
+  formatDateOnly,
   getDayName,
+  getStartOfDay,
+  addDays,
 } from '../utils/datetime';
-import { extractTaskName, createWikilink, calculatePomodoros } from '../utils/formatters';
-import { POMODORO_DURATION_MS } from '../constants';
+import { extractTaskName, extractLinkPath, createWikilink, calculatePomodoros } from '../utils/formatters';
+import { parseInterruptions } from '../utils/interruptions';
+import {
+  findOverlappingSessions,
+  getSessionEnd,
+  countGrainsInRange,
+  splitSessionByDay,
+} from '../utils/session-ranges';
+import { getSessionFolder, planSessionMoves, type SessionMove } from '../utils/session-paths';
+import { getGrainSecondsAt } from '../utils/grain-length';
+import { findSessionIssues, type SessionIssue } from '../utils/session-integrity';
+import {
+  getArchiveCutoff,
+  getArchiveMonth,
+  getArchivePath,
+  toArchiveEntry,
+  mergeArchiveEntries,
+  formatArchiveTable,
+} from '../utils/session-archive';
+import { MINUTE_MS } from '../constants';
+import { DayBoundaryService } from '../services/day-boundary-service';
 
 /**
  * Repository for timer session file operations
+ * Parsed sessions are kept in an in-memory index, bucketed by start date and kept
+ * current by vault and metadata cache events. Sessions rolled into monthly archive
+ * notes are indexed alongside live files, keyed by "<archive path>#<original path>".
  */
-export class SessionRepository {
+export class SessionRepository extends Events {
+  private sessions: Map<string, Session> = new Map(); // By file path
+  private sessionsByDay: Map<string, Set<string>> = new Map(); // Local date (YYYY-MM-DD) -> finished sessions covering it
+  private unfinishedPaths: Set<string> = new Set(); // Still running, so their range isn't known yet
+  private sessionsByBlock: Map<string, Set<string>> = new Map(); // Block id -> file paths
+  private archiveKeys: Map<string, string[]> = new Map(); // Archive note path -> keys of its sessions
+  private sortedSessions: Session[] | null = null; // Most recent first, rebuilt lazily
+  private indexedDir: string | null = null;
+  private indexPromise: Promise<void> | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private vaultRefs: EventRef[] = [];
+  private metadataRefs: EventRef[] = [];
+
+  private readonly DEBOUNCE_MS = 300;
+  private readonly BATCH_SIZE = 50;
+
   constructor(
     private app: App,
-    private settings: TimegrainSettings
-  ) {}
+    private settings: TimegrainSettings,
+    private days: DayBoundaryService = new DayBoundaryService(settings)
+  ) {
+    super();
+  }
 
   /**
    * Get the timer sessions directory path
@@ -43,28 +93,93 @@ export class SessionRepository {
    * Ensure the timer sessions directory exists
    */
   async ensureTimerDir(): Promise<TFolder> {
-    const existing = this.app.vault.getAbstractFileByPath(this.timerDir);
+    return this.ensureFolder(this.timerDir);
+  }
+
+  /**
+   * Ensure a folder exists, creating missing parents
+   */
+  private async ensureFolder(path: string): Promise<TFolder> {
+    const existing = this.app.vault.getAbstractFileByPath(path);
     if (existing instanceof TFolder) {
       return existing;
     }
 
-    await this.app.vault.createFolder(this.timerDir);
-    return this.app.vault.getAbstractFileByPath(this.timerDir) as TFolder;
+    let currentPath = '';
+    for (const part of path.split('/')) {
+      currentPath = currentPath ? `${currentPath}/${part}` : part;
+      if (!this.app.vault.getAbstractFileByPath(currentPath)) {
+        await this.app.vault.createFolder(currentPath);
+      }
+    }
+    return this.app.vault.getAbstractFileByPath(path) as TFolder;
+  }
+
+  /**
+   * Find a free session file path for a base filename, in the layout folder for its start
+   * Sessions started within the same minute (e.g. a quick task switch) get a numeric suffix
+   */
+  private async getAvailablePath(basename: string, startTime: Date): Promise<string> {
+    const folder = getSessionFolder(this.timerDir, this.settings.sessionFolderLayout, startTime);
+    await this.ensureFolder(folder);
+
+    let filePath = `${folder}/${basename}.md`;
+    let suffix = 2;
+    while (this.app.vault.getAbstractFileByPath(filePath)) {
+      filePath = `${folder}/${basename}-${suffix}.md`;
+      suffix++;
+    }
+    return filePath;
   }
 
   /**
    * Create a new session file
    */
-  async createSession(taskName: string, startTime: Date = new Date()): Promise<TFile> {
-    await this.ensureTimerDir();
+  async createSession(
+    taskName: string,
+    startTime: Date = new Date(),
+    extra: Partial<SessionFrontmatter> = {}
+  ): Promise<TFile> {
+    const filename = formatSessionFilename(startTime);
+    const filePath = await this.getAvailablePath(filename, startTime);
+
+    const frontmatter: SessionFrontmatter = {
+      started: formatDateTimeISO(startTime),
+      ended: null,
+      task: this.createTaskLink(taskName, extra.task_path, filePath),
+      grain_minutes: this.getGrainSecondsAt(startTime) / 60,
+      ...extra,
+    };
+
+    return await createFileWithFrontmatter(this.app, filePath, frontmatter);
+  }
+
+  /**
+   * Link to a task note that resolves to it from the session file, even when another
+   * note shares its name. Falls back to a plain [[name]] link when the note isn't known.
+   */
+  private createTaskLink(taskName: string, taskPath: string | null | undefined, sourcePath: string): string {
+    const file = taskPath ? this.app.vault.getAbstractFileByPath(taskPath) : null;
+    if (!(file instanceof TFile)) {
+      return createWikilink(taskName);
+    }
+    return createWikilink(taskName, this.app.metadataCache.fileToLinktext(file, sourcePath, true));
+  }
 
+  /**
+   * Create a new break session file
+   * Breaks are not linked to a task so they never count toward task time
+   */
+  async createBreakSession(breakType: BreakType, startTime: Date = new Date()): Promise<TFile> {
     const filename = formatSessionFilename(startTime);
-    const filePath = `${this.timerDir}/${filename}.md`;
+    const filePath = await this.getAvailablePath(`${filename}-break`, startTime);
 
     const frontmatter: SessionFrontmatter = {
       started: formatDateTimeISO(startTime),
       ended: null,
-      task: createWikilink(taskName),
+      task: '',
+      kind: 'break',
+      break_type: breakType,
     };
 
     return await createFileWithFrontmatter(this.app, filePath, frontmatter);
@@ -77,14 +192,191 @@ export class SessionRepository {
     sessionFile: TFile,
     action: SessionAction,
     startTime: Date,
-    endTime: Date = new Date()
+    endTime: Date = new Date(),
+    extra: Partial<SessionFrontmatter> = {}
   ): Promise<void> {
     await updateFrontmatter<SessionFrontmatter>(this.app, sessionFile, {
       ended: formatDateTimeISO(endTime),
       action,
+      ...this.getDerivedFields(startTime),
+      ...extra,
+    });
+  }
+
+  /**
+   * Grain length (seconds) in effect at a moment
+   */
+  private getGrainSecondsAt(date: Date): number {
+    return getGrainSecondsAt(this.settings.grainLengthHistory, date, this.settings.cycleSeconds);
+  }
+
+  /**
+   * Fields derived from a session's start time, kept in sync on every edit
+   */
+  private getDerivedFields(startTime: Date): Partial<SessionFrontmatter> {
+    return {
       hour_of_day: startTime.getHours(),
       day_of_week: getDayName(startTime),
+    };
+  }
+
+  // ============================================================================
+  // Session Editing
+  // ============================================================================
+
+  /**
+   * Change a finished session's start and end
+   */
+  async updateSessionTimes(sessionFile: TFile, startTime: Date, endTime: Date): Promise<void> {
+    if (endTime <= startTime) {
+      throw new Error('Session end must be after its start');
+    }
+
+    await updateFrontmatter<SessionFrontmatter>(this.app, sessionFile, {
+      started: formatDateTimeISO(startTime),
+      ended: formatDateTimeISO(endTime),
+      ...this.getDerivedFields(startTime),
+    });
+    this.scheduleUpdate();
+  }
+
+  /**
+   * Move a session to another task
+   */
+  async reassignSession(sessionFile: TFile, taskName: string, taskPath: string | null = null): Promise<void> {
+    await updateFrontmatter<SessionFrontmatter>(this.app, sessionFile, {
+      task: this.createTaskLink(taskName, taskPath, sessionFile.path),
+      task_path: taskPath,
+    });
+    this.scheduleUpdate();
+  }
+
+  /**
+   * Split a finished session in two at a point in time
+   * The first part ends with action 'switch'; the second keeps the original action,
+   * rating and block. Interruptions go to whichever part they fall in.
+   */
+  async splitSession(sessionFile: TFile, at: Date): Promise<TFile> {
+    const fm = await readFrontmatter<SessionFrontmatter>(this.app, sessionFile);
+    if (!fm?.started || !fm.ended) {
+      throw new Error('Only finished sessions can be split');
+    }
+
+    const started = parseDateTime(fm.started);
+    const ended = parseDateTime(fm.ended);
+    if (at <= started || at >= ended) {
+      throw new Error('Split time must be inside the session');
+    }
+
+    const interruptions = Array.isArray(fm.interruptions) ? fm.interruptions : null;
+    const isBefore = (i: SessionInterruption) => {
+      try {
+        return parseDateTime(i.time) < at;
+      } catch {
+        return true;
+      }
+    };
+
+    // Second part copies everything but the time fields (interruptions are written after)
+    const secondFm: Record<string, unknown> = {
+      ...fm,
+      started: formatDateTimeISO(at),
+      ended: formatDateTimeISO(ended),
+      ...this.getDerivedFields(at),
+    };
+    delete secondFm.interruptions;
+    const secondFile = await createFileWithFrontmatter(
+      this.app,
+      await this.getAvailablePath(formatSessionFilename(at), at),
+      secondFm
+    );
+
+    await updateFrontmatter<SessionFrontmatter>(this.app, sessionFile, {
+      ended: formatDateTimeISO(at),
+      action: 'switch',
+      ...(interruptions ? { interruptions: interruptions.filter(isBefore) } : {}),
     });
+
+    if (interruptions) {
+      await updateFrontmatter<SessionFrontmatter>(this.app, secondFile, {
+        interruptions: interruptions.filter((i) => !isBefore(i)),
+      });
+    }
+
+    this.scheduleUpdate();
+    return secondFile;
+  }
+
+  /**
+   * Merge two finished sessions of the same task into the earlier one
+   * The later session's file is deleted; the gap between them becomes part of the session
+   */
+  async mergeSessions(fileA: TFile, fileB: TFile): Promise<void> {
+    const [fmA, fmB] = await Promise.all([
+      readFrontmatter<SessionFrontmatter>(this.app, fileA),
+      readFrontmatter<SessionFrontmatter>(this.app, fileB),
+    ]);
+    if (!fmA?.started || !fmA.ended || !fmB?.started || !fmB.ended) {
+      throw new Error('Only finished sessions can be merged');
+    }
+    const taskKey = (file: TFile, fm: SessionFrontmatter) =>
+      this.resolveTaskLink(fm.task_path, safeString(fm.task), file.path) ?? extractTaskName(safeString(fm.task));
+    if (taskKey(fileA, fmA) !== taskKey(fileB, fmB)) {
+      throw new Error('Only sessions of the same task can be merged');
+    }
+
+    const aFirst = parseDateTime(fmA.started) <= parseDateTime(fmB.started);
+    const [first, firstFm, secondFm, secondFile] = aFirst
+      ? [fileA, fmA, fmB, fileB]
+      : [fileB, fmB, fmA, fileA];
+
+    const started = parseDateTime(firstFm.started);
+    const ended = new Date(
+      Math.max(parseDateTime(firstFm.ended as string).getTime(), parseDateTime(secondFm.ended as string).getTime())
+    );
+    const interruptions = [
+      ...(Array.isArray(firstFm.interruptions) ? firstFm.interruptions : []),
+      ...(Array.isArray(secondFm.interruptions) ? secondFm.interruptions : []),
+    ];
+    const overtime = safeInt(firstFm.overtime_minutes) + safeInt(secondFm.overtime_minutes);
+
+    await updateFrontmatter<SessionFrontmatter>(this.app, first, {
+      ended: formatDateTimeISO(ended),
+      action: secondFm.action,
+      ...this.getDerivedFields(started),
+      ...(interruptions.length > 0 ? { interruptions } : {}),
+      ...(overtime > 0 ? { overtime_minutes: overtime } : {}),
+    });
+    await this.deleteSession(secondFile);
+  }
+
+  /**
+   * Create an already-finished session after the fact (e.g. forgot to start the timer,
+   * or imported from another tracker)
+   */
+  async logSession(
+    taskName: string,
+    startTime: Date,
+    endTime: Date,
+    taskPath: string | null = null,
+    extra: Partial<SessionFrontmatter> = {}
+  ): Promise<TFile> {
+    const file = await this.createSession(taskName, startTime, {
+      manual: true,
+      ...(taskPath ? { task_path: taskPath } : {}),
+      ...extra,
+    });
+    await this.completeSession(file, 'complete', startTime, endTime);
+    this.scheduleUpdate();
+    return file;
+  }
+
+  /**
+   * Find sessions overlapping a time range
+   */
+  async findOverlappingSessions(startTime: Date, endTime: Date): Promise<Session[]> {
+    const candidates = await this.getSessionsInRange(startTime, endTime);
+    return findOverlappingSessions(candidates, startTime, endTime);
   }
 
   /**
@@ -110,6 +402,25 @@ export class SessionRepository {
     });
   }
 
+  /**
+   * Append an interruption to a session's interruptions list
+   */
+  async addInterruption(
+    sessionFile: TFile,
+    type: InterruptionType,
+    time: Date = new Date(),
+    note?: string
+  ): Promise<void> {
+    const interruption: SessionInterruption = {
+      time: formatDateTimeISO(time),
+      type,
+    };
+    if (note) {
+      interruption.note = note;
+    }
+    await appendFrontmatterListItem(this.app, sessionFile, 'interruptions', interruption);
+  }
+
   /**
    * Mark a session as abandoned
    */
@@ -120,6 +431,16 @@ export class SessionRepository {
     });
   }
 
+  /**
+   * Mark a session as abandoned without touching its times, so it drops out of stats
+   */
+  async markSessionAbandoned(sessionFile: TFile): Promise<void> {
+    await updateFrontmatter<SessionFrontmatter>(this.app, sessionFile, {
+      abandoned: true,
+    });
+    this.scheduleUpdate();
+  }
+
   /**
    * Mark a session as resumed
    */
@@ -134,10 +455,11 @@ export class SessionRepository {
    */
   async deleteSession(sessionFile: TFile): Promise<void> {
     await this.app.vault.delete(sessionFile);
+    this.scheduleUpdate();
   }
 
   /**
-   * Get all session files
+   * Get all session files, including those in layout subfolders
    */
   getSessionFiles(): TFile[] {
     const folder = this.app.vault.getAbstractFileByPath(this.timerDir);
@@ -145,43 +467,701 @@ export class SessionRepository {
       return [];
     }
 
-    return folder.children.filter(
-      (child): child is TFile => child instanceof TFile && child.extension === 'md'
-    );
+    const files: TFile[] = [];
+    const visit = (current: TFolder) => {
+      for (const child of current.children) {
+        if (child instanceof TFolder) {
+          visit(child);
+        } else if (child instanceof TFile && child.extension === 'md') {
+          files.push(child);
+        }
+      }
+    };
+    visit(folder);
+    return files;
   }
 
+  // ============================================================================
+  // Folder Layout Migration
+  // ============================================================================
+
   /**
-   * Find all active (unfinished) sessions
+   * Count finished session files that aren't in their layout folder yet
    */
-  async findActiveSessions(): Promise<ActiveSession[]> {
-    const sessionFiles = this.getSessionFiles();
-    const activeSessions: ActiveSession[] = [];
+  async countMisplacedSessions(): Promise<number> {
+    return (await this.planLayoutMoves()).length;
+  }
 
-    for (const file of sessionFiles) {
-      const fm = await readFrontmatter<SessionFrontmatter>(this.app, file);
-      if (!fm?.started || fm.ended || fm.abandoned) {
+  /**
+   * Move finished session files into the configured folder layout
+   * Unfinished sessions stay where they are so a running timer keeps its file.
+   * Moves go through the file manager so links to session files are updated.
+   */
+  async migrateSessionLayout(): Promise<{ moved: number; failed: number }> {
+    const moves = await this.planLayoutMoves();
+    let moved = 0;
+    let failed = 0;
+
+    for (const move of moves) {
+      const file = this.app.vault.getAbstractFileByPath(move.from);
+      if (!(file instanceof TFile)) {
+        failed++;
         continue;
       }
 
       try {
-        const started = parseDateTime(fm.started);
-        const elapsed = Date.now() - started.getTime();
+        await this.ensureFolder(move.to.slice(0, move.to.lastIndexOf('/')));
+        await this.app.fileManager.renameFile(file, move.to);
+        moved++;
+      } catch (e) {
+        console.error(`Failed to move session ${move.from}:`, e);
+        failed++;
+      }
+    }
+
+    await this.removeEmptyFolders();
+    return { moved, failed };
+  }
+
+  private async planLayoutMoves(): Promise<SessionMove[]> {
+    const sessions = (await this.getAllSessions())
+      .filter((s) => (s.ended || s.abandoned) && !s.archived)
+      .map((s) => ({ path: s.filePath, started: s.started }));
+
+    return planSessionMoves(
+      sessions,
+      this.timerDir,
+      this.settings.sessionFolderLayout,
+      (path) => this.app.vault.getAbstractFileByPath(path) !== null
+    );
+  }
+
+  /**
+   * Delete subfolders of the sessions directory left empty by a migration
+   */
+  private async removeEmptyFolders(): Promise<void> {
+    const root = this.app.vault.getAbstractFileByPath(this.timerDir);
+    if (!(root instanceof TFolder)) return;
+
+    const prune = async (folder: TFolder): Promise<void> => {
+      for (const child of [...folder.children]) {
+        if (child instanceof TFolder) {
+          await prune(child);
+        }
+      }
+      if (folder !== root && folder.children.length === 0) {
+        await this.app.vault.delete(folder);
+      }
+    };
+    await prune(root);
+  }
+
+  // ============================================================================
+  // Grain Length Backfill
+  // ============================================================================
+
+  /**
+   * Count work sessions recorded before sessions stored their grain length
+   */
+  async countSessionsWithoutGrainLength(): Promise<number> {
+    return (await this.findSessionsWithoutGrainLength()).length;
+  }
+
+  /**
+   * Stamp older work sessions with the grain length in effect when they started
+   */
+  async backfillGrainLengths(): Promise<{ updated: number; failed: number }> {
+    const sessions = await this.findSessionsWithoutGrainLength();
+    let updated = 0;
+    let failed = 0;
+
+    for (const session of sessions) {
+      try {
+        await updateFrontmatter<SessionFrontmatter>(this.app, session.file, {
+          grain_minutes: this.getGrainSecondsAt(session.started) / 60,
+        });
+        updated++;
+      } catch (e) {
+        console.error(`Failed to backfill grain length for ${session.filePath}:`, e);
+        failed++;
+      }
+    }
+
+    return { updated, failed };
+  }
+
+  private async findSessionsWithoutGrainLength(): Promise<Session[]> {
+    const missing: Session[] = [];
+    for (const session of await this.getAllSessions()) {
+      if (session.kind === 'break' || session.archived) continue;
 
-        activeSessions.push({
+      const fm = await readFrontmatter<SessionFrontmatter>(this.app, session.file);
+      if (fm && fm.grain_minutes == null) {
+        missing.push(session);
+      }
+    }
+    return missing;
+  }
+
+  // ============================================================================
+  // Integrity Check
+  // ============================================================================
+
+  /**
+   * Find problems in session files, including files left out of the index because
+   * their times can't be parsed. Archived sessions are left out since they can't be fixed in place.
+   */
+  async checkIntegrity(): Promise<SessionIssue[]> {
+    const sessions = (await this.getAllSessions()).filter((s) => !s.archived);
+    const issues: SessionIssue[] = [];
+
+    for (const file of this.getSessionFiles()) {
+      if (this.sessions.has(file.path)) continue;
+
+      const fm = await readFrontmatter<SessionFrontmatter>(this.app, file);
+      if (fm && (fm.started || fm.ended) && !fm.abandoned) {
+        issues.push({
+          kind: 'unparseable',
           filePath: file.path,
-          taskName: extractTaskName(safeString(fm.task)),
-          startTime: started,
-          elapsedSeconds: Math.floor(elapsed / 1000),
-          elapsedMinutes: Math.floor(elapsed / 60000),
-          file,
+          detail: this.describeUnreadableTimes(fm),
         });
-      } catch {
+      }
+    }
+
+    issues.push(
+      ...findSessionIssues(sessions, (s) => this.resolveTaskPath(s) !== undefined)
+    );
+    return issues;
+  }
+
+  private describeUnreadableTimes(fm: SessionFrontmatter): string {
+    if (!fm.started) return 'No start time';
+
+    for (const field of ['started', 'ended'] as const) {
+      if (fm[field] && !isValidDate(fm[field])) {
+        return `Can't read ${field} "${safeString(fm[field])}"`;
+      }
+    }
+    return "Can't read the session times";
+  }
+
+  /**
+   * End a session where the next one starts
+   */
+  async trimOverlap(session: Session, next: Session): Promise<void> {
+    await this.updateSessionTimes(session.file, session.started, next.started);
+  }
+
+  // ============================================================================
+  // Archiving
+  // ============================================================================
+
+  /**
+   * Count finished session files old enough to archive, and the months they span
+   */
+  async countArchivableSessions(): Promise<{ sessions: number; months: number }> {
+    const byMonth = await this.findArchivableSessions();
+    let sessions = 0;
+    byMonth.forEach((monthSessions) => (sessions += monthSessions.length));
+    return { sessions, months: byMonth.size };
+  }
+
+  /**
+   * Roll finished session files older than the archive age into one note per month,
+   * then delete the files. An existing archive note for a month is extended.
+   * Files are only deleted once their month's note is written.
+   */
+  async archiveOldSessions(): Promise<{ archived: number; months: number; failed: number }> {
+    const byMonth = await this.findArchivableSessions();
+    let archived = 0;
+    let months = 0;
+    let failed = 0;
+
+    for (const [month, sessions] of byMonth) {
+      try {
+        const entries: ArchivedSessionEntry[] = [];
+        for (const session of sessions) {
+          const fm = await readFrontmatter<SessionFrontmatter>(this.app, session.file);
+          if (fm) {
+            entries.push(toArchiveEntry(fm, session.filePath, session.grainMs / MINUTE_MS));
+          }
+        }
+        await this.writeArchive(month, entries);
+        months++;
+      } catch (e) {
+        console.error(`Failed to archive sessions of ${month}:`, e);
+        failed += sessions.length;
         continue;
       }
+
+      for (const session of sessions) {
+        try {
+          await this.app.vault.delete(session.file);
+          archived++;
+        } catch (e) {
+          console.error(`Failed to delete archived session ${session.filePath}:`, e);
+          failed++;
+        }
+      }
+    }
+
+    return { archived, months, failed };
+  }
+
+  /**
+   * Finished session files that started before the archive cutoff, by month
+   */
+  private async findArchivableSessions(): Promise<Map<string, Session[]>> {
+    const cutoff = getArchiveCutoff(this.days.getToday(), this.settings.archiveAfterMonths);
+    const byMonth = new Map<string, Session[]>();
+
+    const sessions = (await this.getAllSessions())
+      .filter((s) => s.ended && !s.archived && s.started < cutoff)
+      .reverse();
+    for (const session of sessions) {
+      const month = getArchiveMonth(session.started);
+      byMonth.set(month, [...(byMonth.get(month) || []), session]);
+    }
+    return byMonth;
+  }
+
+  /**
+   * Write a month's archive note in one go, keeping the entries already in it
+   */
+  private async writeArchive(month: string, entries: ArchivedSessionEntry[]): Promise<void> {
+    const path = getArchivePath(this.timerDir, month);
+    const existing = this.app.vault.getAbstractFileByPath(path);
+
+    let previous: ArchivedSessionEntry[] = [];
+    if (existing instanceof TFile) {
+      const fm = await readFrontmatter<Record<string, unknown>>(this.app, existing);
+      previous = fm && isArchiveFrontmatter(fm) ? fm.sessions : [];
+    }
+
+    const merged = mergeArchiveEntries(previous, entries);
+    const frontmatter: SessionArchiveFrontmatter = {
+      archive_month: month,
+      session_count: merged.length,
+      sessions: merged,
+    };
+    const content = `---\n${stringifyYaml(frontmatter)}---\n\n${formatArchiveTable(month, merged)}`;
+
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, content);
+    } else {
+      await this.ensureFolder(path.slice(0, path.lastIndexOf('/')));
+      await this.app.vault.create(path, content);
+    }
+  }
+
+  // ============================================================================
+  // Session Index
+  // ============================================================================
+
+  /**
+   * Build the session index and start watching for changes
+   */
+  async initialize(): Promise<void> {
+    await this.ensureIndex();
+  }
+
+  /**
+   * Clean up event listeners and timers
+   */
+  destroy(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+
+    // Unregister file watchers
+    for (const ref of this.vaultRefs) {
+      this.app.vault.offref(ref);
+    }
+    for (const ref of this.metadataRefs) {
+      this.app.metadataCache.offref(ref);
+    }
+    this.vaultRefs = [];
+    this.metadataRefs = [];
+  }
+
+  /**
+   * Build the index on first use, and again if the sessions directory setting changed
+   */
+  private ensureIndex(): Promise<void> {
+    if (this.indexPromise && this.indexedDir === this.timerDir) {
+      return this.indexPromise;
+    }
+
+    this.indexedDir = this.timerDir;
+    if (this.vaultRefs.length === 0) {
+      this.registerFileWatchers();
+    }
+    this.indexPromise = this.buildIndex();
+    return this.indexPromise;
+  }
+
+  private async buildIndex(): Promise<void> {
+    this.sessions.clear();
+    this.sessionsByDay.clear();
+    this.unfinishedPaths.clear();
+    this.sessionsByBlock.clear();
+    this.archiveKeys.clear();
+    this.sortedSessions = null;
+
+    const files = this.getSessionFiles();
+
+    // Process in batches to avoid blocking UI
+    for (let i = 0; i < files.length; i += this.BATCH_SIZE) {
+      const batch = files.slice(i, i + this.BATCH_SIZE);
+      await Promise.all(batch.map((file) => this.indexFile(file)));
+
+      // Yield to event loop between batches
+      if (i + this.BATCH_SIZE < files.length) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+  }
+
+  /**
+   * Keep the index current as session files change
+   * Frontmatter edits are picked up from the metadata cache, which has parsed them by then
+   */
+  private registerFileWatchers(): void {
+    this.metadataRefs.push(
+      this.app.metadataCache.on('changed', (file) => {
+        if (this.isSessionFile(file.path)) {
+          this.reindexFile(file);
+        }
+      })
+    );
+
+    this.vaultRefs.push(
+      this.app.vault.on('create', (file) => {
+        if (file instanceof TFile && this.isSessionFile(file.path)) {
+          this.reindexFile(file);
+        }
+      })
+    );
+
+    this.vaultRefs.push(
+      this.app.vault.on('delete', (file) => {
+        if (this.removeFromIndex(file.path)) {
+          this.scheduleUpdate();
+        }
+      })
+    );
+
+    this.vaultRefs.push(
+      this.app.vault.on('rename', (file, oldPath) => {
+        const removed = this.removeFromIndex(oldPath);
+        if (file instanceof TFile && this.isSessionFile(file.path)) {
+          this.reindexFile(file);
+        } else if (removed) {
+          this.scheduleUpdate();
+        } else if (file instanceof TFile && file.extension === 'md') {
+          this.followTaskRename(file, oldPath).catch((e) => {
+            console.error(`Failed to update sessions of renamed task ${oldPath}:`, e);
+          });
+        }
+      })
+    );
+  }
+
+  /**
+   * Point the sessions of a renamed task note at its new path
+   * Obsidian may update the links itself, but not when link updating is turned off, and
+   * links can be ambiguous; task_path is rewritten either way so history follows the note.
+   * Older sessions without task_path are matched by a link that no longer resolves.
+   */
+  private async followTaskRename(file: TFile, oldPath: string): Promise<void> {
+    const oldLinkPaths = [oldPath, oldPath.replace(/\.md$/, ''), oldPath.replace(/\.md$/, '').split('/').pop()];
+    const sessions = Array.from(this.sessions.values()).filter((s) =>
+      s.taskPath
+        ? s.taskPath === oldPath
+        : oldLinkPaths.includes(extractLinkPath(s.taskLink)) && this.resolveTaskPath(s) === undefined
+    );
+
+    for (const session of sessions.filter((s) => !s.archived)) {
+      await updateFrontmatter<SessionFrontmatter>(this.app, session.file, {
+        task: this.createTaskLink(file.basename, file.path, session.filePath),
+        task_path: file.path,
+      });
+    }
+
+    // Archived sessions are entries of their archive note
+    const archives = new Map(sessions.filter((s) => s.archived).map((s) => [s.file.path, s.file]));
+    for (const archive of archives.values()) {
+      const renamed = new Set(sessions.filter((s) => s.file === archive).map((s) => s.originalPath));
+      await this.app.fileManager.processFrontMatter(archive, (fm: SessionArchiveFrontmatter) => {
+        for (const entry of fm.sessions) {
+          if (!renamed.has(entry.file)) continue;
+          entry.task = this.createTaskLink(file.basename, file.path, archive.path);
+          entry.task_path = file.path;
+        }
+      });
+    }
+  }
+
+  /**
+   * Session files are markdown files anywhere inside the sessions directory
+   */
+  private isSessionFile(path: string): boolean {
+    return path.startsWith(`${this.timerDir}/`) && path.endsWith('.md');
+  }
+
+  private reindexFile(file: TFile): void {
+    this.indexFile(file)
+      .then(() => this.scheduleUpdate())
+      .catch((e) => {
+        console.error(`Failed to index session ${file.path}:`, e);
+      });
+  }
+
+  private async indexFile(file: TFile): Promise<void> {
+    const fm = await readFrontmatter<SessionFrontmatter>(this.app, file);
+    this.removeFromIndex(file.path);
+
+    if (fm && isArchiveFrontmatter(fm)) {
+      this.indexArchive(file, fm);
+      return;
+    }
+
+    const session = fm ? this.parseSession(file, fm) : null;
+    if (session) {
+      this.addToIndex(session);
+    }
+  }
+
+  /**
+   * Index the sessions of a monthly archive note as read-only sessions
+   */
+  private indexArchive(file: TFile, fm: SessionArchiveFrontmatter): void {
+    const keys: string[] = [];
+    for (const entry of fm.sessions) {
+      if (!entry || typeof entry !== 'object' || !entry.file) continue;
+
+      const originalPath = safeString(entry.file);
+      const key = `${file.path}#${originalPath}`;
+      const session = this.parseSession(file, entry, key);
+      if (!session || this.sessions.has(key)) continue;
+
+      session.archived = true;
+      session.originalPath = originalPath;
+      this.addToIndex(session);
+      keys.push(key);
+    }
+    this.archiveKeys.set(file.path, keys);
+  }
+
+  private addToIndex(session: Session): void {
+    const path = session.filePath;
+    this.sessions.set(path, session);
+    this.sortedSessions = null;
+    if (!session.ended) {
+      this.unfinishedPaths.add(path);
+    }
+    for (const dayKey of this.getCoveredDayKeys(session)) {
+      let bucket = this.sessionsByDay.get(dayKey);
+      if (!bucket) {
+        bucket = new Set();
+        this.sessionsByDay.set(dayKey, bucket);
+      }
+      bucket.add(path);
+    }
+
+    if (session.blockId) {
+      let block = this.sessionsByBlock.get(session.blockId);
+      if (!block) {
+        block = new Set();
+        this.sessionsByBlock.set(session.blockId, block);
+      }
+      block.add(path);
+      this.creditBlockGrains(session.blockId);
     }
+  }
+
+  private removeFromIndex(path: string): boolean {
+    const archived = this.archiveKeys.get(path);
+    if (archived) {
+      this.archiveKeys.delete(path);
+      archived.forEach((key) => this.removeFromIndex(key));
+      return true;
+    }
+
+    const existing = this.sessions.get(path);
+    if (!existing) return false;
+
+    this.sessions.delete(path);
+    this.sortedSessions = null;
+    this.unfinishedPaths.delete(path);
+
+    for (const dayKey of this.getCoveredDayKeys(existing)) {
+      const bucket = this.sessionsByDay.get(dayKey);
+      bucket?.delete(path);
+      if (bucket?.size === 0) {
+        this.sessionsByDay.delete(dayKey);
+      }
+    }
+
+    if (existing.blockId) {
+      const block = this.sessionsByBlock.get(existing.blockId);
+      block?.delete(path);
+      if (block?.size === 0) {
+        this.sessionsByBlock.delete(existing.blockId);
+      } else {
+        this.creditBlockGrains(existing.blockId);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Count grains across a work block rather than per session file
+   * Pausing or switching tasks splits a block into several files; each grain is credited
+   * to the file in which the block's running work time crossed it, so the files add up
+   * to what the timer showed (two 13 minute halves make one grain, not zero).
+   * Each file's work counts against its own grain length, so a block whose grain length
+   * changed partway through credits the earlier files at the old length.
+   */
+  private creditBlockGrains(blockId: string): void {
+    const sessions = Array.from(this.sessionsByBlock.get(blockId) || [])
+      .map((path) => this.sessions.get(path))
+      .filter((s): s is Session => !!s && !s.abandoned && s.kind !== 'break')
+      .sort((a, b) => a.started.getTime() - b.started.getTime());
+    if (sessions.length === 0) return;
+
+    let grainMs = sessions[0].grainMs;
+    let workedMs = 0;
+    for (const session of sessions) {
+      if (session.grainMs !== grainMs) {
+        // Carry the work so far over as the same share of grains at the new length
+        workedMs = Math.round((workedMs / grainMs) * session.grainMs);
+        grainMs = session.grainMs;
+      }
+      session.blockOffsetMs = workedMs;
+      if (session.durationMs === undefined) continue;
+
+      session.pomodoros =
+        calculatePomodoros(workedMs + session.durationMs, grainMs) - calculatePomodoros(workedMs, grainMs);
+      workedMs += session.durationMs;
+    }
+  }
+
+  /**
+   * Local calendar dates a finished session covers, from its start to its end
+   */
+  private getCoveredDayKeys(session: Session): string[] {
+    if (!session.ended) return [];
+
+    const keys: string[] = [];
+    const lastKey = formatDateOnly(session.ended);
+    for (let day = getStartOfDay(session.started); ; day = addDays(day, 1)) {
+      const key = formatDateOnly(day);
+      keys.push(key);
+      if (key >= lastKey) break;
+    }
+    return keys;
+  }
+
+  /**
+   * Notify listeners once a burst of file changes settles
+   * Edits made through the repository call this too, so views refresh without help from the caller.
+   */
+  private scheduleUpdate(): void {
+    this.sortedSessions = null;
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.trigger('sessions-updated');
+    }, this.DEBOUNCE_MS);
+  }
+
+  /**
+   * Parse session frontmatter, or null if the file isn't a valid session
+   */
+  private parseSession(file: TFile, fm: SessionFrontmatter, filePath = file.path): Session | null {
+    if (!fm.started) return null;
+
+    try {
+      const started = parseDateTime(fm.started);
+      const ended = fm.ended ? parseDateTime(fm.ended) : undefined;
+      if (isNaN(started.getTime()) || (ended && isNaN(ended.getTime()))) return null;
+
+      const taskName = extractTaskName(safeString(fm.task));
+
+      const grainMinutes = Number(fm.grain_minutes);
+      const grainMs = grainMinutes > 0 ? grainMinutes * MINUTE_MS : this.getGrainSecondsAt(started) * 1000;
+
+      let durationMs: number | undefined;
+      let durationMinutes: number | undefined;
+      let pomodoros: number | undefined;
+
+      if (ended) {
+        durationMs = ended.getTime() - started.getTime();
+        durationMinutes = Math.floor(durationMs / 60000);
+        pomodoros = calculatePomodoros(durationMs, grainMs);
+      }
+
+      return {
+        filePath,
+        started,
+        ended,
+        taskName,
+        taskLink: safeString(fm.task),
+        taskPath: fm.task_path ? safeString(fm.task_path) : undefined,
+        energyLevel: fm.energy_level != null ? safeInt(fm.energy_level) : undefined,
+        feeling: fm.feeling,
+        perceivedEffort: fm.perceived_effort != null ? safeInt(fm.perceived_effort) : undefined,
+        hourOfDay: fm.hour_of_day != null ? safeInt(fm.hour_of_day) : undefined,
+        dayOfWeek: fm.day_of_week,
+        durationMs,
+        durationMinutes,
+        pomodoros,
+        grainMs,
+        action: fm.action,
+        status: fm.status,
+        abandoned: fm.abandoned,
+        resumed: fm.resumed,
+        kind: fm.kind === 'break' ? 'break' : 'work',
+        breakType: fm.break_type,
+        targetMinutes: fm.target_minutes != null ? safeInt(fm.target_minutes) : undefined,
+        overtimeMinutes: fm.overtime_minutes != null ? safeInt(fm.overtime_minutes) : undefined,
+        blockId: fm.block_id ? safeString(fm.block_id) : undefined,
+        interruptions: parseInterruptions(fm.interruptions),
+        manual: fm.manual,
+        file,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // Queries
+  // ============================================================================
+
+  /**
+   * Find all active (unfinished) sessions
+   */
+  async findActiveSessions(): Promise<ActiveSession[]> {
+    const now = Date.now();
 
-    // Sort by start time, most recent first
-    return activeSessions.sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+    return (await this.getAllSessions())
+      .filter((s) => !s.ended && !s.abandoned)
+      .map((s) => {
+        const elapsed = now - s.started.getTime();
+        return {
+          filePath: s.filePath,
+          taskName: s.taskName,
+          startTime: s.started,
+          elapsedSeconds: Math.floor(elapsed / 1000),
+          elapsedMinutes: Math.floor(elapsed / 60000),
+          file: s.file,
+        };
+      });
   }
 
   /**
@@ -206,141 +1186,167 @@ export class SessionRepository {
   }
 
   /**
-   * Get all completed sessions
+   * Get all sessions, most recent first
    */
   async getAllSessions(): Promise<Session[]> {
-    const sessionFiles = this.getSessionFiles();
-    const sessions: Session[] = [];
+    await this.ensureIndex();
 
-    for (const file of sessionFiles) {
-      const fm = await readFrontmatter<SessionFrontmatter>(this.app, file);
-      if (!fm?.started) continue;
-
-      try {
-        const started = parseDateTime(fm.started);
-        const ended = fm.ended ? parseDateTime(fm.ended) : undefined;
-        const taskName = extractTaskName(safeString(fm.task));
-
-        let durationMs: number | undefined;
-        let durationMinutes: number | undefined;
-        let pomodoros: number | undefined;
-
-        if (ended) {
-          durationMs = ended.getTime() - started.getTime();
-          durationMinutes = Math.floor(durationMs / 60000);
-          pomodoros = calculatePomodoros(durationMs);
-        }
-
-        sessions.push({
-          filePath: file.path,
-          started,
-          ended,
-          taskName,
-          taskLink: safeString(fm.task),
-          energyLevel: fm.energy_level != null ? safeInt(fm.energy_level) : undefined,
-          feeling: fm.feeling,
-          perceivedEffort: fm.perceived_effort != null ? safeInt(fm.perceived_effort) : undefined,
-          hourOfDay: fm.hour_of_day != null ? safeInt(fm.hour_of_day) : undefined,
-          dayOfWeek: fm.day_of_week,
-          durationMs,
-          durationMinutes,
-          pomodoros,
-          action: fm.action,
-          status: fm.status,
-          abandoned: fm.abandoned,
-          resumed: fm.resumed,
-          file,
-        });
-      } catch {
-        continue;
-      }
+    if (!this.sortedSessions) {
+      this.sortedSessions = Array.from(this.sessions.values()).sort(
+        (a, b) => b.started.getTime() - a.started.getTime()
+      );
     }
-
-    // Sort by start time, most recent first
-    return sessions.sort((a, b) => b.started.getTime() - a.started.getTime());
+    return [...this.sortedSessions];
   }
 
   /**
-   * Get sessions for a specific date range
+   * Get sessions overlapping a date range, most recent first
+   * Sessions that started before the range but ran into it are included.
+   * Only the day buckets inside the range are visited, plus any unfinished sessions.
    */
   async getSessionsInRange(startDate: Date, endDate: Date): Promise<Session[]> {
-    const allSessions = await this.getAllSessions();
-    return allSessions.filter(
-      (s) => s.started >= startDate && s.started <= endDate
-    );
+    await this.ensureIndex();
+
+    const startKey = formatDateOnly(startDate);
+    const endKey = formatDateOnly(endDate);
+    const paths = new Set(this.unfinishedPaths);
+
+    for (const [dayKey, bucket] of this.sessionsByDay) {
+      if (dayKey < startKey || dayKey > endKey) continue;
+      bucket.forEach((path) => paths.add(path));
+    }
+
+    const now = new Date();
+    const sessions: Session[] = [];
+    for (const path of paths) {
+      const session = this.sessions.get(path);
+      if (!session || session.started > endDate) continue;
+
+      // Zero-length sessions still belong to the range they start in
+      if (getSessionEnd(session, now) > startDate || session.started >= startDate) {
+        sessions.push(session);
+      }
+    }
+
+    return sessions.sort((a, b) => b.started.getTime() - a.started.getTime());
   }
 
   /**
    * Get sessions for today
    */
   async getTodaySessions(): Promise<Session[]> {
-    return this.getSessionsForDate(new Date());
+    return this.getSessionsForDate(this.days.getToday());
   }
 
   /**
-   * Get sessions for a specific date
+   * Get sessions overlapping a specific calendar day, honouring the configured day start
    */
   async getSessionsForDate(date: Date): Promise<Session[]> {
-    const dayStart = new Date(date);
-    dayStart.setHours(0, 0, 0, 0);
-    const dayEnd = new Date(dayStart);
-    dayEnd.setDate(dayEnd.getDate() + 1);
-
-    return this.getSessionsInRange(dayStart, dayEnd);
+    const { start, end } = this.days.getDayBounds(date);
+    return this.getSessionsInRange(start, new Date(end.getTime() - 1));
   }
 
   /**
    * Get completed pomodoros for today
+   * Grains of a session that ran over the day boundary count on the day they completed
    */
   async getTodayPomodoros(): Promise<number> {
-    const sessions = await this.getTodaySessions();
+    const { start, end } = this.days.getDayBounds(this.days.getToday());
+    const sessions = await this.getSessionsInRange(start, new Date(end.getTime() - 1));
     return sessions
-      .filter((s) => s.ended && !s.abandoned)
-      .reduce((sum, s) => sum + (s.pomodoros || 0), 0);
+      .filter((s) => s.ended && !s.abandoned && s.kind !== 'break')
+      .reduce((sum, s) => sum + countGrainsInRange(s, start, end), 0);
+  }
+
+  /**
+   * Path of the task note a session belongs to, or undefined if it doesn't resolve
+   * The recorded task_path wins while the note exists; otherwise the link is resolved
+   * the way Obsidian resolves it from the session file.
+   */
+  resolveTaskPath(session: Session): string | undefined {
+    return this.resolveTaskLink(session.taskPath, session.taskLink, session.file.path);
   }
 
   /**
-   * Get session statistics grouped by task
+   * Key that sessions of the same task share: the task note path, or the task name
+   * when the task doesn't resolve to a note
    */
-  async getSessionStatsByTask(): Promise<
-    Record<string, { actualPoms: number; totalMinutes: number; sessions: Session[] }>
-  > {
+  getTaskKey(session: Session): string {
+    return this.resolveTaskPath(session) ?? session.taskName;
+  }
+
+  private resolveTaskLink(
+    taskPath: string | null | undefined,
+    taskLink: string,
+    sourcePath: string
+  ): string | undefined {
+    if (taskPath && this.app.vault.getAbstractFileByPath(taskPath) instanceof TFile) {
+      return taskPath;
+    }
+    if (!taskLink) return undefined;
+
+    return this.app.metadataCache.getFirstLinkpathDest(extractLinkPath(taskLink), sourcePath)?.path;
+  }
+
+  /**
+   * Get session statistics grouped by task note path
+   * Sessions whose task doesn't resolve to a note are grouped by task name instead
+   */
+  async getSessionStatsByTask(): Promise<Record<string, SessionStats>> {
     const sessions = await this.getAllSessions();
-    const stats: Record<
-      string,
-      { actualPoms: number; totalMinutes: number; sessions: Session[] }
-    > = {};
+    const stats: Record<string, SessionStats> = {};
 
     for (const session of sessions) {
-      if (!session.ended || session.abandoned) continue;
+      if (!session.ended || session.abandoned || session.kind === 'break') continue;
 
-      const taskName = session.taskName;
-      if (!stats[taskName]) {
-        stats[taskName] = { actualPoms: 0, totalMinutes: 0, sessions: [] };
+      const key = this.getTaskKey(session);
+      if (!stats[key]) {
+        stats[key] = { actualPoms: 0, totalMinutes: 0, interruptions: 0, sessions: [] };
       }
 
-      stats[taskName].actualPoms += session.pomodoros || 0;
-      stats[taskName].totalMinutes += session.durationMinutes || 0;
-      stats[taskName].sessions.push(session);
+      stats[key].actualPoms += session.pomodoros || 0;
+      stats[key].totalMinutes += session.durationMinutes || 0;
+      stats[key].interruptions += session.interruptions.length;
+      stats[key].sessions.push(session);
     }
 
     return stats;
   }
 
   /**
-   * Get daily pomodoro counts
+   * Get daily pomodoro counts, keyed by day (YYYY-MM-DD)
+   * Sessions spanning days are split across them
    */
   async getDailyPomodorosCounts(): Promise<Record<string, number>> {
     const sessions = await this.getAllSessions();
     const daily: Record<string, number> = {};
 
     for (const session of sessions) {
-      if (!session.ended || session.abandoned) continue;
+      if (!session.ended || session.abandoned || session.kind === 'break') continue;
 
-      const dayKey = session.started.toISOString().slice(0, 10);
-      daily[dayKey] = (daily[dayKey] || 0) + (session.pomodoros || 0);
+      for (const { dayKey, grains } of splitSessionByDay(session, this.days)) {
+        daily[dayKey] = (daily[dayKey] || 0) + grains;
+      }
     }
 
     return daily;
   }
 }
+
+/**
+ * Whether a frontmatter value parses to a real date ("2024-01-15T25:00:00" doesn't)
+ */
+function isValidDate(value: unknown): boolean {
+  try {
+    return !isNaN(parseDateTime(value).getTime());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether frontmatter belongs to a monthly archive note rather than a single session
+ */
+function isArchiveFrontmatter(fm: Record<string, unknown>): fm is SessionArchiveFrontmatter {
+  return typeof fm.archive_month === 'string' && Array.isArray(fm.sessions);
+}
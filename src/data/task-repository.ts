@@ -1,7 +1,25 @@
-import { App, TFile, Events } from 'obsidian';
-import type { Task, TaskFrontmatter, TaskMetadataOptions, TaskStatus, TimegrainSettings } from '../types';
+import { App, TFile, Events, EventRef, getAllTags } from 'obsidian';
+import type {
+  Task,
+  TaskFrontmatter,
+  TaskMetadataOptions,
+  TaskStatus,
+  NewTaskFields,
+  TimegrainSettings,
+} from '../types';
 import { readFrontmatter, updateFrontmatter, safeInt, safeString } from './frontmatter';
-import { formatDateOnly } from '../utils/datetime';
+import { formatDateOnly, formatTaskDateTime } from '../utils/datetime';
+import { slugify } from '../utils/formatters';
+import { canTransition, getStatusLabel, isDoneStatus } from '../utils/task-status';
+import { parseDependencies, findBlockingDependencies, findDependencyCycles } from '../utils/task-dependencies';
+import {
+  isTaskNote,
+  needsTaskMetadata,
+  parsePropertyRule,
+  getAreaFolderName,
+  type TaskDiscoveryRules,
+} from '../utils/task-discovery';
+import { DayBoundaryService } from '../services/day-boundary-service';
 
 /**
  * Repository for task file operations with caching
@@ -12,13 +30,16 @@ export class TaskRepository extends Events {
   private refreshPromise: Promise<void> | null = null;
   private debounceTimer: ReturnType<typeof setTimeout> | null = null;
   private eventRefs: ReturnType<typeof this.app.vault.on>[] = [];
+  private metadataRefs: EventRef[] = [];
+  private dependencyCycles: string[][] = [];
 
   private readonly DEBOUNCE_MS = 300;
   private readonly BATCH_SIZE = 50;
 
   constructor(
     private app: App,
-    private settings: TimegrainSettings
+    private settings: TimegrainSettings,
+    private days: DayBoundaryService = new DayBoundaryService(settings)
   ) {
     super();
   }
@@ -38,6 +59,10 @@ export class TaskRepository extends Events {
       this.app.vault.offref(ref);
     }
     this.eventRefs = [];
+    for (const ref of this.metadataRefs) {
+      this.app.metadataCache.offref(ref);
+    }
+    this.metadataRefs = [];
   }
 
   /**
@@ -92,7 +117,7 @@ export class TaskRepository extends Events {
     }
 
     this.tasks = newTasks;
-    this.trigger('tasks-updated');
+    this.notifyTasksUpdated();
   }
 
   /**
@@ -102,40 +127,40 @@ export class TaskRepository extends Events {
     const files = this.app.vault.getMarkdownFiles();
 
     for (const file of files) {
-      if (this.isValidTaskFile(file.path)) {
+      if (this.isValidTaskFile(file)) {
         yield file;
       }
     }
   }
 
   /**
-   * Check if a file path is a valid task file
+   * Task discovery rules from settings
    */
-  private isValidTaskFile(path: string): boolean {
-    const parts = path.toLowerCase().split('/');
-
-    // Must be in a 'tasks' directory
-    if (!parts.some((p) => p === 'tasks')) {
-      return false;
-    }
-
-    // Skip timer sessions
-    if (parts.some((p) => p === 'timer_sessions')) {
-      return false;
-    }
-
-    // Skip templates
-    const templatePatterns = ['templates', 'template', '.template'];
-    if (parts.some((p) => templatePatterns.includes(p))) {
-      return false;
-    }
+  private get discoveryRules(): TaskDiscoveryRules {
+    return {
+      folders: this.settings.taskFolders,
+      property: this.settings.taskProperty,
+      tag: this.settings.taskTag,
+      include: this.settings.taskInclude,
+      exclude: this.settings.taskExclude,
+      sessionsDir: this.settings.timerSessionsDir,
+    };
+  }
 
-    // Skip hidden files/directories
-    if (parts.some((p) => p.startsWith('.'))) {
-      return false;
+  /**
+   * Check if a file is a task note under the discovery rules
+   */
+  private isValidTaskFile(file: TFile): boolean {
+    const rules = this.discoveryRules;
+    if (!needsTaskMetadata(rules)) {
+      return isTaskNote(file.path, rules);
     }
 
-    return true;
+    const cache = this.app.metadataCache.getFileCache(file);
+    return isTaskNote(file.path, rules, {
+      frontmatter: cache?.frontmatter,
+      tags: cache ? getAllTags(cache) ?? [] : [],
+    });
   }
 
   /**
@@ -153,6 +178,7 @@ export class TaskRepository extends Events {
     const category = safeString(frontmatter.category).trim();
     const scope = safeString(frontmatter.scope).trim();
     const tags = this.normalizeTags(frontmatter.tags);
+    const dependsOn = parseDependencies(frontmatter.depends_on ?? frontmatter['depends on']);
 
     return {
       path: file.path,
@@ -166,6 +192,9 @@ export class TaskRepository extends Events {
       category,
       scope,
       tags,
+      dependsOn,
+      blocked: false, // Set once all tasks are loaded
+      blockedBy: [],
       modificationDate: file.stat.mtime,
       file,
     };
@@ -173,17 +202,17 @@ export class TaskRepository extends Events {
 
   /**
    * Extract area name from task path
-   * Area is the directory immediately before 'tasks' in the path
+   * Area is the folder holding the task folder, or the note's own folder for tasks
+   * found by property, tag or include pattern
    */
   extractAreaFromPath(path: string): string {
-    const parts = path.split('/');
-    const tasksIndex = parts.findIndex((p) => p.toLowerCase() === 'tasks');
+    const folder = getAreaFolderName(path, this.discoveryRules);
 
-    if (tasksIndex <= 0) {
+    if (!folder) {
       return 'General';
     }
 
-    let area = parts[tasksIndex - 1]
+    const area = folder
       .replace(/-/g, ' ')
       .replace(/_/g, ' ')
       .split(' ')
@@ -200,13 +229,62 @@ export class TaskRepository extends Events {
     return isBlacklisted ? 'Other' : area;
   }
 
+  /**
+   * Recompute blocked state and dependency cycles, then let listeners know tasks changed
+   */
+  private notifyTasksUpdated(): void {
+    this.updateDependencies();
+    this.trigger('tasks-updated');
+  }
+
+  /**
+   * Resolve dependencies to task paths and mark tasks waiting on unfinished ones as blocked
+   * Dependencies that aren't task notes don't block. New dependency cycles are announced
+   * with a 'dependency-cycles' event.
+   */
+  private updateDependencies(): void {
+    const definitions = this.settings.taskStatusDefinitions;
+    const graph = new Map<string, string[]>();
+
+    for (const task of this.tasks.values()) {
+      const paths = task.dependsOn
+        .map((target) => this.app.metadataCache.getFirstLinkpathDest(target, task.path)?.path)
+        .filter((path): path is string => !!path && this.tasks.has(path));
+      graph.set(task.path, [...new Set(paths)]);
+    }
+
+    const blocking = findBlockingDependencies(graph, (path) => {
+      const dependency = this.tasks.get(path);
+      return !!dependency && !isDoneStatus(definitions, dependency.status);
+    });
+    for (const task of this.tasks.values()) {
+      task.blockedBy = blocking.get(task.path) || [];
+      task.blocked = task.blockedBy.length > 0;
+    }
+
+    const cycles = findDependencyCycles(graph);
+    const key = (list: string[][]) => list.map((cycle) => cycle.join('>')).join('\n');
+    const isNew = key(cycles) !== key(this.dependencyCycles);
+    this.dependencyCycles = cycles;
+    if (isNew && cycles.length > 0) {
+      this.trigger('dependency-cycles', cycles);
+    }
+  }
+
+  /**
+   * Dependency cycles found in the last update, as task paths
+   */
+  getDependencyCycles(): string[][] {
+    return this.dependencyCycles;
+  }
+
   /**
    * Register file watchers for real-time updates
    */
   private registerFileWatchers(): void {
     this.eventRefs.push(
       this.app.vault.on('modify', (file) => {
-        if (file instanceof TFile && this.isValidTaskFile(file.path)) {
+        if (file instanceof TFile && this.isValidTaskFile(file)) {
           this.debouncedRefresh(file);
         }
       })
@@ -214,7 +292,7 @@ export class TaskRepository extends Events {
 
     this.eventRefs.push(
       this.app.vault.on('create', (file) => {
-        if (file instanceof TFile && this.isValidTaskFile(file.path)) {
+        if (file instanceof TFile && this.isValidTaskFile(file)) {
           this.debouncedRefresh(file);
         }
       })
@@ -224,7 +302,7 @@ export class TaskRepository extends Events {
       this.app.vault.on('delete', (file) => {
         if (file instanceof TFile) {
           this.tasks.delete(file.path);
-          this.trigger('tasks-updated');
+          this.notifyTasksUpdated();
         }
       })
     );
@@ -233,14 +311,27 @@ export class TaskRepository extends Events {
       this.app.vault.on('rename', (file, oldPath) => {
         if (file instanceof TFile) {
           this.tasks.delete(oldPath);
-          if (this.isValidTaskFile(file.path)) {
+          if (this.isValidTaskFile(file)) {
             this.debouncedRefresh(file);
           } else {
-            this.trigger('tasks-updated');
+            this.notifyTasksUpdated();
           }
         }
       })
     );
+
+    // Property and tag rules depend on metadata, which is parsed after 'modify' fires
+    this.metadataRefs.push(
+      this.app.metadataCache.on('changed', (file) => {
+        if (!needsTaskMetadata(this.discoveryRules)) return;
+
+        if (this.isValidTaskFile(file)) {
+          this.debouncedRefresh(file);
+        } else if (this.tasks.delete(file.path)) {
+          this.notifyTasksUpdated();
+        }
+      })
+    );
   }
 
   /**
@@ -321,7 +412,7 @@ export class TaskRepository extends Events {
       } else {
         this.tasks.delete(file.path);
       }
-      this.trigger('tasks-updated');
+      this.notifyTasksUpdated();
     }, this.DEBOUNCE_MS);
   }
 
@@ -399,10 +490,204 @@ export class TaskRepository extends Events {
   // Mutation Methods
   // ============================================================================
 
+  /**
+   * Create a task note in the default task directory from the standard template
+   * The file name is the slugified title, with a numeric suffix if it's taken
+   */
+  async createTask(fields: NewTaskFields): Promise<TFile> {
+    const now = new Date();
+    const slug = slugify(fields.title);
+    const rules = this.discoveryRules;
+    let taskDir = this.settings.defaultTaskDirectory;
+
+    // Without a property or tag to mark it, the note has to go in a task folder to be discovered
+    if (!needsTaskMetadata(rules) && !isTaskNote(`${taskDir}/${slug}.md`, rules)) {
+      taskDir = `${taskDir}/tasks`;
+    }
+
+    // Ensure directory exists - create recursively if needed
+    const dirExists = this.app.vault.getAbstractFileByPath(taskDir);
+    if (!dirExists) {
+      // Create parent directories if needed
+      const parts = taskDir.split('/');
+      let currentPath = '';
+      for (const part of parts) {
+        currentPath = currentPath ? `${currentPath}/${part}` : part;
+        const existing = this.app.vault.getAbstractFileByPath(currentPath);
+        if (!existing) {
+          await this.app.vault.createFolder(currentPath);
+        }
+      }
+    }
+
+    // Generate unique filename with safeguard against infinite loops
+    let filename = `${slug}.md`;
+    let filepath = `${taskDir}/${filename}`;
+    let counter = 1;
+    const maxAttempts = 1000;
+
+    while (this.app.vault.getAbstractFileByPath(filepath) && counter < maxAttempts) {
+      filename = `${slug}-${counter}.md`;
+      filepath = `${taskDir}/${filename}`;
+      counter++;
+    }
+
+    if (counter >= maxAttempts) {
+      throw new Error('Could not generate unique filename');
+    }
+
+    const category = fields.category.trim();
+    const scope = fields.scope.trim();
+    const tags = [...fields.tags];
+    const taskTag = rules.tag.trim().replace(/^#/, '');
+    if (taskTag && !tags.some((t) => t.toLowerCase() === taskTag.toLowerCase())) {
+      tags.push(taskTag);
+    }
+
+    // Build frontmatter
+    const frontmatter: Record<string, unknown> = {
+      category: category || null,
+      'creation date': formatTaskDateTime(now),
+      'depends on': null,
+      'due to': null,
+      estimation: fields.estimation,
+      'expected energy': fields.expectedEnergy > 0 ? fields.expectedEnergy : null,
+      goal: [],
+      'modification date': formatTaskDateTime(now),
+      scope: scope || null,
+      status: fields.status,
+      tags,
+    };
+
+    const taskProperty = parsePropertyRule(rules.property);
+    if (taskProperty) {
+      frontmatter[taskProperty.key] = taskProperty.value ?? true;
+    }
+
+    // Build content with proper YAML escaping
+    const frontmatterYaml = Object.entries(frontmatter)
+      .map(([key, value]) => {
+        if (value === null || value === undefined) {
+          return `${key}:`;
+        }
+        if (Array.isArray(value)) {
+          if (value.length === 0) {
+            return `${key}:`;
+          }
+          const items = value.map((item) => `  - ${item}`).join('\n');
+          return `${key}:\n${items}`;
+        }
+        if (typeof value === 'string') {
+          // Quote strings that contain YAML special characters or start with special chars
+          const needsQuoting = /[:\#\[\]\{\}\,\&\*\?\|\-\<\>\=\!\%\@\`\n]/.test(value) ||
+            /^[\s'"]/.test(value) ||
+            /[\s'"]$/.test(value) ||
+            value === '' ||
+            value === 'true' || value === 'false' ||
+            value === 'null' || value === 'yes' || value === 'no';
+          if (needsQuoting) {
+            // Escape double quotes and backslashes inside the string
+            const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+            return `${key}: "${escaped}"`;
+          }
+          return `${key}: ${value}`;
+        }
+        return `${key}: ${value}`;
+      })
+      .join('\n');
+
+    const timerSessionsDir = this.settings.timerSessionsDir;
+
+    const content = `---
+${frontmatterYaml}
+---
+
+
+# Task context
+
+
+
+# Task checklist
+
+- [ ]
+
+---
+
+# Task outputs
+
+
+---
+
+# Task log
+
+\`\`\`dataview
+TABLE WITHOUT ID
+  "**Total Time:**" as "",
+  choice(
+    sum(rows.duration_minutes) >= 60,
+    floor(sum(rows.duration_minutes) / 60) + "h " + round(sum(rows.duration_minutes) % 60) + "m",
+    round(sum(rows.duration_minutes)) + "m"
+  ) as "Time Spent"
+FROM "${timerSessionsDir}"
+WHERE started AND ended AND contains(file.outlinks, this.file.link)
+FLATTEN (number(dateformat(date(ended), "x")) - number(dateformat(date(started), "x"))) / (1000 * 60) as duration_minutes
+GROUP BY true
+\`\`\`
+
+\`\`\`base
+filters:
+  and:
+    - file.inFolder("${timerSessionsDir}")
+    - file.ext == "md"
+formulas:
+  duration: ended-started
+properties:
+  started:
+    displayName: Started at
+  ended:
+    displayName: Ended at
+  formula.duration:
+    displayName: Duration (min)
+views:
+  - type: table
+    name: Timer sessions for this task
+    filters:
+      and:
+        - file.hasLink(this.file)
+    order:
+      - file.name
+      - started
+      - ended
+      - formula.duration
+    sort:
+      - column: file.name
+        direction: DESC
+      - column: note.ended
+        direction: ASC
+      - column: note.duration
+        direction: ASC
+    columnSize:
+      file.name: 169
+      note.started: 191
+      note.ended: 195
+\`\`\`
+`;
+
+    return await this.app.vault.create(filepath, content);
+  }
+
   /**
    * Update a task's status
+   * Throws if the status workflow doesn't allow the move.
    */
   async updateTaskStatus(task: Task, newStatus: TaskStatus): Promise<void> {
+    const definitions = this.settings.taskStatusDefinitions;
+    if (!canTransition(definitions, task.status, newStatus)) {
+      throw new Error(
+        `"${task.title || task.name}" can't move from ${getStatusLabel(definitions, task.status)} to ${getStatusLabel(definitions, newStatus)}`
+      );
+    }
+
     await updateFrontmatter(this.app, task.file, {
       status: newStatus,
       'modification date': formatDateOnly(new Date()),
@@ -411,7 +696,7 @@ export class TaskRepository extends Events {
     // Update cache
     task.status = newStatus;
     task.modificationDate = Date.now();
-    this.trigger('tasks-updated');
+    this.notifyTasksUpdated();
   }
 
   /**
@@ -425,22 +710,25 @@ export class TaskRepository extends Events {
   }
 
   /**
-   * Rollover stale 'today' tasks to 'this week'
+   * Rollover stale tasks in statuses with a "roll over to" status, e.g. 'today' to 'this week'
+   * A task is stale when it was last changed before the current day started, so with the
+   * day starting at 04:00 a task set to 'today' at 01:30 still counts for the evening before.
    */
   async rolloverStaleTasks(): Promise<number> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const dayStart = this.days.getDayBounds(this.days.getToday()).start;
 
     let rolloverCount = 0;
-    const todayTasks = this.getTasksByStatus('today');
+    const definitions = this.settings.taskStatusDefinitions;
 
-    for (const task of todayTasks) {
-      const mtime = new Date(task.modificationDate);
-      mtime.setHours(0, 0, 0, 0);
+    for (const definition of definitions) {
+      const target = definition.rolloverTo;
+      if (!target || !canTransition(definitions, definition.id, target)) continue;
 
-      if (mtime < today) {
-        await this.updateTaskStatus(task, 'this week');
-        rolloverCount++;
+      for (const task of this.getTasksByStatus(definition.id)) {
+        if (task.modificationDate < dayStart.getTime()) {
+          await this.updateTaskStatus(task, target);
+          rolloverCount++;
+        }
       }
     }
 
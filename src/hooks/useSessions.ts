@@ -48,14 +48,17 @@ export function useSessions() {
     timerService.on('timer-complete', refresh);
     timerService.on('timer-cancel', refresh);
     timerService.on('session-updated', refresh);
+    // Session files edited outside the timer (e.g. by hand or sync)
+    sessionRepository.on('sessions-updated', refresh);
 
     return () => {
       mountedRef.current = false;
       timerService.off('timer-complete', refresh);
       timerService.off('timer-cancel', refresh);
       timerService.off('session-updated', refresh);
+      sessionRepository.off('sessions-updated', refresh);
     };
-  }, [refresh, plugin.timerService]);
+  }, [refresh, plugin.timerService, sessionRepository]);
 
   return {
     sessions,
@@ -105,10 +108,17 @@ export function useSessionsForDate(date: Date) {
     mountedRef.current = true;
     refresh();
 
+    // Refresh when a session on the timeline is edited
+    const timerService = plugin.timerService;
+    timerService.on('session-updated', refresh);
+    sessionRepository.on('sessions-updated', refresh);
+
     return () => {
       mountedRef.current = false;
+      timerService.off('session-updated', refresh);
+      sessionRepository.off('sessions-updated', refresh);
     };
-  }, [refresh]);
+  }, [refresh, plugin.timerService, sessionRepository]);
 
   return {
     sessions,
@@ -31,7 +31,7 @@ export function useTasks(statuses?: TaskStatus[]) {
       const sessionStats = await sessionRepository.getSessionStatsByTask();
       const tasksWithPoms = allTasks.map(task => ({
         ...task,
-        actualPoms: sessionStats[task.name]?.actualPoms || 0,
+        actualPoms: sessionStats[task.path]?.actualPoms || 0,
       }));
 
       setTasks(tasksWithPoms);
@@ -83,7 +83,7 @@ export function useTasksByStatus() {
           status,
           tasks.map(task => ({
             ...task,
-            actualPoms: sessionStats[task.name]?.actualPoms || 0,
+            actualPoms: sessionStats[task.path]?.actualPoms || 0,
           })),
         ])
       ) as Record<TaskStatus, Task[]>;
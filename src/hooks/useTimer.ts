@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { TimerStatus, TimerState } from '../types';
+import type { TimerStatus, BreakType, SessionTarget } from '../types';
 import { usePlugin } from '../context/PluginContext';
 
 /**
@@ -21,22 +21,30 @@ export function useTimer() {
     timerService.on('timer-start', updateStatus);
     timerService.on('timer-pause', updateStatus);
     timerService.on('timer-resume', updateStatus);
+    timerService.on('timer-switch', updateStatus);
     timerService.on('timer-complete', updateStatus);
     timerService.on('timer-cancel', updateStatus);
+    timerService.on('break-start', updateStatus);
+    timerService.on('break-complete', updateStatus);
+    timerService.on('interruption', updateStatus);
 
     return () => {
       timerService.off('timer-tick', updateStatus);
       timerService.off('timer-start', updateStatus);
       timerService.off('timer-pause', updateStatus);
       timerService.off('timer-resume', updateStatus);
+      timerService.off('timer-switch', updateStatus);
       timerService.off('timer-complete', updateStatus);
       timerService.off('timer-cancel', updateStatus);
+      timerService.off('break-start', updateStatus);
+      timerService.off('break-complete', updateStatus);
+      timerService.off('interruption', updateStatus);
     };
   }, [timerService]);
 
   const start = useCallback(
-    async (taskName: string, taskPath: string | null = null) => {
-      await timerService.start(taskName, taskPath);
+    async (taskName: string, taskPath: string | null = null, target: SessionTarget | null = null) => {
+      await timerService.start(taskName, taskPath, target);
     },
     [timerService]
   );
@@ -49,6 +57,13 @@ export function useTimer() {
     await timerService.resume();
   }, [timerService]);
 
+  const switchTask = useCallback(
+    async (taskName: string, taskPath: string | null = null) => {
+      await timerService.switchTask(taskName, taskPath);
+    },
+    [timerService]
+  );
+
   const togglePause = useCallback(async () => {
     await timerService.togglePause();
   }, [timerService]);
@@ -61,21 +76,41 @@ export function useTimer() {
     await timerService.cancel();
   }, [timerService]);
 
+  const startBreak = useCallback(
+    async (breakType?: BreakType) => {
+      await timerService.startBreak(breakType);
+    },
+    [timerService]
+  );
+
+  const skipBreak = useCallback(async () => {
+    await timerService.skipBreak();
+  }, [timerService]);
+
   return {
     status,
     state: status.state,
     isRunning: status.state === 'running',
     isPaused: status.state === 'paused',
     isIdle: status.state === 'idle',
+    isBreak: status.mode === 'break',
+    breakType: status.breakType,
+    remainingSeconds: status.remainingSeconds,
+    targetSeconds: status.targetSeconds,
+    overtimeSeconds: status.overtimeSeconds,
     taskName: status.taskName,
     taskPath: status.taskPath,
     elapsedSeconds: status.elapsedSeconds,
     currentPomodoro: status.currentPomodoro,
+    interruptions: status.interruptions,
     start,
     pause,
     resume,
+    switchTask,
     togglePause,
     complete,
     cancel,
+    startBreak,
+    skipBreak,
   };
 }
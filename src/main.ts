@@ -1,41 +1,76 @@
 import { Plugin, TFile, Notice, WorkspaceLeaf } from 'obsidian';
-import type { TimegrainSettings } from './types';
+import type { TimegrainSettings, BreakType, TargetExpiryAction, PersistedTimerState, SessionFrontmatter } from './types';
 import { DEFAULT_SETTINGS, TimegrainSettingTab } from './settings';
 import { VIEW_TYPE_TIMER, VIEW_TYPE_DASHBOARD, TIMER_TICK_INTERVAL, STATE_PERSISTENCE_INTERVAL } from './constants';
 import { TaskRepository } from './data/task-repository';
 import { SessionRepository } from './data/session-repository';
 import { TimerService } from './services/timer-service';
+import { IdleDetector } from './services/idle-detector';
+import { NotificationService } from './services/notification-service';
+import { AutomationService } from './services/automation-service';
+import { DayBoundaryService } from './services/day-boundary-service';
 import { TimerView } from './views/timer-view';
 import { DashboardView } from './views/dashboard-view';
 import { EnergyModal } from './modals/energy-modal';
-import { TaskSuggestModal } from './modals/task-suggest-modal';
+import { TaskSuggestModal, type TaskSuggestMode } from './modals/task-suggest-modal';
 import { UnfinishedSessionModal, type RecoveryAction } from './modals/unfinished-session-modal';
 import { NewTaskModal } from './modals/new-task-modal';
 import { PlanDayModal } from './modals/plan-day-modal';
+import { TaskStatusModal } from './modals/task-status-modal';
+import { BreakOfferModal } from './modals/break-offer-modal';
+import { IdleReturnModal } from './modals/idle-return-modal';
+import { InterruptionModal } from './modals/interruption-modal';
+import { LogSessionModal } from './modals/log-session-modal';
+import { ConfirmModal } from './modals/confirm-modal';
+import { SessionCheckModal } from './modals/session-check-modal';
+import { ExportSessionsModal } from './modals/export-sessions-modal';
+import { ImportSessionsModal } from './modals/import-sessions-modal';
+import type { ExportFormat } from './utils/session-export';
 import { parseDateTime } from './utils/datetime';
-import { extractTaskName } from './utils/formatters';
+import { extractTaskName, calculatePomodoros } from './utils/formatters';
+import { mergeNotificationChannels } from './utils/notifications';
+import { migrateStatusDefinitions } from './utils/task-status';
 
 export default class TimegrainPlugin extends Plugin {
   settings!: TimegrainSettings;
+  dayBoundary!: DayBoundaryService;
   taskRepository!: TaskRepository;
   sessionRepository!: SessionRepository;
   timerService!: TimerService;
+  notificationService!: NotificationService;
+  automationService!: AutomationService;
 
   private timerInterval: number | null = null;
   private persistenceInterval: number | null = null;
   private statusBarItem: HTMLElement | null = null;
+  private idleDetector!: IdleDetector;
+  private idlePausing = false;
+  private idleModalOpen = false;
+  private longSessionNotified = false;
+  private dailyGoalNotifiedOn: string | null = null; // Date key (YYYY-MM-DD)
+  private persistedTimerState: PersistedTimerState | null = null; // Read on load, consumed once layout is ready
 
   async onload(): Promise<void> {
     // Load settings
     await this.loadSettings();
 
     // Initialize repositories and services
-    this.sessionRepository = new SessionRepository(this.app, this.settings);
-    this.taskRepository = new TaskRepository(this.app, this.settings);
+    this.dayBoundary = new DayBoundaryService(this.settings);
+    this.sessionRepository = new SessionRepository(this.app, this.settings, this.dayBoundary);
+    this.taskRepository = new TaskRepository(this.app, this.settings, this.dayBoundary);
     this.timerService = new TimerService(
       this.sessionRepository,
-      this.settings.cycleSeconds * 1000
+      this.settings.cycleSeconds * 1000,
+      this.settings
     );
+    this.notificationService = new NotificationService(this.app, this.settings);
+    this.automationService = new AutomationService(
+      this.app,
+      this.settings,
+      this.timerService,
+      this.taskRepository
+    );
+    this.automationService.register();
 
     // Register views
     this.registerView(VIEW_TYPE_TIMER, (leaf) => new TimerView(leaf, this));
@@ -57,9 +92,22 @@ export default class TimegrainPlugin extends Plugin {
     // Add settings tab
     this.addSettingTab(new TimegrainSettingTab(this.app, this));
 
+    // Track activity for idle detection
+    this.idleDetector = new IdleDetector(() => this.settings.idleThresholdSeconds * 1000);
+    for (const type of ['keydown', 'mousedown', 'mousemove', 'wheel', 'touchstart'] as const) {
+      this.registerDomEvent(window, type, () => this.onUserActivity());
+    }
+    this.registerDomEvent(window, 'blur', () => this.idleDetector.onBlur());
+    this.registerDomEvent(window, 'focus', () => {
+      this.idleDetector.onFocus();
+      this.onUserActivity();
+    });
+
     // Start timer tick interval
     this.timerInterval = window.setInterval(() => {
+      this.checkIdle();
       this.timerService.tick();
+      this.checkLongSession();
       this.updateStatusBar();
     }, TIMER_TICK_INTERVAL);
     this.registerInterval(this.timerInterval);
@@ -76,19 +124,58 @@ export default class TimegrainPlugin extends Plugin {
       this.onPomodoroComplete(count);
     });
 
+    this.timerService.on('break-offer', (data: unknown) => {
+      const { breakType } = data as { breakType: BreakType };
+      new BreakOfferModal(this.app, this, breakType).open();
+    });
+
+    this.timerService.on('target-reached', (data: unknown) => {
+      const { action, sessionFile } = data as { action: TargetExpiryAction; sessionFile: TFile | null };
+      this.onTargetReached(action, sessionFile);
+    });
+
+    // A break taken mid-block closes the work session; rate it like a completed one
+    this.timerService.on('break-start', (data: unknown) => {
+      const { sessionFile } = data as { sessionFile: TFile | null };
+      if (sessionFile) {
+        this.showEnergyModal(sessionFile);
+      }
+    });
+
+    this.timerService.on('break-complete', (data: unknown) => {
+      const { skipped } = data as { breakType: BreakType; skipped: boolean };
+      if (!skipped) {
+        this.onBreakComplete();
+      }
+    });
+
+    this.taskRepository.on('dependency-cycles', (data: unknown) => {
+      const cycles = data as string[][];
+      new Notice(`Task dependency cycle: ${cycles.map((cycle) => this.formatDependencyCycle(cycle)).join('; ')}`);
+    });
+
     // Initialize repositories and check for unfinished sessions once layout is ready
     // (metadata cache must be populated before reading frontmatter)
     this.app.workspace.onLayoutReady(async () => {
-      // Initialize task cache now that metadata cache is ready
+      // Initialize task and session caches now that metadata cache is ready
       await this.taskRepository.initialize();
+      await this.sessionRepository.initialize();
 
-      await this.checkForUnfinishedSessions();
+      await this.restoreTimerState();
+
+      // Warn about blocked tasks from here on, not for the restored session
+      for (const event of ['timer-start', 'timer-switch']) {
+        this.timerService.on(event, (data: unknown) => {
+          const { taskPath } = data as { taskPath: string | null };
+          this.warnIfBlocked(taskPath);
+        });
+      }
 
       // Rollover stale tasks if enabled
       if (this.settings.rolloverStaleTasks) {
         const count = await this.taskRepository.rolloverStaleTasks();
         if (count > 0) {
-          new Notice(`Rolled over ${count} stale task(s) to "this week"`);
+          new Notice(`Rolled over ${count} stale task(s)`);
         }
       }
     });
@@ -100,6 +187,8 @@ export default class TimegrainPlugin extends Plugin {
 
     // Clean up task repository (file watchers, timers)
     this.taskRepository.destroy();
+    this.sessionRepository.destroy();
+    this.automationService.destroy();
 
     // Detach views
     this.app.workspace.detachLeavesOfType(VIEW_TYPE_TIMER);
@@ -111,11 +200,25 @@ export default class TimegrainPlugin extends Plugin {
   // ============================================================================
 
   async loadSettings(): Promise<void> {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // Timer state shares the data file with settings but isn't a setting; the status lists
+    // were replaced by status definitions
+    const { _timerState, taskStatuses, completedStatuses, ...data } = (await this.loadData()) || {};
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+    this.settings.notifications = mergeNotificationChannels(DEFAULT_SETTINGS.notifications, data.notifications);
+    this.settings.automationRules = [...(data.automationRules || [])];
+    this.settings.grainLengthHistory = [...(data.grainLengthHistory || [])];
+    this.settings.taskStatusDefinitions = migrateStatusDefinitions(data.taskStatusDefinitions, {
+      taskStatuses,
+      completedStatuses,
+    });
+    this.persistedTimerState = _timerState || null;
   }
 
   async saveSettings(): Promise<void> {
-    await this.saveData(this.settings);
+    await this.saveData({
+      ...this.settings,
+      _timerState: this.timerService ? this.getTimerStateToSave() : this.persistedTimerState,
+    });
   }
 
   // ============================================================================
@@ -152,7 +255,7 @@ export default class TimegrainPlugin extends Plugin {
       id: 'pause-resume-timer',
       name: 'Pause/resume timer',
       checkCallback: (checking) => {
-        if (this.timerService.isIdle()) return false;
+        if (this.timerService.isIdle() || this.timerService.isOnBreak()) return false;
         if (!checking) {
           this.timerService.togglePause();
         }
@@ -165,7 +268,7 @@ export default class TimegrainPlugin extends Plugin {
       id: 'complete-timer',
       name: 'Complete timer session',
       checkCallback: (checking) => {
-        if (this.timerService.isIdle()) return false;
+        if (this.timerService.isIdle() || this.timerService.isOnBreak()) return false;
         if (!checking) {
           this.completeTimerWithEnergyModal();
         }
@@ -186,6 +289,61 @@ export default class TimegrainPlugin extends Plugin {
       },
     });
 
+    // Log interruption
+    this.addCommand({
+      id: 'log-interruption',
+      name: 'Log interruption',
+      checkCallback: (checking) => {
+        if (!this.timerService.isRunning() || this.timerService.isOnBreak()) return false;
+        if (!checking) {
+          this.openInterruptionModal();
+        }
+        return true;
+      },
+    });
+
+    // Switch task within the current work block
+    this.addCommand({
+      id: 'switch-task',
+      name: 'Switch task...',
+      checkCallback: (checking) => {
+        if (this.timerService.isIdle() || this.timerService.isOnBreak()) return false;
+        if (!checking) {
+          this.openTaskSuggester('switch');
+        }
+        return true;
+      },
+    });
+
+    // Start break
+    this.addCommand({
+      id: 'start-break',
+      name: 'Start break',
+      checkCallback: (checking) => {
+        if (this.timerService.isOnBreak()) return false;
+        if (!checking) {
+          this.timerService.startBreak().catch((e) => {
+            console.error('Failed to start break:', e);
+            new Notice('Failed to start break');
+          });
+        }
+        return true;
+      },
+    });
+
+    // Skip break
+    this.addCommand({
+      id: 'skip-break',
+      name: 'Skip break',
+      checkCallback: (checking) => {
+        if (!this.timerService.isOnBreak()) return false;
+        if (!checking) {
+          this.timerService.skipBreak();
+        }
+        return true;
+      },
+    });
+
     // Open timer view
     this.addCommand({
       id: 'open-timer-view',
@@ -207,12 +365,82 @@ export default class TimegrainPlugin extends Plugin {
       callback: () => this.openNewTaskModal(),
     });
 
+    // Log a session that happened without the timer
+    this.addCommand({
+      id: 'log-past-session',
+      name: 'Log past session',
+      callback: () => this.openLogSessionModal(),
+    });
+
+    // Export sessions for reporting
+    this.addCommand({
+      id: 'export-sessions',
+      name: 'Export sessions...',
+      callback: () => this.openExportModal(),
+    });
+
+    // Export sessions for calendar apps
+    this.addCommand({
+      id: 'export-sessions-calendar',
+      name: 'Export sessions to calendar (.ics)...',
+      callback: () => this.openExportModal(undefined, undefined, 'ics'),
+    });
+
+    // Import time logs from other trackers
+    this.addCommand({
+      id: 'import-sessions',
+      name: 'Import sessions...',
+      callback: () => this.openImportModal(),
+    });
+
     // Plan day
     this.addCommand({
       id: 'plan-day',
       name: 'Plan your day',
       callback: () => this.openPlanDayModal(),
     });
+
+    // Change status of the current task note, or of a task picked from search
+    this.addCommand({
+      id: 'change-task-status',
+      name: 'Change task status...',
+      callback: () => this.openTaskStatusModal(),
+    });
+
+    // Reorganize existing session files after changing the folder layout
+    this.addCommand({
+      id: 'migrate-session-layout',
+      name: 'Move session files into folder layout',
+      callback: () => this.migrateSessionLayout(),
+    });
+
+    // Backfill grain lengths on older sessions
+    this.addCommand({
+      id: 'backfill-grain-lengths',
+      name: 'Record grain length on older sessions',
+      callback: () => this.backfillGrainLengths(),
+    });
+
+    // Find broken, overlapping or duplicated session files
+    this.addCommand({
+      id: 'check-session-data',
+      name: 'Check session data',
+      callback: () => this.checkSessionData(),
+    });
+
+    // Report circular task dependencies
+    this.addCommand({
+      id: 'check-task-dependencies',
+      name: 'Check task dependencies',
+      callback: () => this.checkTaskDependencies(),
+    });
+
+    // Roll old session files into monthly archive notes
+    this.addCommand({
+      id: 'archive-old-sessions',
+      name: 'Archive old sessions',
+      callback: () => this.archiveOldSessions(),
+    });
   }
 
   // ============================================================================
@@ -263,18 +491,204 @@ export default class TimegrainPlugin extends Plugin {
   // Modals
   // ============================================================================
 
-  openTaskSuggester(): void {
-    new TaskSuggestModal(this.app, this).open();
+  openTaskSuggester(mode: TaskSuggestMode = 'start'): void {
+    new TaskSuggestModal(this.app, this, mode).open();
+  }
+
+  openInterruptionModal(): void {
+    new InterruptionModal(this.app, this).open();
   }
 
   openNewTaskModal(): void {
     new NewTaskModal(this.app, this).open();
   }
 
+  openLogSessionModal(): void {
+    new LogSessionModal(this.app, this).open();
+  }
+
+  /**
+   * Export sessions, by default from the start of this month to today
+   */
+  openExportModal(from?: Date, to?: Date, format?: ExportFormat): void {
+    const today = this.dayBoundary.getToday();
+    new ExportSessionsModal(
+      this.app,
+      this,
+      from || new Date(today.getFullYear(), today.getMonth(), 1),
+      to || today,
+      format
+    ).open();
+  }
+
+  openImportModal(): void {
+    new ImportSessionsModal(this.app, this).open();
+  }
+
   openPlanDayModal(): void {
     new PlanDayModal(this.app, this).open();
   }
 
+  openTaskStatusModal(): void {
+    const file = this.app.workspace.getActiveFile();
+    const task = file ? this.taskRepository.findTaskByPath(file.path) : undefined;
+    if (task) {
+      new TaskStatusModal(this.app, this, task).open();
+      return;
+    }
+    new TaskSuggestModal(this.app, this, 'pick', (picked) => {
+      new TaskStatusModal(this.app, this, picked).open();
+    }).open();
+  }
+
+  private async migrateSessionLayout(): Promise<void> {
+    const count = await this.sessionRepository.countMisplacedSessions();
+    if (count === 0) {
+      new Notice('All session files are already in the folder layout');
+      return;
+    }
+
+    new ConfirmModal(
+      this.app,
+      'Move session files?',
+      `${count} session file${count === 1 ? '' : 's'} will be moved into "${this.settings.timerSessionsDir}" using the "${this.settings.sessionFolderLayout}" layout. Links to them are updated. Unfinished sessions are left in place.`,
+      'Move files',
+      (confirmed) => {
+        if (!confirmed) return;
+
+        new Notice(`Moving ${count} session files...`);
+        this.sessionRepository
+          .migrateSessionLayout()
+          .then(({ moved, failed }) => {
+            new Notice(
+              failed > 0
+                ? `Moved ${moved} session files, ${failed} failed (see console)`
+                : `Moved ${moved} session files`
+            );
+          })
+          .catch((e) => {
+            console.error('Failed to migrate session files:', e);
+            new Notice('Failed to move session files');
+          });
+      }
+    ).open();
+  }
+
+  private async backfillGrainLengths(): Promise<void> {
+    const count = await this.sessionRepository.countSessionsWithoutGrainLength();
+    if (count === 0) {
+      new Notice('All sessions already record their grain length');
+      return;
+    }
+
+    new ConfirmModal(
+      this.app,
+      'Record grain lengths?',
+      `${count} session${count === 1 ? '' : 's'} will get a grain_minutes field with the grain length in effect when ${count === 1 ? 'it' : 'they'} started.`,
+      'Record',
+      (confirmed) => {
+        if (!confirmed) return;
+
+        this.sessionRepository
+          .backfillGrainLengths()
+          .then(({ updated, failed }) => {
+            new Notice(
+              failed > 0
+                ? `Updated ${updated} sessions, ${failed} failed (see console)`
+                : `Updated ${updated} sessions`
+            );
+          })
+          .catch((e) => {
+            console.error('Failed to backfill grain lengths:', e);
+            new Notice('Failed to record grain lengths');
+          });
+      }
+    ).open();
+  }
+
+  private async archiveOldSessions(): Promise<void> {
+    const { sessions, months } = await this.sessionRepository.countArchivableSessions();
+    if (sessions === 0) {
+      new Notice(`No sessions older than ${this.settings.archiveAfterMonths} months to archive`);
+      return;
+    }
+
+    new ConfirmModal(
+      this.app,
+      'Archive old sessions?',
+      `${sessions} session file${sessions === 1 ? '' : 's'} will be rolled into ${months} monthly archive note${months === 1 ? '' : 's'} and deleted. Stats and the calendar keep showing them, but archived sessions can't be edited.`,
+      'Archive',
+      (confirmed) => {
+        if (!confirmed) return;
+
+        this.sessionRepository
+          .archiveOldSessions()
+          .then(({ archived, months, failed }) => {
+            new Notice(
+              failed > 0
+                ? `Archived ${archived} sessions into ${months} notes, ${failed} failed (see console)`
+                : `Archived ${archived} sessions into ${months} notes`
+            );
+          })
+          .catch((e) => {
+            console.error('Failed to archive sessions:', e);
+            new Notice('Failed to archive sessions');
+          });
+      }
+    ).open();
+  }
+
+  /**
+   * Warn when timing a task that waits on unfinished dependencies
+   */
+  private warnIfBlocked(taskPath: string | null): void {
+    const task = taskPath ? this.taskRepository.findTaskByPath(taskPath) : undefined;
+    if (!task?.blocked) return;
+
+    const names = task.blockedBy.map((path) => {
+      const dependency = this.taskRepository.findTaskByPath(path);
+      return dependency ? dependency.title || dependency.name : path;
+    });
+    new Notice(`"${task.title || task.name}" is blocked by ${names.join(', ')}`);
+  }
+
+  private checkTaskDependencies(): void {
+    const cycles = this.taskRepository.getDependencyCycles();
+    if (cycles.length === 0) {
+      new Notice('No task dependency cycles');
+      return;
+    }
+    new Notice(
+      `${cycles.length} task dependency cycle${cycles.length === 1 ? '' : 's'}:\n` +
+        cycles.map((cycle) => this.formatDependencyCycle(cycle)).join('\n')
+    );
+  }
+
+  /**
+   * "A → B → A" for a cycle of task paths
+   */
+  private formatDependencyCycle(cycle: string[]): string {
+    const names = [...cycle, cycle[0]].map((path) => {
+      const task = this.taskRepository.findTaskByPath(path);
+      return task ? task.title || task.name : path;
+    });
+    return names.join(' → ');
+  }
+
+  private async checkSessionData(): Promise<void> {
+    try {
+      const issues = await this.sessionRepository.checkIntegrity();
+      if (issues.length === 0) {
+        new Notice('No problems found in session data');
+        return;
+      }
+      new SessionCheckModal(this.app, this, issues).open();
+    } catch (e) {
+      console.error('Failed to check session data:', e);
+      new Notice('Failed to check session data');
+    }
+  }
+
   showEnergyModal(sessionFile: TFile): void {
     new EnergyModal(this.app, this, sessionFile).open();
   }
@@ -302,7 +716,7 @@ export default class TimegrainPlugin extends Plugin {
           this.activateTimerView();
           break;
         case 'toggle-pause':
-          if (!this.timerService.isIdle()) {
+          if (!this.timerService.isIdle() && !this.timerService.isOnBreak()) {
             this.timerService.togglePause();
           }
           break;
@@ -328,6 +742,29 @@ export default class TimegrainPlugin extends Plugin {
       this.statusBarItem.setText('--:--');
       this.statusBarItem.removeClass('timegrain-active');
       this.statusBarItem.removeClass('timegrain-paused');
+      this.statusBarItem.removeClass('timegrain-break');
+    } else if (status.mode === 'break') {
+      const remaining = status.remainingSeconds ?? 0;
+      const minutes = Math.floor(remaining / 60);
+      const seconds = remaining % 60;
+      const timeStr = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+
+      this.statusBarItem.setText(`☕ ${timeStr}`);
+      this.statusBarItem.removeClass('timegrain-active');
+      this.statusBarItem.removeClass('timegrain-paused');
+      this.statusBarItem.addClass('timegrain-break');
+    } else if (status.targetSeconds !== null) {
+      // Target sessions count down, then show overtime
+      const isOvertime = status.overtimeSeconds > 0;
+      const shown = isOvertime ? status.overtimeSeconds : status.remainingSeconds ?? 0;
+      const minutes = Math.floor(shown / 60);
+      const seconds = shown % 60;
+      const timeStr = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+
+      this.statusBarItem.setText(isOvertime ? `⏳ +${timeStr}` : `⏳ ${timeStr}`);
+      this.statusBarItem.addClass('timegrain-active');
+      this.statusBarItem.removeClass('timegrain-break');
+      this.statusBarItem.toggleClass('timegrain-paused', status.state === 'paused');
     } else {
       const minutes = Math.floor(status.elapsedSeconds / 60);
       const seconds = status.elapsedSeconds % 60;
@@ -335,6 +772,7 @@ export default class TimegrainPlugin extends Plugin {
 
       this.statusBarItem.setText(`⏱ ${timeStr}`);
       this.statusBarItem.addClass('timegrain-active');
+      this.statusBarItem.removeClass('timegrain-break');
       this.statusBarItem.toggleClass('timegrain-paused', status.state === 'paused');
     }
   }
@@ -344,46 +782,129 @@ export default class TimegrainPlugin extends Plugin {
   // ============================================================================
 
   private async saveTimerState(): Promise<void> {
-    const state = this.timerService.getPersistedState();
     await this.saveData({
       ...this.settings,
-      _timerState: state,
+      _timerState: this.getTimerStateToSave(),
     });
   }
 
+  private getTimerStateToSave(): PersistedTimerState {
+    // Keep the previous state on disk until it has been restored or the recovery prompt answered
+    if (this.persistedTimerState && this.timerService.isIdle()) {
+      return this.persistedTimerState;
+    }
+    return this.timerService.getPersistedState();
+  }
+
+  /**
+   * Rehydrate the timer from the state saved before the last shutdown
+   * Session files are the source of truth: persisted state is only used when it agrees with them
+   */
+  private async restoreTimerState(): Promise<void> {
+    const persisted = this.persistedTimerState;
+    if (persisted) {
+      this.timerService.restoreBreakCycle(persisted.grainsSinceLongBreak);
+    }
+
+    const unfinished = await this.sessionRepository.findLatestUnfinishedSession();
+    const hasUnfinishedWork = !!unfinished && unfinished.frontmatter.kind !== 'break';
+
+    // A paused block has no open session file - restore it unless newer work was started since
+    if (
+      persisted?.state === 'paused' &&
+      persisted.mode === 'work' &&
+      persisted.taskName &&
+      !hasUnfinishedWork
+    ) {
+      try {
+        await this.timerService.restoreFromPersistedState(persisted);
+        new Notice(`Restored paused session for "${persisted.taskName}"`);
+      } catch (e) {
+        console.error('Failed to restore paused timer:', e);
+      }
+    }
+
+    // An unfinished work session still needs the user's decision, which consumes the state
+    if (!hasUnfinishedWork) {
+      this.persistedTimerState = null;
+    }
+
+    await this.checkForUnfinishedSessions(unfinished, persisted);
+  }
+
   // ============================================================================
   // Unfinished Session Recovery
   // ============================================================================
 
-  private async checkForUnfinishedSessions(): Promise<void> {
-    const unfinished = await this.sessionRepository.findLatestUnfinishedSession();
+  private async checkForUnfinishedSessions(
+    unfinished: { file: TFile; frontmatter: SessionFrontmatter } | null,
+    persisted: PersistedTimerState | null
+  ): Promise<void> {
     if (!unfinished) return;
 
     const { file, frontmatter } = unfinished;
 
+    // Breaks are never resumed - an interrupted break is simply closed out
+    if (frontmatter.kind === 'break') {
+      await this.sessionRepository.abandonSession(file);
+      return;
+    }
+
+    // Persisted state only describes this session if it was running in the same file
+    const matching =
+      persisted?.state === 'running' &&
+      persisted.mode === 'work' &&
+      persisted.sessionFilePath === file.path
+        ? persisted
+        : null;
+
     new UnfinishedSessionModal(
       this.app,
       this,
       file,
       frontmatter,
       async (action: RecoveryAction) => {
-        await this.handleRecoveryDecision(file, frontmatter, action);
+        await this.handleRecoveryDecision(file, frontmatter, action, matching);
       }
     ).open();
   }
 
   private async handleRecoveryDecision(
     sessionFile: TFile,
-    frontmatter: import('./types').SessionFrontmatter,
-    action: RecoveryAction
+    frontmatter: SessionFrontmatter,
+    action: RecoveryAction,
+    persisted: PersistedTimerState | null = null
   ): Promise<void> {
+    this.persistedTimerState = null;
+
     switch (action) {
-      case 'resume':
+      case 'resume': {
+        // Saved block state keeps earlier sessions' time, grain count and task path
+        if (persisted) {
+          await this.timerService.restoreFromPersistedState(persisted, sessionFile);
+          new Notice(`Resumed session for "${persisted.taskName}"`);
+          break;
+        }
+
         const startTime = parseDateTime(frontmatter.started);
         const taskName = extractTaskName(frontmatter.task || 'Unknown');
-        await this.timerService.restoreFromSession(sessionFile, taskName, startTime);
+        const target = frontmatter.target_minutes
+          ? {
+              durationMs: Number(frontmatter.target_minutes) * 60 * 1000,
+              onExpiry: frontmatter.target_action || 'overtime',
+            }
+          : null;
+        await this.timerService.restoreFromSession(
+          sessionFile,
+          taskName,
+          startTime,
+          frontmatter.task_path || null,
+          target,
+          frontmatter.block_id || null
+        );
         new Notice(`Resumed session for "${taskName}"`);
         break;
+      }
 
       case 'abandon':
         await this.timerService.abandonSession(sessionFile);
@@ -397,50 +918,123 @@ export default class TimegrainPlugin extends Plugin {
   }
 
   // ============================================================================
-  // Notifications
+  // Idle Detection
   // ============================================================================
 
-  private onPomodoroComplete(count: number): void {
-    if (this.settings.playSound) {
-      this.playNotificationSound();
-    }
+  private checkIdle(): void {
+    if (!this.settings.idleDetection || this.idlePausing) return;
+    if (!this.timerService.isRunning() || this.timerService.isOnBreak()) return;
+
+    const idleSince = this.idleDetector.getIdleSince();
+    if (idleSince === null) return;
+
+    this.idlePausing = true;
+    this.timerService
+      .pauseForIdle(idleSince)
+      .catch((e) => {
+        console.error('Failed to pause idle timer:', e);
+      })
+      .finally(() => {
+        this.idlePausing = false;
+      });
+  }
 
-    new Notice(`Grain ${count} complete!`);
+  private onUserActivity(): void {
+    this.idleDetector.recordActivity();
+
+    // Mouse movement over an unfocused window isn't the user coming back
+    if (!document.hasFocus()) return;
+    if (!this.timerService.hasIdlePause() || this.idleModalOpen) return;
+
+    const idleStart = this.timerService.getIdleStart();
+    if (idleStart === null) return;
+
+    const returnedAt = Date.now();
+    this.idleModalOpen = true;
+    new IdleReturnModal(this.app, idleStart, (resolution) => {
+      this.idleModalOpen = false;
+      // Dismissing the modal discards the idle time but leaves the timer paused
+      this.timerService
+        .resolveIdle(resolution ?? 'discard', returnedAt, resolution !== null)
+        .catch((e) => {
+          console.error('Failed to resolve idle time:', e);
+          new Notice('Failed to update session after idle time');
+        });
+    }).open();
   }
 
-  private playNotificationSound(): void {
-    // Simple oscillator beep
-    try {
-      const audioContext = new AudioContext();
-      const oscillator = audioContext.createOscillator();
-      const gainNode = audioContext.createGain();
+  // ============================================================================
+  // Notifications
+  // ============================================================================
 
-      oscillator.connect(gainNode);
-      gainNode.connect(audioContext.destination);
+  private onPomodoroComplete(count: number): void {
+    this.notificationService.notify('grainComplete', `Grain ${count} complete!`);
+    this.checkDailyGoal().catch((e) => {
+      console.error('Failed to check daily goal:', e);
+    });
+  }
 
-      oscillator.frequency.value = 800;
-      oscillator.type = 'sine';
+  private onTargetReached(action: TargetExpiryAction, sessionFile: TFile | null): void {
+    // A reached target ends a unit of work, like a grain
+    switch (action) {
+      case 'complete':
+        this.notificationService.notify('grainComplete', 'Target reached - session complete');
+        if (sessionFile) {
+          this.showEnergyModal(sessionFile);
+        }
+        break;
+      case 'pause':
+        this.notificationService.notify('grainComplete', 'Target reached - timer paused');
+        break;
+      case 'overtime':
+        this.notificationService.notify('grainComplete', 'Target reached - now in overtime');
+        break;
+    }
+  }
 
-      gainNode.gain.setValueAtTime(0.3, audioContext.currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.5);
+  private onBreakComplete(): void {
+    this.notificationService.notify('breakOver', 'Break over - ready for the next grain?');
+  }
+
+  /**
+   * Notify once a day when completed grains reach the daily goal
+   */
+  private async checkDailyGoal(): Promise<void> {
+    const goal = this.settings.dailyGoalPoms;
+    const today = this.dayBoundary.getDayKey(new Date());
+    if (goal <= 0 || this.dailyGoalNotifiedOn === today) return;
+
+    // Finished sessions plus the grains the running session adds to its block
+    const finished = await this.sessionRepository.getTodayPomodoros();
+    const { startTime, accumulatedMs } = this.timerService.getStatus();
+    const grainMs = this.settings.cycleSeconds * 1000;
+    const current = startTime
+      ? calculatePomodoros(accumulatedMs + Date.now() - startTime, grainMs) - calculatePomodoros(accumulatedMs, grainMs)
+      : 0;
+
+    if (finished + current >= goal) {
+      this.dailyGoalNotifiedOn = today;
+      this.notificationService.notify('dailyGoal', `Daily goal reached: ${goal} grains today`);
+    }
+  }
 
-      oscillator.start(audioContext.currentTime);
-      oscillator.stop(audioContext.currentTime + 0.5);
+  /**
+   * Notify once per work block when it runs past the long session length
+   */
+  private checkLongSession(): void {
+    const status = this.timerService.getStatus();
+    const thresholdSeconds = this.settings.longSessionMinutes * 60;
 
-      // Close AudioContext after sound finishes to prevent memory leak
-      // Use both onended callback and timeout fallback for reliability
-      let closed = false;
-      const closeContext = () => {
-        if (!closed) {
-          closed = true;
-          audioContext.close();
-        }
-      };
-      oscillator.onended = closeContext;
-      // Fallback timeout in case onended doesn't fire (some browsers)
-      setTimeout(closeContext, 1000);
-    } catch (e) {
-      console.error('Failed to play notification sound:', e);
+    if (status.state === 'idle' || status.mode === 'break' || thresholdSeconds <= 0) {
+      this.longSessionNotified = false;
+      return;
     }
+    if (this.longSessionNotified || status.elapsedSeconds < thresholdSeconds) return;
+
+    this.longSessionNotified = true;
+    this.notificationService.notify(
+      'longSession',
+      `You've been working on "${status.taskName}" for ${this.settings.longSessionMinutes} minutes - time for a break?`
+    );
   }
 }
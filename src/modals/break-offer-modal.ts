@@ -0,0 +1,60 @@
+import { App, Modal, Notice } from 'obsidian';
+import type TimegrainPlugin from '../main';
+import type { BreakType } from '../types';
+
+/**
+ * Modal shown after a grain completes when breaks are set to "offer"
+ */
+export class BreakOfferModal extends Modal {
+  constructor(
+    app: App,
+    private plugin: TimegrainPlugin,
+    private breakType: BreakType
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('timegrain-break-modal');
+
+    const isLong = this.breakType === 'long';
+    const minutes = Math.round(
+      (isLong ? this.plugin.settings.longBreakSeconds : this.plugin.settings.shortBreakSeconds) / 60
+    );
+
+    contentEl.createEl('h2', { text: 'Grain complete' });
+    contentEl.createEl('p', {
+      text: isLong
+        ? `You've earned a long break (${minutes} min).`
+        : `Time for a short break (${minutes} min).`,
+      cls: 'timegrain-break-info',
+    });
+
+    const actionsContainer = contentEl.createDiv('timegrain-unfinished-actions');
+
+    const breakBtn = actionsContainer.createEl('button', {
+      text: isLong ? 'Start long break' : 'Start short break',
+      cls: 'mod-cta',
+    });
+    breakBtn.addEventListener('click', () => {
+      this.close();
+      if (this.plugin.timerService.isOnBreak()) return;
+      this.plugin.timerService.startBreak(this.breakType).catch((e) => {
+        console.error('Failed to start break:', e);
+        new Notice('Failed to start break');
+      });
+    });
+
+    const continueBtn = actionsContainer.createEl('button', {
+      text: 'Keep working',
+    });
+    continueBtn.addEventListener('click', () => this.close());
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,48 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Simple yes/no confirmation for destructive actions
+ */
+export class ConfirmModal extends Modal {
+  private confirmed = false;
+
+  constructor(
+    app: App,
+    private title: string,
+    private message: string,
+    private confirmText: string,
+    private onDecision: (confirmed: boolean) => void
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: this.title });
+    contentEl.createEl('p', { text: this.message });
+
+    const actionsContainer = contentEl.createDiv('timegrain-unfinished-actions');
+
+    const confirmBtn = actionsContainer.createEl('button', {
+      text: this.confirmText,
+      cls: 'mod-warning',
+    });
+    confirmBtn.addEventListener('click', () => {
+      this.confirmed = true;
+      this.close();
+    });
+
+    const cancelBtn = actionsContainer.createEl('button', {
+      text: 'Cancel',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.onDecision(this.confirmed);
+  }
+}
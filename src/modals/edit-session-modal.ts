@@ -0,0 +1,103 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type TimegrainPlugin from '../main';
+import type { Session } from '../types';
+import { formatDateOnly, formatTimeInput, combineDateAndTime } from '../utils/datetime';
+
+/**
+ * Modal for adjusting a finished session's start and end
+ * The end date is separate so sessions can run past midnight
+ */
+export class EditSessionModal extends Modal {
+  private startDate: string;
+  private startTime: string;
+  private endDate: string;
+  private endTime: string;
+
+  constructor(
+    app: App,
+    private plugin: TimegrainPlugin,
+    private session: Session
+  ) {
+    super(app);
+
+    const ended = session.ended || new Date();
+    this.startDate = formatDateOnly(session.started);
+    this.startTime = formatTimeInput(session.started);
+    this.endDate = formatDateOnly(ended);
+    this.endTime = formatTimeInput(ended);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('timegrain-edit-session-modal');
+
+    contentEl.createEl('h2', { text: 'Adjust session times' });
+    contentEl.createEl('p', {
+      text: this.session.kind === 'break' ? 'Break' : this.session.taskName,
+      cls: 'timegrain-unfinished-task',
+    });
+
+    new Setting(contentEl)
+      .setName('Start')
+      .addText((text) => {
+        text.inputEl.type = 'date';
+        text.setValue(this.startDate).onChange((value) => (this.startDate = value));
+      })
+      .addText((text) => {
+        text.inputEl.type = 'time';
+        text.setValue(this.startTime).onChange((value) => (this.startTime = value));
+      });
+
+    new Setting(contentEl)
+      .setName('End')
+      .addText((text) => {
+        text.inputEl.type = 'date';
+        text.setValue(this.endDate).onChange((value) => (this.endDate = value));
+      })
+      .addText((text) => {
+        text.inputEl.type = 'time';
+        text.setValue(this.endTime).onChange((value) => (this.endTime = value));
+      });
+
+    const buttonContainer = contentEl.createDiv('timegrain-modal-buttons');
+
+    const cancelBtn = buttonContainer.createEl('button', {
+      text: 'Cancel',
+      cls: 'timegrain-btn timegrain-btn-secondary',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const saveBtn = buttonContainer.createEl('button', {
+      text: 'Save',
+      cls: 'timegrain-btn timegrain-btn-primary',
+    });
+    saveBtn.addEventListener('click', () => this.save());
+  }
+
+  private async save(): Promise<void> {
+    const start = combineDateAndTime(this.startDate, this.startTime);
+    const end = combineDateAndTime(this.endDate, this.endTime);
+    if (!start || !end) {
+      new Notice('Enter a valid start and end');
+      return;
+    }
+    if (end <= start) {
+      new Notice('End must be after start');
+      return;
+    }
+
+    try {
+      await this.plugin.sessionRepository.updateSessionTimes(this.session.file, start, end);
+      this.close();
+    } catch (e) {
+      console.error('Failed to update session times:', e);
+      new Notice('Failed to update session');
+    }
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,180 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import type TimegrainPlugin from '../main';
+import type { Session, TaskStatus } from '../types';
+import { formatDateOnly, parseDateTime } from '../utils/datetime';
+import { getStatusLabel } from '../utils/task-status';
+import {
+  buildExportRows,
+  selectExportSessions,
+  formatSessionExport,
+  formatSessionCalendar,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_FORMAT_EXTENSIONS,
+  type ExportFormat,
+} from '../utils/session-export';
+
+/**
+ * Modal for exporting the sessions of a date range to a file in the vault
+ */
+export class ExportSessionsModal extends Modal {
+  private fromDate: string;
+  private toDate: string;
+  private area = ''; // Empty for all areas
+  private status = ''; // Empty for all statuses
+
+  constructor(
+    app: App,
+    private plugin: TimegrainPlugin,
+    from: Date,
+    to: Date,
+    private format: ExportFormat = 'csv'
+  ) {
+    super(app);
+    this.fromDate = formatDateOnly(from);
+    this.toDate = formatDateOnly(to);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('timegrain-export-modal');
+
+    contentEl.createEl('h2', { text: 'Export sessions' });
+
+    new Setting(contentEl)
+      .setName('From')
+      .addText((text) => {
+        text.inputEl.type = 'date';
+        text.setValue(this.fromDate).onChange((value) => (this.fromDate = value));
+      });
+
+    new Setting(contentEl)
+      .setName('To')
+      .setDesc('Including this day')
+      .addText((text) => {
+        text.inputEl.type = 'date';
+        text.setValue(this.toDate).onChange((value) => (this.toDate = value));
+      });
+
+    new Setting(contentEl).setName('Format').addDropdown((dropdown) => {
+      for (const [format, label] of Object.entries(EXPORT_FORMAT_LABELS)) {
+        dropdown.addOption(format, label);
+      }
+      dropdown.setValue(this.format).onChange((value) => (this.format = value as ExportFormat));
+    });
+
+    const tasks = this.plugin.taskRepository.getAllTasks();
+    const areas = [...new Set(tasks.map((t) => t.area))].filter(Boolean).sort();
+    const statuses = [...new Set(tasks.map((t) => t.status))].filter(Boolean).sort();
+
+    new Setting(contentEl).setName('Area').addDropdown((dropdown) => {
+      dropdown.addOption('', 'All areas');
+      areas.forEach((area) => dropdown.addOption(area, area));
+      dropdown.setValue(this.area).onChange((value) => (this.area = value));
+    });
+
+    new Setting(contentEl)
+      .setName('Task status')
+      .setDesc('Only sessions of tasks currently in this status')
+      .addDropdown((dropdown) => {
+        dropdown.addOption('', 'All statuses');
+        statuses.forEach((status) =>
+          dropdown.addOption(status, getStatusLabel(this.plugin.settings.taskStatusDefinitions, status))
+        );
+        dropdown.setValue(this.status).onChange((value) => (this.status = value));
+      });
+
+    const buttonContainer = contentEl.createDiv('timegrain-modal-buttons');
+
+    const cancelBtn = buttonContainer.createEl('button', {
+      text: 'Cancel',
+      cls: 'timegrain-btn timegrain-btn-secondary',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const exportBtn = buttonContainer.createEl('button', {
+      text: 'Export',
+      cls: 'timegrain-btn timegrain-btn-primary',
+    });
+    exportBtn.addEventListener('click', () => this.export());
+  }
+
+  private async export(): Promise<void> {
+    let from: Date;
+    let to: Date;
+    try {
+      from = parseDateTime(this.fromDate);
+      to = parseDateTime(this.toDate);
+    } catch {
+      new Notice('Enter a valid date range');
+      return;
+    }
+    if (to < from) {
+      new Notice('The range must end after it starts');
+      return;
+    }
+
+    const { sessionRepository, taskRepository, dayBoundary, settings } = this.plugin;
+    const start = dayBoundary.getDayBounds(from).start;
+    const end = dayBoundary.getDayBounds(to).end;
+    const sessions = await sessionRepository.getSessionsInRange(start, new Date(end.getTime() - 1));
+
+    const getTask = (session: Session) => {
+      const path = sessionRepository.resolveTaskPath(session);
+      return path ? taskRepository.findTaskByPath(path) : undefined;
+    };
+    const filter = {
+      areas: this.area ? [this.area] : [],
+      statuses: this.status ? [this.status as TaskStatus] : [],
+    };
+    const selected = selectExportSessions(sessions, getTask, filter);
+    if (selected.length === 0) {
+      new Notice('No sessions to export in this range');
+      return;
+    }
+    const content =
+      this.format === 'ics'
+        ? formatSessionCalendar(selected)
+        : formatSessionExport(buildExportRows(sessions, getTask, filter), this.format);
+
+    const dir = settings.exportDirectory;
+    const path = `${dir}/sessions-${this.fromDate}-to-${this.toDate}.${EXPORT_FORMAT_EXTENSIONS[this.format]}`;
+
+    try {
+      const file = await this.writeFile(dir, path, content);
+      new Notice(`Exported ${selected.length} session${selected.length === 1 ? '' : 's'} to ${path}`);
+      if (this.format === 'markdown') {
+        await this.app.workspace.getLeaf().openFile(file);
+      }
+      this.close();
+    } catch (e) {
+      console.error('Failed to export sessions:', e);
+      new Notice('Failed to export sessions');
+    }
+  }
+
+  /**
+   * Write the export, replacing an earlier export of the same range and format
+   */
+  private async writeFile(dir: string, path: string, content: string): Promise<TFile> {
+    let currentPath = '';
+    for (const part of dir.split('/')) {
+      currentPath = currentPath ? `${currentPath}/${part}` : part;
+      if (!this.app.vault.getAbstractFileByPath(currentPath)) {
+        await this.app.vault.createFolder(currentPath);
+      }
+    }
+
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, content);
+      return existing;
+    }
+    return await this.app.vault.create(path, content);
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,66 @@
+import { App, Modal } from 'obsidian';
+import type { IdleResolution } from '../types';
+import { formatDurationHuman, formatTimeOfDay } from '../utils/formatters';
+
+/**
+ * Modal shown when the user comes back after the timer auto-paused for inactivity
+ * Closing without a choice discards the idle time and leaves the timer paused
+ */
+export class IdleReturnModal extends Modal {
+  private result: IdleResolution | null = null;
+
+  constructor(
+    app: App,
+    private idleStart: number,
+    private onDecision: (resolution: IdleResolution | null) => void
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('timegrain-idle-modal');
+
+    const awayMs = Date.now() - this.idleStart;
+
+    contentEl.createEl('h2', { text: 'Welcome back' });
+    contentEl.createEl('p', {
+      text: `You were away for ${formatDurationHuman(awayMs)} (since ${formatTimeOfDay(new Date(this.idleStart))}). The timer was paused.`,
+      cls: 'timegrain-idle-info',
+    });
+
+    const actionsContainer = contentEl.createDiv('timegrain-unfinished-actions');
+
+    const discardBtn = actionsContainer.createEl('button', {
+      text: 'Discard idle time',
+      cls: 'mod-cta',
+    });
+    discardBtn.addEventListener('click', () => {
+      this.result = 'discard';
+      this.close();
+    });
+
+    const keepBtn = actionsContainer.createEl('button', {
+      text: 'Keep the time',
+    });
+    keepBtn.addEventListener('click', () => {
+      this.result = 'keep';
+      this.close();
+    });
+
+    const breakBtn = actionsContainer.createEl('button', {
+      text: 'Mark as break',
+    });
+    breakBtn.addEventListener('click', () => {
+      this.result = 'break';
+      this.close();
+    });
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.onDecision(this.result);
+  }
+}
@@ -0,0 +1,308 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import type TimegrainPlugin from '../main';
+import { formatDateTimeISO } from '../utils/datetime';
+import { formatDurationHuman } from '../utils/formatters';
+import { resolveStatus } from '../utils/task-status';
+import {
+  parseImportTable,
+  guessColumnMapping,
+  buildImportEntries,
+  flagDuplicates,
+  matchTask,
+  type ImportColumnMapping,
+  type ImportEntry,
+  type ImportRowError,
+  type ImportTable,
+  type DurationUnit,
+} from '../utils/session-import';
+
+const MAPPING_FIELDS: [Exclude<keyof ImportColumnMapping, 'durationUnit'>, string, string][] = [
+  ['task', 'Task', 'Matched to task notes by title or file name'],
+  ['start', 'Start', 'Date and time, or just the date with a separate start time column'],
+  ['startTime', 'Start time', 'Only if the time is in its own column'],
+  ['end', 'End', 'Date and time, or leave unused and pick an end time or duration'],
+  ['endTime', 'End time', 'Only if the time is in its own column'],
+  ['duration', 'Duration', 'Used when there is no end'],
+];
+
+const DURATION_UNIT_LABELS: Record<DurationUnit, string> = {
+  minutes: 'Minutes',
+  hours: 'Hours',
+  seconds: 'Seconds',
+};
+
+const PREVIEW_ROWS = 50;
+
+/**
+ * Wizard for importing time logs exported from other trackers
+ * Reads a CSV or JSON file from the vault, maps its columns to session fields and
+ * shows a dry run before anything is written.
+ */
+export class ImportSessionsModal extends Modal {
+  private file: TFile | null = null;
+  private table: ImportTable | null = null;
+  private mapping: ImportColumnMapping | null = null;
+  private createMissingTasks = true;
+  private entries: ImportEntry[] = [];
+  private errors: ImportRowError[] = [];
+  private importing = false;
+
+  constructor(
+    app: App,
+    private plugin: TimegrainPlugin
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.contentEl.addClass('timegrain-import-modal');
+    this.render();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: 'Import sessions' });
+
+    const files = this.app.vault
+      .getFiles()
+      .filter((f) => f.extension === 'csv' || f.extension === 'json')
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    if (files.length === 0) {
+      contentEl.createEl('p', { text: 'Add a CSV or JSON export from your time tracker to the vault first.' });
+      return;
+    }
+
+    new Setting(contentEl)
+      .setName('File')
+      .setDesc('CSV or JSON export in the vault')
+      .addDropdown((dropdown) => {
+        dropdown.addOption('', 'Choose a file...');
+        files.forEach((f) => dropdown.addOption(f.path, f.path));
+        dropdown.setValue(this.file?.path || '').onChange((value) => {
+          const file = files.find((f) => f.path === value) || null;
+          this.loadFile(file);
+        });
+      });
+
+    if (!this.table || !this.mapping) return;
+    const mapping = this.mapping;
+
+    contentEl.createEl('h3', { text: 'Columns' });
+    for (const [field, name, desc] of MAPPING_FIELDS) {
+      new Setting(contentEl)
+        .setName(name)
+        .setDesc(desc)
+        .addDropdown((dropdown) => {
+          dropdown.addOption('', '(not used)');
+          this.table?.columns.forEach((column) => dropdown.addOption(column, column));
+          dropdown.setValue(mapping[field]).onChange((value) => {
+            mapping[field] = value;
+            this.updatePreview();
+          });
+        });
+    }
+
+    new Setting(contentEl).setName('Duration unit').addDropdown((dropdown) => {
+      for (const [unit, label] of Object.entries(DURATION_UNIT_LABELS)) {
+        dropdown.addOption(unit, label);
+      }
+      dropdown.setValue(mapping.durationUnit).onChange((value) => {
+        mapping.durationUnit = value as DurationUnit;
+        this.updatePreview();
+      });
+    });
+
+    new Setting(contentEl)
+      .setName('Create missing tasks')
+      .setDesc('Add a backlog task note for each task name that matches none. Otherwise sessions link to the name only.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.createMissingTasks).onChange((value) => {
+          this.createMissingTasks = value;
+          this.render();
+        })
+      );
+
+    this.renderPreview(contentEl);
+  }
+
+  /**
+   * Dry run: what importing would do with the current mapping
+   */
+  private renderPreview(contentEl: HTMLElement): void {
+    const newEntries = this.entries.filter((e) => !e.duplicate);
+    const tasks = this.plugin.taskRepository.getAllTasks();
+    const missingTasks = new Set(
+      newEntries.filter((e) => !matchTask(e.taskName, tasks)).map((e) => e.taskName.toLowerCase())
+    );
+    const duplicates = this.entries.length - newEntries.length;
+
+    contentEl.createEl('h3', { text: 'Preview' });
+    const summary = contentEl.createEl('ul', { cls: 'timegrain-import-summary' });
+    summary.createEl('li', { text: `${newEntries.length} new session${newEntries.length === 1 ? '' : 's'}` });
+    if (duplicates > 0) {
+      summary.createEl('li', { text: `${duplicates} duplicate${duplicates === 1 ? '' : 's'} skipped` });
+    }
+    if (this.errors.length > 0) {
+      summary.createEl('li', {
+        text: `${this.errors.length} row${this.errors.length === 1 ? '' : 's'} can't be read and will be skipped`,
+      });
+    }
+    if (missingTasks.size > 0) {
+      summary.createEl('li', {
+        text: this.createMissingTasks
+          ? `${missingTasks.size} task note${missingTasks.size === 1 ? '' : 's'} to create`
+          : `${missingTasks.size} task name${missingTasks.size === 1 ? '' : 's'} without a task note`,
+      });
+    }
+
+    const rows = [
+      ...this.entries.map((e) => ({
+        row: e.row,
+        cells: [
+          e.taskName,
+          formatDateTimeISO(e.start).replace('T', ' '),
+          formatDurationHuman(e.end.getTime() - e.start.getTime()),
+          e.duplicate || (missingTasks.has(e.taskName.toLowerCase()) && this.createMissingTasks ? 'New task' : 'New'),
+        ],
+        skipped: !!e.duplicate,
+      })),
+      ...this.errors.map((e) => ({ row: e.row, cells: ['', '', '', e.message], skipped: true })),
+    ].sort((a, b) => a.row - b.row);
+
+    if (rows.length > 0) {
+      const table = contentEl.createEl('table', { cls: 'timegrain-import-preview' });
+      const header = table.createEl('tr');
+      ['Row', 'Task', 'Start', 'Duration', 'Result'].forEach((text) => header.createEl('th', { text }));
+      for (const { row, cells, skipped } of rows.slice(0, PREVIEW_ROWS)) {
+        const tr = table.createEl('tr', { cls: skipped ? 'is-skipped' : '' });
+        [String(row), ...cells].forEach((text) => tr.createEl('td', { text }));
+      }
+      if (rows.length > PREVIEW_ROWS) {
+        contentEl.createEl('p', {
+          text: `...and ${rows.length - PREVIEW_ROWS} more rows`,
+          cls: 'timegrain-import-more',
+        });
+      }
+    }
+
+    const buttonContainer = contentEl.createDiv('timegrain-modal-buttons');
+
+    const cancelBtn = buttonContainer.createEl('button', {
+      text: 'Cancel',
+      cls: 'timegrain-btn timegrain-btn-secondary',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const importBtn = buttonContainer.createEl('button', {
+      text: `Import ${newEntries.length} session${newEntries.length === 1 ? '' : 's'}`,
+      cls: 'timegrain-btn timegrain-btn-primary',
+    });
+    importBtn.disabled = newEntries.length === 0 || this.importing;
+    importBtn.addEventListener('click', () => this.import(newEntries));
+  }
+
+  private async loadFile(file: TFile | null): Promise<void> {
+    this.file = file;
+    this.table = null;
+    this.mapping = null;
+
+    if (file) {
+      try {
+        const text = await this.app.vault.read(file);
+        this.table = parseImportTable(text, file.extension === 'json' ? 'json' : 'csv');
+        this.mapping = guessColumnMapping(this.table.columns);
+      } catch (e) {
+        console.error('Failed to read import file:', e);
+        new Notice(`Couldn't read ${file.path}`);
+      }
+    }
+    await this.updatePreview();
+  }
+
+  /**
+   * Rebuild sessions from the file and check them against existing sessions
+   */
+  private async updatePreview(): Promise<void> {
+    this.entries = [];
+    this.errors = [];
+
+    if (this.table && this.mapping) {
+      const { entries, errors } = buildImportEntries(this.table.records, this.mapping);
+      this.errors = errors;
+
+      if (entries.length > 0) {
+        const from = new Date(Math.min(...entries.map((e) => e.start.getTime())));
+        const to = new Date(Math.max(...entries.map((e) => e.end.getTime())));
+        const existing = await this.plugin.sessionRepository.getSessionsInRange(from, to);
+        this.entries = flagDuplicates(entries, existing);
+      }
+    }
+    this.render();
+  }
+
+  private async import(entries: ImportEntry[]): Promise<void> {
+    if (!this.file || this.importing) return;
+    this.importing = true;
+    this.render();
+
+    const { sessionRepository, taskRepository } = this.plugin;
+    const tasks = taskRepository.getAllTasks();
+    const createdTasks = new Map<string, TFile>(); // By lowercased task name
+    const newTaskStatus = resolveStatus(this.plugin.settings.taskStatusDefinitions, 'backlog', 'planned');
+    let imported = 0;
+
+    try {
+      for (const entry of entries) {
+        let taskName = entry.taskName;
+        let taskPath: string | null = null;
+
+        const task = matchTask(entry.taskName, tasks);
+        if (task) {
+          taskName = task.name;
+          taskPath = task.path;
+        } else if (this.createMissingTasks) {
+          const key = entry.taskName.toLowerCase();
+          let taskFile = createdTasks.get(key);
+          if (!taskFile) {
+            taskFile = await taskRepository.createTask({
+              title: entry.taskName,
+              status: newTaskStatus,
+              estimation: 1,
+              expectedEnergy: 0,
+              category: '',
+              scope: '',
+              tags: [],
+            });
+            createdTasks.set(key, taskFile);
+          }
+          taskName = taskFile.basename;
+          taskPath = taskFile.path;
+        }
+
+        await sessionRepository.logSession(taskName, entry.start, entry.end, taskPath, {
+          imported_from: this.file.path,
+        });
+        imported++;
+      }
+
+      const created = createdTasks.size > 0 ? ` and ${createdTasks.size} task${createdTasks.size === 1 ? '' : 's'}` : '';
+      new Notice(`Imported ${imported} session${imported === 1 ? '' : 's'}${created}`);
+      this.close();
+    } catch (e) {
+      console.error('Failed to import sessions:', e);
+      new Notice(`Import stopped after ${imported} session${imported === 1 ? '' : 's'}`);
+      this.importing = false;
+      await this.updatePreview();
+    } finally {
+      if (createdTasks.size > 0) await taskRepository.refreshCache();
+    }
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,68 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type TimegrainPlugin from '../main';
+import type { InterruptionType } from '../types';
+
+/**
+ * Modal for logging an interruption against the running session
+ */
+export class InterruptionModal extends Modal {
+  private note = '';
+
+  constructor(
+    app: App,
+    private plugin: TimegrainPlugin
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('timegrain-interruption-modal');
+
+    contentEl.createEl('h2', { text: 'Log interruption' });
+
+    new Setting(contentEl)
+      .setName('Note')
+      .setDesc('Optional - what pulled you away?')
+      .addText((text) => {
+        text.setPlaceholder('e.g. Slack ping').onChange((value) => {
+          this.note = value.trim();
+        });
+        text.inputEl.focus();
+      });
+
+    const actionsContainer = contentEl.createDiv('timegrain-unfinished-actions');
+
+    const internalBtn = actionsContainer.createEl('button', {
+      text: 'Internal',
+      attr: { title: 'Your own distraction' },
+    });
+    internalBtn.addEventListener('click', () => this.log('internal'));
+
+    const externalBtn = actionsContainer.createEl('button', {
+      text: 'External',
+      cls: 'mod-cta',
+      attr: { title: 'Someone or something else' },
+    });
+    externalBtn.addEventListener('click', () => this.log('external'));
+  }
+
+  private log(type: InterruptionType): void {
+    this.close();
+    this.plugin.timerService
+      .logInterruption(type, this.note)
+      .then(() => {
+        new Notice(`Logged ${type} interruption`);
+      })
+      .catch((e) => {
+        console.error('Failed to log interruption:', e);
+        new Notice('Failed to log interruption');
+      });
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
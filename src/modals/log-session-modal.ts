@@ -0,0 +1,162 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type TimegrainPlugin from '../main';
+import type { Task, Session } from '../types';
+import { TaskSuggestModal } from './task-suggest-modal';
+import { formatDateOnly, formatTimeInput, combineDateAndTimeRange } from '../utils/datetime';
+import { formatDurationHuman, formatTimeOfDay } from '../utils/formatters';
+
+/**
+ * Modal for logging a session that happened without the timer running
+ */
+export class LogSessionModal extends Modal {
+  private task: Task | null = null;
+  private date: string;
+  private startTime: string;
+  private endTime: string;
+  private overlapConfirmed = false;
+  private warningEl: HTMLElement | null = null;
+  private submitBtn: HTMLButtonElement | null = null;
+
+  constructor(
+    app: App,
+    private plugin: TimegrainPlugin
+  ) {
+    super(app);
+
+    // Default to one grain ending now
+    const end = new Date();
+    const start = new Date(end.getTime() - plugin.settings.cycleSeconds * 1000);
+    this.date = formatDateOnly(start);
+    this.startTime = formatTimeInput(start);
+    this.endTime = formatTimeInput(end);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('timegrain-log-session-modal');
+
+    contentEl.createEl('h2', { text: 'Log past session' });
+
+    new Setting(contentEl)
+      .setName('Task')
+      .setDesc('What you worked on')
+      .addButton((button) => {
+        button.setButtonText('Choose task...').onClick(() => {
+          new TaskSuggestModal(this.app, this.plugin, 'pick', (task) => {
+            this.task = task;
+            button.setButtonText(task.title || task.name);
+          }).open();
+        });
+      });
+
+    new Setting(contentEl).setName('Date').addText((text) => {
+      text.inputEl.type = 'date';
+      text.setValue(this.date).onChange((value) => {
+        this.date = value;
+        this.resetOverlapWarning();
+      });
+    });
+
+    new Setting(contentEl).setName('Start').addText((text) => {
+      text.inputEl.type = 'time';
+      text.setValue(this.startTime).onChange((value) => {
+        this.startTime = value;
+        this.resetOverlapWarning();
+      });
+    });
+
+    new Setting(contentEl).setName('End').setDesc('An end before the start is on the next day').addText((text) => {
+      text.inputEl.type = 'time';
+      text.setValue(this.endTime).onChange((value) => {
+        this.endTime = value;
+        this.resetOverlapWarning();
+      });
+    });
+
+    this.warningEl = contentEl.createDiv('timegrain-log-session-warning');
+    this.warningEl.hide();
+
+    const buttonContainer = contentEl.createDiv('timegrain-modal-buttons');
+
+    const cancelBtn = buttonContainer.createEl('button', {
+      text: 'Cancel',
+      cls: 'timegrain-btn timegrain-btn-secondary',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    this.submitBtn = buttonContainer.createEl('button', {
+      text: 'Log session',
+      cls: 'timegrain-btn timegrain-btn-primary',
+    });
+    this.submitBtn.addEventListener('click', () => this.submit());
+  }
+
+  private resetOverlapWarning(): void {
+    this.overlapConfirmed = false;
+    this.warningEl?.hide();
+    this.submitBtn?.setText('Log session');
+  }
+
+  private showOverlapWarning(overlaps: Session[]): void {
+    if (!this.warningEl) return;
+
+    this.warningEl.empty();
+    this.warningEl.createEl('p', {
+      text: `This overlaps ${overlaps.length} existing session${overlaps.length === 1 ? '' : 's'}:`,
+    });
+    const list = this.warningEl.createEl('ul');
+    for (const session of overlaps) {
+      const name = session.kind === 'break' ? 'Break' : session.taskName;
+      const range = `${formatTimeOfDay(session.started)} → ${session.ended ? formatTimeOfDay(session.ended) : 'ongoing'}`;
+      list.createEl('li', { text: `${name} (${range})` });
+    }
+    this.warningEl.show();
+    this.submitBtn?.setText('Log anyway');
+  }
+
+  private async submit(): Promise<void> {
+    if (!this.task) {
+      new Notice('Choose a task first');
+      return;
+    }
+
+    const range = combineDateAndTimeRange(this.date, this.startTime, this.endTime);
+    if (!range) {
+      new Notice('Enter a valid date, start and end');
+      return;
+    }
+    const { start, end } = range;
+    if (end <= start) {
+      new Notice('End must be after start');
+      return;
+    }
+    if (end.getTime() > Date.now()) {
+      new Notice("Can't log a session that ends in the future");
+      return;
+    }
+
+    if (!this.overlapConfirmed) {
+      const overlaps = await this.plugin.sessionRepository.findOverlappingSessions(start, end);
+      if (overlaps.length > 0) {
+        this.overlapConfirmed = true;
+        this.showOverlapWarning(overlaps);
+        return;
+      }
+    }
+
+    try {
+      await this.plugin.sessionRepository.logSession(this.task.name, start, end, this.task.path);
+      new Notice(`Logged ${formatDurationHuman(end.getTime() - start.getTime())} on "${this.task.title || this.task.name}"`);
+      this.close();
+    } catch (e) {
+      console.error('Failed to log session:', e);
+      new Notice('Failed to log session');
+    }
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -1,16 +1,7 @@
 import { App, Modal, Setting, Notice, type TextComponent } from 'obsidian';
 import type TimegrainPlugin from '../main';
 import type { TaskStatus } from '../types';
-import { formatTaskDateTime } from '../utils/datetime';
-import { slugify } from '../utils/formatters';
-
-const STATUS_OPTIONS: { value: TaskStatus; label: string }[] = [
-  { value: 'today', label: 'Today' },
-  { value: 'in progress', label: 'In Progress' },
-  { value: 'this week', label: 'This Week' },
-  { value: 'this month', label: 'This Month' },
-  { value: 'backlog', label: 'Backlog' },
-];
+import { getPlanTargetStatus } from '../utils/task-status';
 
 const ENERGY_OPTIONS: { value: number; label: string }[] = [
   { value: 0, label: 'Any energy level' },
@@ -25,7 +16,7 @@ const ENERGY_OPTIONS: { value: number; label: string }[] = [
  */
 export class NewTaskModal extends Modal {
   private title = '';
-  private status: TaskStatus = 'today';
+  private status: TaskStatus;
   private estimation = 1;
   private expectedEnergy = 0;
   private category = '';
@@ -40,6 +31,8 @@ export class NewTaskModal extends Modal {
     private plugin: TimegrainPlugin
   ) {
     super(app);
+    const definitions = plugin.settings.taskStatusDefinitions;
+    this.status = getPlanTargetStatus(definitions) ?? definitions[0]?.id ?? 'today';
   }
 
   onOpen(): void {
@@ -88,9 +81,11 @@ export class NewTaskModal extends Modal {
       .setName('Status')
       .setDesc('Initial status for the task')
       .addDropdown((dropdown) => {
-        STATUS_OPTIONS.forEach((opt) => {
-          dropdown.addOption(opt.value, opt.label);
-        });
+        this.plugin.settings.taskStatusDefinitions
+          .filter((d) => d.group !== 'done')
+          .forEach((d) => {
+            dropdown.addOption(d.id, d.label || d.id);
+          });
         dropdown.setValue(this.status);
         dropdown.onChange((value) => {
           this.status = value as TaskStatus;
@@ -219,176 +214,15 @@ export class NewTaskModal extends Modal {
     }
 
     try {
-      const now = new Date();
-      const slug = slugify(this.title);
-      let taskDir = this.plugin.settings.defaultTaskDirectory;
-
-      // Ensure directory ends with /tasks for proper task discovery
-      if (!taskDir.toLowerCase().endsWith('/tasks') && taskDir.toLowerCase() !== 'tasks') {
-        taskDir = `${taskDir}/tasks`;
-      }
-
-      // Ensure directory exists - create recursively if needed
-      const dirExists = this.app.vault.getAbstractFileByPath(taskDir);
-      if (!dirExists) {
-        // Create parent directories if needed
-        const parts = taskDir.split('/');
-        let currentPath = '';
-        for (const part of parts) {
-          currentPath = currentPath ? `${currentPath}/${part}` : part;
-          const existing = this.app.vault.getAbstractFileByPath(currentPath);
-          if (!existing) {
-            await this.app.vault.createFolder(currentPath);
-          }
-        }
-      }
-
-      // Generate unique filename with safeguard against infinite loops
-      let filename = `${slug}.md`;
-      let filepath = `${taskDir}/${filename}`;
-      let counter = 1;
-      const maxAttempts = 1000;
-
-      while (this.app.vault.getAbstractFileByPath(filepath) && counter < maxAttempts) {
-        filename = `${slug}-${counter}.md`;
-        filepath = `${taskDir}/${filename}`;
-        counter++;
-      }
-
-      if (counter >= maxAttempts) {
-        new Notice('Could not generate unique filename');
-        return;
-      }
-
-      const category = this.category.trim();
-      const scope = this.taskScope.trim();
-      const tags = this.parseTagsInput(this.tags);
-
-      // Build frontmatter
-      const frontmatter: Record<string, unknown> = {
-        category: category || null,
-        'creation date': formatTaskDateTime(now),
-        'depends on': null,
-        'due to': null,
-        estimation: this.estimation,
-        'expected energy': this.expectedEnergy > 0 ? this.expectedEnergy : null,
-        goal: [],
-        'modification date': formatTaskDateTime(now),
-        scope: scope || null,
+      await this.plugin.taskRepository.createTask({
+        title: this.title,
         status: this.status,
-        tags,
-      };
-
-      // Build content with proper YAML escaping
-      const frontmatterYaml = Object.entries(frontmatter)
-        .map(([key, value]) => {
-          if (value === null || value === undefined) {
-            return `${key}:`;
-          }
-          if (Array.isArray(value)) {
-            if (value.length === 0) {
-              return `${key}:`;
-            }
-            const items = value.map((item) => `  - ${item}`).join('\n');
-            return `${key}:\n${items}`;
-          }
-          if (typeof value === 'string') {
-            // Quote strings that contain YAML special characters or start with special chars
-            const needsQuoting = /[:\#\[\]\{\}\,\&\*\?\|\-\<\>\=\!\%\@\`\n]/.test(value) ||
-              /^[\s'"]/.test(value) ||
-              /[\s'"]$/.test(value) ||
-              value === '' ||
-              value === 'true' || value === 'false' ||
-              value === 'null' || value === 'yes' || value === 'no';
-            if (needsQuoting) {
-              // Escape double quotes and backslashes inside the string
-              const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
-              return `${key}: "${escaped}"`;
-            }
-            return `${key}: ${value}`;
-          }
-          return `${key}: ${value}`;
-        })
-        .join('\n');
-
-      const timerSessionsDir = this.plugin.settings.timerSessionsDir;
-
-      const content = `---
-${frontmatterYaml}
----
-
-
-# Task context
-
-
-
-# Task checklist
-
-- [ ]
-
----
-
-# Task outputs
-
-
----
-
-# Task log
-
-\`\`\`dataview
-TABLE WITHOUT ID
-  "**Total Time:**" as "",
-  choice(
-    sum(rows.duration_minutes) >= 60,
-    floor(sum(rows.duration_minutes) / 60) + "h " + round(sum(rows.duration_minutes) % 60) + "m",
-    round(sum(rows.duration_minutes)) + "m"
-  ) as "Time Spent"
-FROM "${timerSessionsDir}"
-WHERE started AND ended AND contains(file.outlinks, this.file.link)
-FLATTEN (number(dateformat(date(ended), "x")) - number(dateformat(date(started), "x"))) / (1000 * 60) as duration_minutes
-GROUP BY true
-\`\`\`
-
-\`\`\`base
-filters:
-  and:
-    - file.inFolder("${timerSessionsDir}")
-    - file.ext == "md"
-formulas:
-  duration: ended-started
-properties:
-  started:
-    displayName: Started at
-  ended:
-    displayName: Ended at
-  formula.duration:
-    displayName: Duration (min)
-views:
-  - type: table
-    name: Timer sessions for this task
-    filters:
-      and:
-        - file.hasLink(this.file)
-    order:
-      - file.name
-      - started
-      - ended
-      - formula.duration
-    sort:
-      - column: file.name
-        direction: DESC
-      - column: note.ended
-        direction: ASC
-      - column: note.duration
-        direction: ASC
-    columnSize:
-      file.name: 169
-      note.started: 191
-      note.ended: 195
-\`\`\`
-`;
-
-      await this.app.vault.create(filepath, content);
+        estimation: this.estimation,
+        expectedEnergy: this.expectedEnergy,
+        category: this.category,
+        scope: this.taskScope,
+        tags: this.parseTagsInput(this.tags),
+      });
       new Notice(`Created task: ${this.title}`);
 
       // Refresh task cache
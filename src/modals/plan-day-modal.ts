@@ -6,12 +6,10 @@ import {
   createSelect,
   createFilterRow,
   createFilterGroup,
+  createStatusBadge,
+  createBlockedBadge,
 } from '../utils/filter-utils';
-
-const PLANNABLE_STATUSES: TaskStatus[] = ['this week', 'this month', 'backlog', 'not started'];
-
-/** Status chips for plan day modal */
-const STATUS_CHIPS: TaskStatus[] = ['this week', 'this month', 'backlog'];
+import { canTransition, getPlanTargetStatus, getStatusesInGroup, getStatusLabel } from '../utils/task-status';
 
 /** Threshold for quick vs deep tasks (in pomodoros) */
 const QUICK_TASK_THRESHOLD = 2;
@@ -22,20 +20,23 @@ interface FilterState {
   areas: Set<string>;
   categories: Set<string>;
   sizeFilter: 'all' | 'quick' | 'deep';
+  hideBlocked: boolean;
 }
 
 /**
- * Modal for planning the day - selecting tasks to move to "Today"
+ * Modal for planning the day - selecting planned tasks to move to the first active status ("Today")
  * Extends SuggestModal to get native Obsidian prompt structure
  */
 export class PlanDayModal extends SuggestModal<Task> {
   private allTasks: Task[] = [];
+  private targetStatus: TaskStatus | null = null;
   private selectedPaths: Set<string> = new Set();
   private filters: FilterState = {
     statuses: new Set(),
     areas: new Set(),
     categories: new Set(),
     sizeFilter: 'all',
+    hideBlocked: false,
   };
   private filterBarEl: HTMLElement | null = null;
   private buttonContainer: HTMLElement | null = null;
@@ -49,12 +50,22 @@ export class PlanDayModal extends SuggestModal<Task> {
   }
 
   async onOpen(): Promise<void> {
-    // Load tasks before opening
+    // Load planned tasks that can move to the target status before opening
+    const definitions = this.plugin.settings.taskStatusDefinitions;
+    const plannableStatuses = getStatusesInGroup(definitions, 'planned');
+    const targetStatus = getPlanTargetStatus(definitions);
+    this.targetStatus = targetStatus;
+
     const allTasks = await this.plugin.taskRepository.getTasks();
     this.allTasks = allTasks
-      .filter((task) => PLANNABLE_STATUSES.includes(task.status))
+      .filter(
+        (task) =>
+          targetStatus !== null &&
+          plannableStatuses.includes(task.status) &&
+          canTransition(definitions, task.status, targetStatus)
+      )
       .sort((a, b) => {
-        const statusOrder = PLANNABLE_STATUSES.indexOf(a.status) - PLANNABLE_STATUSES.indexOf(b.status);
+        const statusOrder = plannableStatuses.indexOf(a.status) - plannableStatuses.indexOf(b.status);
         if (statusOrder !== 0) return statusOrder;
         return a.name.localeCompare(b.name);
       });
@@ -89,7 +100,7 @@ export class PlanDayModal extends SuggestModal<Task> {
     const row1 = createFilterRow(this.filterBarEl, true);
     const statusGroup = createFilterGroup(row1);
 
-    for (const status of STATUS_CHIPS) {
+    for (const status of plannableStatuses) {
       createChip(
         statusGroup,
         status,
@@ -152,6 +163,16 @@ export class PlanDayModal extends SuggestModal<Task> {
       refresh
     );
 
+    createChip(
+      row2,
+      'unblocked',
+      () => this.filters.hideBlocked,
+      () => {
+        this.filters.hideBlocked = !this.filters.hideBlocked;
+      },
+      refresh
+    );
+
     // Action buttons at bottom
     this.buttonContainer = document.createElement('div');
     this.buttonContainer.className = 'timegrain-modal-buttons';
@@ -180,13 +201,13 @@ export class PlanDayModal extends SuggestModal<Task> {
     });
 
     const moveBtn = this.buttonContainer.createEl('button', {
-      text: 'Move to Today',
+      text: `Move to ${this.getTargetLabel()}`,
       cls: 'timegrain-btn timegrain-btn-primary',
     });
     moveBtn.addEventListener('click', (e) => {
       e.preventDefault();
       e.stopPropagation();
-      this.moveToToday();
+      this.moveToTarget();
     });
   }
 
@@ -225,6 +246,11 @@ export class PlanDayModal extends SuggestModal<Task> {
         return false;
       }
 
+      // Unblocked filter
+      if (this.filters.hideBlocked && task.blocked) {
+        return false;
+      }
+
       return true;
     });
   }
@@ -267,10 +293,10 @@ export class PlanDayModal extends SuggestModal<Task> {
 
     // Meta row
     const meta = content.createDiv({ cls: 'timegrain-suggest-meta' });
-    meta.createEl('span', {
-      text: task.status,
-      cls: `timegrain-status-badge timegrain-status-${task.status.replace(/\s+/g, '-')}`,
-    });
+    createStatusBadge(meta, this.plugin.settings.taskStatusDefinitions, task.status);
+    if (task.blocked) {
+      createBlockedBadge(meta, task.blockedBy);
+    }
     if (task.category) {
       meta.createEl('span', { text: task.category, cls: 'timegrain-suggest-category' });
     }
@@ -309,11 +335,22 @@ export class PlanDayModal extends SuggestModal<Task> {
     const moveBtn = this.buttonContainer?.querySelector('.timegrain-btn-primary');
     if (moveBtn) {
       const count = this.selectedPaths.size;
-      moveBtn.textContent = count > 0 ? `Move ${count} to Today` : 'Move to Today';
+      const label = this.getTargetLabel();
+      moveBtn.textContent = count > 0 ? `Move ${count} to ${label}` : `Move to ${label}`;
     }
   }
 
-  private async moveToToday(): Promise<void> {
+  private getTargetLabel(): string {
+    return this.targetStatus
+      ? getStatusLabel(this.plugin.settings.taskStatusDefinitions, this.targetStatus)
+      : 'Today';
+  }
+
+  private async moveToTarget(): Promise<void> {
+    if (!this.targetStatus) {
+      new Notice('Add an active status in settings to plan your day');
+      return;
+    }
     if (this.selectedPaths.size === 0) {
       new Notice('No tasks selected');
       return;
@@ -323,10 +360,10 @@ export class PlanDayModal extends SuggestModal<Task> {
       const selectedTasks = this.allTasks.filter((t) => this.selectedPaths.has(t.path));
 
       for (const task of selectedTasks) {
-        await this.plugin.taskRepository.updateTaskStatus(task, 'today');
+        await this.plugin.taskRepository.updateTaskStatus(task, this.targetStatus);
       }
 
-      new Notice(`Moved ${selectedTasks.length} task(s) to Today`);
+      new Notice(`Moved ${selectedTasks.length} task(s) to ${this.getTargetLabel()}`);
       this.close();
     } catch (error) {
       console.error('Failed to move tasks:', error);
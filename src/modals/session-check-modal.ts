@@ -0,0 +1,127 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import type TimegrainPlugin from '../main';
+import type { SessionIssue, SessionIssueKind } from '../utils/session-integrity';
+import { TaskSuggestModal } from './task-suggest-modal';
+
+const ISSUE_LABELS: Record<SessionIssueKind, string> = {
+  unparseable: 'Unreadable times',
+  'ended-before-started': 'Ends before it starts',
+  overlap: 'Overlaps next session',
+  duplicate: 'Duplicate',
+  'missing-task': 'Missing task',
+};
+
+/**
+ * Lists problems found in session files, each with one-click fixes
+ */
+export class SessionCheckModal extends Modal {
+  constructor(
+    app: App,
+    private plugin: TimegrainPlugin,
+    private issues: SessionIssue[]
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.contentEl.addClass('timegrain-session-check-modal');
+    this.render();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: 'Session data check' });
+    contentEl.createEl('p', {
+      text:
+        this.issues.length === 0
+          ? 'All problems are fixed.'
+          : `${this.issues.length} problem${this.issues.length === 1 ? '' : 's'} found.`,
+    });
+
+    for (const issue of this.issues) {
+      const name = issue.filePath.split('/').pop()?.replace(/\.md$/, '') || issue.filePath;
+      const setting = new Setting(contentEl)
+        .setName(`${ISSUE_LABELS[issue.kind]}: ${name}`)
+        .setDesc(issue.detail);
+      this.addFixes(setting, issue);
+    }
+  }
+
+  private addFixes(setting: Setting, issue: SessionIssue): void {
+    const repo = this.plugin.sessionRepository;
+    const file = this.app.vault.getAbstractFileByPath(issue.filePath);
+    if (!(file instanceof TFile)) return;
+
+    // Deleted or abandoned files drop out of every other problem too
+    const involvesFile = (i: SessionIssue) => i.filePath === issue.filePath || i.other?.filePath === issue.filePath;
+    const sameIssue = (i: SessionIssue) => i === issue;
+
+    const { session, other } = issue;
+    if (issue.kind === 'overlap' && session && other && other.started > session.started) {
+      setting.addButton((button) =>
+        button
+          .setButtonText('Trim overlap')
+          .setCta()
+          .onClick(() => this.fix(() => repo.trimOverlap(session, other), (i) => i.kind === 'overlap' && i.filePath === issue.filePath))
+      );
+    }
+
+    if (issue.kind === 'duplicate') {
+      setting.addButton((button) =>
+        button
+          .setButtonText('Delete duplicate')
+          .setWarning()
+          .onClick(() => this.fix(() => repo.deleteSession(file), involvesFile))
+      );
+    }
+
+    if (issue.kind === 'missing-task') {
+      setting.addButton((button) =>
+        button
+          .setButtonText('Relink task...')
+          .setCta()
+          .onClick(() => {
+            new TaskSuggestModal(this.app, this.plugin, 'pick', (task) => {
+              this.fix(() => repo.reassignSession(file, task.name, task.path), sameIssue);
+            }).open();
+          })
+      );
+    }
+
+    if (issue.kind !== 'duplicate' && issue.kind !== 'missing-task') {
+      setting.addButton((button) =>
+        button
+          .setButtonText('Mark abandoned')
+          .onClick(() => this.fix(() => repo.markSessionAbandoned(file), involvesFile))
+      );
+    }
+
+    setting.addButton((button) =>
+      button.setButtonText('Open').onClick(() => {
+        this.app.workspace.getLeaf().openFile(file);
+        this.close();
+      })
+    );
+  }
+
+  /**
+   * Apply a fix, then drop the problems it resolves from the list
+   */
+  private async fix(action: () => Promise<void>, resolves: (issue: SessionIssue) => boolean): Promise<void> {
+    try {
+      await action();
+      this.issues = this.issues.filter((i) => !resolves(i));
+      this.render();
+    } catch (e) {
+      console.error('Failed to fix session:', e);
+      new Notice('Failed to fix session');
+    }
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,93 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type TimegrainPlugin from '../main';
+import type { Session } from '../types';
+import { formatDateOnly, formatTimeInput, combineDateAndTime } from '../utils/datetime';
+import { formatTimeOfDay } from '../utils/formatters';
+
+/**
+ * Modal for splitting a finished session in two at a chosen time
+ */
+export class SplitSessionModal extends Modal {
+  private splitDate: string;
+  private splitTime: string;
+
+  constructor(
+    app: App,
+    private plugin: TimegrainPlugin,
+    private session: Session
+  ) {
+    super(app);
+
+    // Default to the middle of the session
+    const ended = session.ended || new Date();
+    const middle = new Date((session.started.getTime() + ended.getTime()) / 2);
+    this.splitDate = formatDateOnly(middle);
+    this.splitTime = formatTimeInput(middle);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('timegrain-edit-session-modal');
+
+    const ended = this.session.ended || new Date();
+
+    contentEl.createEl('h2', { text: 'Split session' });
+    contentEl.createEl('p', {
+      text: `${this.session.taskName} (${formatTimeOfDay(this.session.started)} → ${formatTimeOfDay(ended)})`,
+      cls: 'timegrain-unfinished-task',
+    });
+
+    new Setting(contentEl)
+      .setName('Split at')
+      .setDesc('The second part becomes its own session, which you can then reassign')
+      .addText((text) => {
+        text.inputEl.type = 'date';
+        text.setValue(this.splitDate).onChange((value) => (this.splitDate = value));
+      })
+      .addText((text) => {
+        text.inputEl.type = 'time';
+        text.setValue(this.splitTime).onChange((value) => (this.splitTime = value));
+      });
+
+    const buttonContainer = contentEl.createDiv('timegrain-modal-buttons');
+
+    const cancelBtn = buttonContainer.createEl('button', {
+      text: 'Cancel',
+      cls: 'timegrain-btn timegrain-btn-secondary',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const splitBtn = buttonContainer.createEl('button', {
+      text: 'Split',
+      cls: 'timegrain-btn timegrain-btn-primary',
+    });
+    splitBtn.addEventListener('click', () => this.split());
+  }
+
+  private async split(): Promise<void> {
+    const at = combineDateAndTime(this.splitDate, this.splitTime);
+    const ended = this.session.ended;
+    if (!at || !ended) {
+      new Notice('Enter a valid split time');
+      return;
+    }
+    if (at <= this.session.started || at >= ended) {
+      new Notice('Split time must be inside the session');
+      return;
+    }
+
+    try {
+      await this.plugin.sessionRepository.splitSession(this.session.file, at);
+      this.close();
+    } catch (e) {
+      console.error('Failed to split session:', e);
+      new Notice('Failed to split session');
+    }
+  }
+
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
@@ -0,0 +1,45 @@
+import { App, FuzzySuggestModal, Notice } from 'obsidian';
+import type TimegrainPlugin from '../main';
+import type { Task, TaskStatusDefinition } from '../types';
+import { getNextStatuses, getStatusLabel, TASK_STATUS_GROUP_LABELS } from '../utils/task-status';
+
+/**
+ * Pick a new status for a task, offering only the moves the status workflow allows
+ */
+export class TaskStatusModal extends FuzzySuggestModal<TaskStatusDefinition> {
+  constructor(
+    app: App,
+    private plugin: TimegrainPlugin,
+    private task: Task
+  ) {
+    super(app);
+    const current = getStatusLabel(plugin.settings.taskStatusDefinitions, task.status);
+    this.setPlaceholder(`Move "${task.title || task.name}" from ${current} to...`);
+    this.emptyStateText = `No status follows ${current}`;
+  }
+
+  getItems(): TaskStatusDefinition[] {
+    return getNextStatuses(this.plugin.settings.taskStatusDefinitions, this.task.status);
+  }
+
+  getItemText(definition: TaskStatusDefinition): string {
+    return definition.label || definition.id;
+  }
+
+  renderSuggestion(match: { item: TaskStatusDefinition }, el: HTMLElement): void {
+    const definition = match.item;
+    const container = el.createDiv({ cls: 'timegrain-suggest-item' });
+    container.createDiv({ text: definition.label || definition.id, cls: 'timegrain-suggest-title' });
+    container.createDiv({ text: TASK_STATUS_GROUP_LABELS[definition.group], cls: 'timegrain-suggest-meta' });
+  }
+
+  async onChooseItem(definition: TaskStatusDefinition): Promise<void> {
+    try {
+      await this.plugin.taskRepository.updateTaskStatus(this.task, definition.id);
+      new Notice(`Moved "${this.task.title || this.task.name}" to ${definition.label || definition.id}`);
+    } catch (error) {
+      console.error('Failed to change task status:', error);
+      new Notice(error instanceof Error ? error.message : 'Failed to change task status');
+    }
+  }
+}
@@ -9,7 +9,10 @@ import {
   createFilterGroup,
   createDotSeparator,
   createSpacer,
+  createStatusBadge,
+  createBlockedBadge,
 } from '../utils/filter-utils';
+import { getStatusesInGroup, isDoneStatus } from '../utils/task-status';
 
 /** Filter state for task suggest modal */
 interface FilterState {
@@ -20,10 +23,16 @@ interface FilterState {
   sizeFilter: 'all' | 'quick' | 'deep';
   needsAttention: boolean;
   freshOnly: boolean;
+  hideBlocked: boolean;
 }
 
-/** Status options for filter chips */
-const STATUS_CHIPS: TaskStatus[] = ['today', 'in progress', 'this week', 'backlog'];
+/**
+ * What choosing a task does
+ * - start: start the timer
+ * - switch: move the running work block to the task
+ * - pick: hand the task to a callback (e.g. another modal's task field)
+ */
+export type TaskSuggestMode = 'start' | 'switch' | 'pick';
 
 /** Threshold for quick vs deep tasks (in pomodoros) */
 const QUICK_TASK_THRESHOLD = 2;
@@ -32,7 +41,7 @@ const QUICK_TASK_THRESHOLD = 2;
 const FRESH_DAYS = 7;
 
 /**
- * Fuzzy search modal for selecting a task to start the timer
+ * Fuzzy search modal for selecting a task to start the timer (or switch to)
  */
 export class TaskSuggestModal extends FuzzySuggestModal<Task> {
   private allTasks: Task[] = [];
@@ -45,27 +54,30 @@ export class TaskSuggestModal extends FuzzySuggestModal<Task> {
     sizeFilter: 'all',
     needsAttention: false,
     freshOnly: false,
+    hideBlocked: false,
   };
 
   private filterBarEl: HTMLElement | null = null;
 
   constructor(
     app: App,
-    private plugin: TimegrainPlugin
+    private plugin: TimegrainPlugin,
+    private mode: TaskSuggestMode = 'start',
+    private onPick?: (task: Task) => void
   ) {
     super(app);
-    this.setPlaceholder('Search tasks...');
+    this.setPlaceholder(mode === 'switch' ? 'Switch to task...' : 'Search tasks...');
     this.allTasks = this.plugin.taskRepository.getAllTasks();
     this.applyFilters();
   }
 
   private applyFilters(): void {
-    const completedStatuses = this.plugin.settings.completedStatuses;
+    const definitions = this.plugin.settings.taskStatusDefinitions;
     const weekAgo = Date.now() - FRESH_DAYS * 24 * 60 * 60 * 1000;
 
     this.filteredTasks = this.allTasks.filter((task) => {
       // Exclude completed (unless showAll)
-      if (!this.filters.showAll && completedStatuses.includes(task.status)) {
+      if (!this.filters.showAll && isDoneStatus(definitions, task.status)) {
         return false;
       }
 
@@ -102,6 +114,11 @@ export class TaskSuggestModal extends FuzzySuggestModal<Task> {
         return false;
       }
 
+      // Unblocked (no unfinished dependencies)
+      if (this.filters.hideBlocked && task.blocked) {
+        return false;
+      }
+
       return true;
     });
   }
@@ -128,7 +145,9 @@ export class TaskSuggestModal extends FuzzySuggestModal<Task> {
     const row1 = createFilterRow(this.filterBarEl, true);
     const statusGroup = createFilterGroup(row1);
 
-    for (const status of STATUS_CHIPS) {
+    // Status chips for the active and planned statuses
+    const statusChips = getStatusesInGroup(this.plugin.settings.taskStatusDefinitions, 'active', 'planned');
+    for (const status of statusChips) {
       createChip(
         statusGroup,
         status,
@@ -208,6 +227,16 @@ export class TaskSuggestModal extends FuzzySuggestModal<Task> {
       refresh
     );
 
+    createChip(
+      row2,
+      'unblocked',
+      () => this.filters.hideBlocked,
+      () => {
+        this.filters.hideBlocked = !this.filters.hideBlocked;
+      },
+      refresh
+    );
+
     // Spacer
     createSpacer(row2);
 
@@ -244,10 +273,10 @@ export class TaskSuggestModal extends FuzzySuggestModal<Task> {
     container.createDiv({ text: task.title || task.name, cls: 'timegrain-suggest-title' });
 
     const meta = container.createDiv({ cls: 'timegrain-suggest-meta' });
-    meta.createEl('span', {
-      text: task.status,
-      cls: `timegrain-status-badge timegrain-status-${task.status.replace(/\s+/g, '-')}`,
-    });
+    createStatusBadge(meta, this.plugin.settings.taskStatusDefinitions, task.status);
+    if (task.blocked) {
+      createBlockedBadge(meta, task.blockedBy);
+    }
     if (task.category) {
       meta.createEl('span', { text: task.category, cls: 'timegrain-suggest-category' });
     }
@@ -258,6 +287,14 @@ export class TaskSuggestModal extends FuzzySuggestModal<Task> {
   }
 
   async onChooseItem(task: Task, _evt: MouseEvent | KeyboardEvent): Promise<void> {
+    if (this.mode === 'pick') {
+      this.onPick?.(task);
+      return;
+    }
+    if (this.mode === 'switch') {
+      await this.plugin.timerService.switchTask(task.name, task.path);
+      return;
+    }
     await this.plugin.timerService.start(task.name, task.path);
   }
 }
@@ -0,0 +1,219 @@
+import { App, EventRef, Notice, TFile } from 'obsidian';
+import type {
+  AutomationContext,
+  AutomationEvent,
+  AutomationRule,
+  TimerStatus,
+  TimegrainSettings,
+} from '../types';
+import type { TimerService } from './timer-service';
+import type { TaskRepository } from '../data/task-repository';
+import { AUTOMATION_EVENTS, getRulesForEvent, renderTemplate, renderNotePath } from '../utils/automation';
+import { formatDateOnly, formatTimeInput } from '../utils/datetime';
+import { formatDurationHuman } from '../utils/formatters';
+
+/**
+ * Obsidian's command registry - available at runtime but not in the public API types
+ */
+interface AppWithCommands extends App {
+  commands: {
+    commands: Record<string, { name: string }>;
+    executeCommandById(id: string): boolean;
+  };
+}
+
+/**
+ * Runs user-defined automation rules when timer events fire
+ */
+export class AutomationService {
+  private eventRefs: EventRef[] = [];
+  private lastActiveStatus: TimerStatus | null = null; // Timer state resets before timer-complete fires
+  private queue: Promise<void> = Promise.resolve();
+  private runningCommand = false;
+
+  constructor(
+    private app: App,
+    private settings: TimegrainSettings, // Live reference, so rule edits apply immediately
+    private timerService: TimerService,
+    private taskRepository: TaskRepository
+  ) {}
+
+  /**
+   * Subscribe to timer events
+   */
+  register(): void {
+    this.eventRefs.push(
+      this.timerService.on('timer-tick', (status: unknown) => {
+        this.lastActiveStatus = status as TimerStatus;
+      })
+    );
+
+    for (const event of AUTOMATION_EVENTS) {
+      this.eventRefs.push(
+        this.timerService.on(event, () => {
+          this.handleEvent(event).catch((e) => {
+            console.error(`Automation for ${event} failed:`, e);
+          });
+        })
+      );
+    }
+  }
+
+  destroy(): void {
+    for (const ref of this.eventRefs) {
+      this.timerService.offref(ref);
+    }
+    this.eventRefs = [];
+  }
+
+  /**
+   * Run every matching rule for an event, in order
+   * Events queue up, so rules for one event finish before the next event's rules start.
+   * Events raised by a rule's own command are dropped rather than queued: a command that
+   * pauses the timer would otherwise set its timer-pause rule off again, forever.
+   */
+  async handleEvent(event: AutomationEvent): Promise<void> {
+    if (this.runningCommand) {
+      console.debug(`Automation skipped ${event}: raised by a rule's command`);
+      return;
+    }
+
+    const context = this.getContext(event);
+    const rules = getRulesForEvent(this.settings.automationRules, event);
+    if (rules.length === 0) return;
+
+    this.queue = this.queue.then(() => this.runRules(rules, context));
+    await this.queue;
+  }
+
+  private async runRules(rules: AutomationRule[], context: AutomationContext): Promise<void> {
+    for (const rule of rules) {
+      try {
+        await this.runRule(rule, context);
+      } catch (e) {
+        console.error('Automation rule failed:', e);
+        new Notice(`Automation failed: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+  }
+
+  private async runRule(rule: AutomationRule, context: AutomationContext): Promise<void> {
+    if (rule.action === 'command') {
+      this.runCommand(rule.commandId.trim());
+      return;
+    }
+
+    const content = await this.renderTemplateFile(rule.templatePath.trim(), context);
+    if (rule.templateTarget === 'task-note') {
+      const taskFile = this.getTaskFile(context);
+      if (!taskFile) {
+        throw new Error(`No task note found for "${context.task}"`);
+      }
+      await this.appendToFile(taskFile, content);
+    } else {
+      await this.appendToNote(renderNotePath(rule.notePath, context), content);
+    }
+  }
+
+  // ============================================================================
+  // Actions
+  // ============================================================================
+
+  private runCommand(commandId: string): void {
+    const { commands } = this.app as AppWithCommands;
+    if (!commands.commands[commandId]) {
+      throw new Error(`Unknown command "${commandId}"`);
+    }
+    this.runningCommand = true;
+    try {
+      commands.executeCommandById(commandId);
+    } finally {
+      this.runningCommand = false;
+    }
+  }
+
+  private async renderTemplateFile(path: string, context: AutomationContext): Promise<string> {
+    const withExtension = path.endsWith('.md') ? path : `${path}.md`;
+    const file = this.app.vault.getAbstractFileByPath(withExtension);
+    if (!(file instanceof TFile)) {
+      throw new Error(`Template not found: ${path}`);
+    }
+
+    const template = await this.app.vault.read(file);
+    return renderTemplate(template, context);
+  }
+
+  private async appendToFile(file: TFile, content: string): Promise<void> {
+    const existing = await this.app.vault.read(file);
+    const separator = existing === '' || existing.endsWith('\n') ? '' : '\n';
+    await this.app.vault.modify(file, `${existing}${separator}${content}`);
+  }
+
+  private async appendToNote(path: string, content: string): Promise<void> {
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      await this.appendToFile(existing, content);
+      return;
+    }
+
+    // Create parent folders as needed
+    const parts = path.split('/').slice(0, -1);
+    let currentPath = '';
+    for (const part of parts) {
+      currentPath = currentPath ? `${currentPath}/${part}` : part;
+      if (!this.app.vault.getAbstractFileByPath(currentPath)) {
+        await this.app.vault.createFolder(currentPath);
+      }
+    }
+
+    await this.app.vault.create(path, content);
+  }
+
+  // ============================================================================
+  // Context
+  // ============================================================================
+
+  private getContext(event: AutomationEvent, now: Date = new Date()): AutomationContext {
+    const current = this.timerService.getStatus();
+    // Completing or cancelling resets the timer first, so fall back to the last running state
+    const status = current.state === 'idle' ? this.lastActiveStatus : current;
+    if (current.state !== 'idle') {
+      this.lastActiveStatus = current;
+    } else if (event === 'timer-complete' || event === 'timer-cancel') {
+      this.lastActiveStatus = null;
+    }
+
+    return {
+      event,
+      task: status?.taskName || '',
+      taskPath: (status && this.resolveTaskPath(status)) || '',
+      date: formatDateOnly(now),
+      time: formatTimeInput(now),
+      elapsed: formatDurationHuman((status?.elapsedSeconds || 0) * 1000),
+    };
+  }
+
+  /**
+   * Task note of the timer's task: its recorded path, or its name resolved as a link
+   * from the session file, the way the session's own task link resolves
+   */
+  private resolveTaskPath(status: TimerStatus): string | null {
+    if (status.taskPath && this.app.vault.getAbstractFileByPath(status.taskPath) instanceof TFile) {
+      return status.taskPath;
+    }
+    if (!status.taskName) return null;
+    return this.app.metadataCache.getFirstLinkpathDest(status.taskName, status.sessionFilePath || '')?.path || null;
+  }
+
+  private getTaskFile(context: AutomationContext): TFile | null {
+    if (context.taskPath) {
+      const file = this.app.vault.getAbstractFileByPath(context.taskPath);
+      if (file instanceof TFile) return file;
+    }
+    // Fall back to a name lookup for tasks the link doesn't resolve to
+    if (context.task) {
+      return this.taskRepository.findTaskByName(context.task)?.file || null;
+    }
+    return null;
+  }
+}
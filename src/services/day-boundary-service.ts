@@ -0,0 +1,66 @@
+import type { TimegrainSettings } from '../types';
+import { formatDateOnly, parseClockTime } from '../utils/datetime';
+
+/**
+ * Buckets instants into days in the local timezone, with a configurable day start
+ *
+ * With the day starting at 04:00, a session at 01:30 on Jan 16 belongs to Jan 15.
+ * Boundaries are built from local calendar fields rather than fixed 24h offsets,
+ * so DST days are 23 or 25 hours long.
+ */
+export class DayBoundaryService {
+  constructor(
+    private settings: TimegrainSettings // Live reference, so changes apply immediately
+  ) {}
+
+  /**
+   * Minutes after local midnight at which a day starts (invalid settings fall back to midnight)
+   */
+  getDayStartMinutes(): number {
+    return parseClockTime(this.settings.dayStartTime) ?? 0;
+  }
+
+  /**
+   * Start and (exclusive) end of a calendar day
+   * Only the year, month and date of `day` are used
+   */
+  getDayBounds(day: Date): { start: Date; end: Date } {
+    const minutes = this.getDayStartMinutes();
+    const hour = Math.floor(minutes / 60);
+    const minute = minutes % 60;
+
+    return {
+      start: new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute),
+      end: new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1, hour, minute),
+    };
+  }
+
+  /**
+   * The day an instant belongs to, as local midnight of that calendar date
+   */
+  getDay(instant: Date): Date {
+    const day = new Date(instant.getFullYear(), instant.getMonth(), instant.getDate());
+    if (instant < this.getDayBounds(day).start) {
+      day.setDate(day.getDate() - 1);
+    }
+    return day;
+  }
+
+  /**
+   * Date key (YYYY-MM-DD) of the day an instant belongs to
+   */
+  getDayKey(instant: Date): string {
+    return formatDateOnly(this.getDay(instant));
+  }
+
+  getToday(now: Date = new Date()): Date {
+    return this.getDay(now);
+  }
+
+  /**
+   * Whether a calendar day is the current day
+   */
+  isToday(day: Date, now: Date = new Date()): boolean {
+    return formatDateOnly(day) === this.getDayKey(now);
+  }
+}
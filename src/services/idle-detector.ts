@@ -0,0 +1,38 @@
+/**
+ * Tracks user activity inside Obsidian to detect when the user has walked away
+ *
+ * The plugin feeds it DOM events; the timer tick asks whether the idle
+ * threshold has passed. Losing window focus counts as the last moment of activity,
+ * and activity events are ignored until the window regains focus.
+ */
+export class IdleDetector {
+  private lastActivity = Date.now();
+  private focused = true;
+
+  constructor(private getThresholdMs: () => number) {}
+
+  /**
+   * Keyboard or mouse activity inside the window
+   */
+  recordActivity(now: number = Date.now()): void {
+    if (!this.focused) return;
+    this.lastActivity = now;
+  }
+
+  onBlur(now: number = Date.now()): void {
+    this.focused = false;
+    this.lastActivity = now;
+  }
+
+  onFocus(now: number = Date.now()): void {
+    this.focused = true;
+    this.lastActivity = now;
+  }
+
+  /**
+   * When the user went idle, or null if they are still within the threshold
+   */
+  getIdleSince(now: number = Date.now()): number | null {
+    return now - this.lastActivity >= this.getThresholdMs() ? this.lastActivity : null;
+  }
+}
@@ -0,0 +1,127 @@
+import { App, Notice, TFile } from 'obsidian';
+import type { NotificationChannel, NotificationEvent, TimegrainSettings } from '../types';
+import { TONES, getToneDuration, isWithinQuietHours, type ToneNote } from '../utils/notifications';
+
+/**
+ * Announces timer events through an in-app notice, a sound and a desktop popup
+ * Each event has its own channel settings; quiet hours silence sounds and popups
+ */
+export class NotificationService {
+  constructor(
+    private app: App,
+    private settings: TimegrainSettings // Live reference, so changes apply immediately
+  ) {}
+
+  /**
+   * Notify about an event - the in-app notice is always shown
+   */
+  notify(event: NotificationEvent, message: string, now: Date = new Date()): void {
+    new Notice(message);
+
+    if (this.isQuietTime(now)) return;
+
+    const channel = this.settings.notifications[event];
+    if (this.settings.playSound) {
+      this.playSound(channel);
+    }
+    if (channel.desktop) {
+      this.showDesktopNotification(message);
+    }
+  }
+
+  isQuietTime(now: Date = new Date()): boolean {
+    return (
+      this.settings.quietHoursEnabled &&
+      isWithinQuietHours(now, this.settings.quietHoursStart, this.settings.quietHoursEnd)
+    );
+  }
+
+  // ============================================================================
+  // Sounds
+  // ============================================================================
+
+  /**
+   * Play a channel's sound (also used by the settings tab to preview it)
+   */
+  playSound(channel: NotificationChannel): void {
+    const volume = Math.max(0, Math.min(100, channel.volume)) / 100;
+    if (volume === 0) return;
+
+    switch (channel.sound) {
+      case 'none':
+        return;
+      case 'file':
+        this.playAudioFile(channel.soundFile, volume);
+        return;
+      default:
+        this.playTone(TONES[channel.sound], volume);
+    }
+  }
+
+  private playTone(notes: ToneNote[], volume: number): void {
+    try {
+      const audioContext = new AudioContext();
+      const peak = 0.5 * volume;
+
+      for (const note of notes) {
+        const oscillator = audioContext.createOscillator();
+        const gainNode = audioContext.createGain();
+
+        oscillator.connect(gainNode);
+        gainNode.connect(audioContext.destination);
+
+        oscillator.frequency.value = note.frequency;
+        oscillator.type = note.wave;
+
+        const start = audioContext.currentTime + note.start;
+        gainNode.gain.setValueAtTime(peak, start);
+        gainNode.gain.exponentialRampToValueAtTime(0.001, start + note.duration);
+
+        oscillator.start(start);
+        oscillator.stop(start + note.duration);
+      }
+
+      // Close AudioContext after the tone finishes to prevent memory leak
+      setTimeout(() => audioContext.close(), getToneDuration(notes) * 1000 + 500);
+    } catch (e) {
+      console.error('Failed to play notification sound:', e);
+    }
+  }
+
+  private playAudioFile(path: string, volume: number): void {
+    const file = this.app.vault.getAbstractFileByPath(path.trim());
+    if (!(file instanceof TFile)) {
+      console.warn(`Notification sound not found: ${path}`);
+      this.playTone(TONES.beep, volume);
+      return;
+    }
+
+    const audio = new Audio(this.app.vault.getResourcePath(file));
+    audio.volume = volume;
+    audio.play().catch((e) => {
+      console.error('Failed to play notification sound:', e);
+    });
+  }
+
+  // ============================================================================
+  // Desktop Notifications
+  // ============================================================================
+
+  private showDesktopNotification(message: string): void {
+    if (typeof Notification === 'undefined') return;
+
+    const show = () => new Notification('Timegrain', { body: message });
+
+    if (Notification.permission === 'granted') {
+      show();
+    } else if (Notification.permission !== 'denied') {
+      Notification.requestPermission()
+        .then((permission) => {
+          if (permission === 'granted') show();
+        })
+        .catch((e) => {
+          console.error('Failed to request notification permission:', e);
+        });
+    }
+  }
+}
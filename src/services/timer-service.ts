@@ -1,16 +1,81 @@
 import { TFile, Events } from 'obsidian';
-import type { TimerState, TimerStatus, SessionAction } from '../types';
+import type {
+  TimerState,
+  TimerStatus,
+  TimerMode,
+  SessionAction,
+  SessionFrontmatter,
+  SessionTarget,
+  TargetExpiryAction,
+  IdleResolution,
+  InterruptionType,
+  PersistedTimerState,
+  BreakType,
+  TimegrainSettings,
+} from '../types';
 import { SessionRepository } from '../data/session-repository';
-import { POMODORO_DURATION_MS } from '../constants';
+import { formatSessionFilename } from '../utils/datetime';
+import {
+  POMODORO_DURATION_MS,
+  SHORT_BREAK_DURATION_SECONDS,
+  LONG_BREAK_DURATION_SECONDS,
+  DEFAULT_LONG_BREAK_INTERVAL,
+} from '../constants';
 
 export interface TimerEvents {
   'timer-start': { taskName: string; taskPath: string | null };
   'timer-pause': undefined;
   'timer-resume': undefined;
+  'timer-switch': { fromTaskName: string | null; taskName: string; taskPath: string | null };
   'timer-complete': { action: SessionAction; sessionFile: TFile };
   'timer-cancel': undefined;
   'timer-tick': TimerStatus;
   'pomodoro-complete': { count: number };
+  'break-offer': { breakType: BreakType };
+  'break-start': { breakType: BreakType; durationMs: number; sessionFile: TFile | null };
+  'break-complete': { breakType: BreakType; skipped: boolean };
+  'target-reached': { action: TargetExpiryAction; sessionFile: TFile | null };
+  'idle-pause': { idleStart: number };
+  'interruption': { type: InterruptionType; note: string | undefined; count: number };
+}
+
+/**
+ * Session closed by an idle auto-pause, kept until the user decides what the gap was
+ */
+interface IdlePause {
+  sessionFile: TFile;
+  sessionStart: number;
+  idleStart: number;
+  pausedAt: number;
+}
+
+/**
+ * Break configuration read by the timer (a live view of plugin settings)
+ */
+export type BreakSettings = Pick<
+  TimegrainSettings,
+  'breakBehavior' | 'shortBreakSeconds' | 'longBreakSeconds' | 'longBreakInterval'
+>;
+
+const DEFAULT_BREAK_SETTINGS: BreakSettings = {
+  breakBehavior: 'off',
+  shortBreakSeconds: SHORT_BREAK_DURATION_SECONDS,
+  longBreakSeconds: LONG_BREAK_DURATION_SECONDS,
+  longBreakInterval: DEFAULT_LONG_BREAK_INTERVAL,
+};
+
+/**
+ * Id shared by the session files of one work block, e.g. "20240115-1000-k3x9"
+ */
+function createBlockId(startTime: Date): string {
+  return `${formatSessionFilename(startTime)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Keep a grain length within reasonable bounds (1 min to 2 hours)
+ */
+function clampPomodoroDuration(pomodoroDurationMs: number): number {
+  return Math.max(60000, Math.min(7200000, pomodoroDurationMs || POMODORO_DURATION_MS));
 }
 
 /**
@@ -18,22 +83,44 @@ export interface TimerEvents {
  */
 export class TimerService extends Events {
   private state: TimerState = 'idle';
+  private mode: TimerMode = 'work';
+  private breakType: BreakType | null = null;
+  private breakDurationMs = 0;
+  private grainsSinceLongBreak = 0; // Survives reset so the cycle spans work blocks
+  private target: SessionTarget | null = null;
+  private targetReached = false;
+  private blockId: string | null = null; // Shared by every session file in this work block
+  private idlePause: IdlePause | null = null;
+  private interruptionCount = 0; // Interruptions logged in this work block
   private taskName: string | null = null;
   private taskPath: string | null = null;
   private sessionFile: TFile | null = null;
   private startTime: number | null = null;
   private accumulatedMs = 0; // Time from previous sessions in this work block
+  private heldAccumulatedMs: number | null = null; // Work block time kept while on a break taken mid-block
   private currentPomodoro = 0;
   private lastPomodoroNotified = 0;
   private pomodoroDurationMs: number;
 
   constructor(
     private sessionRepository: SessionRepository,
-    pomodoroDurationMs: number = POMODORO_DURATION_MS
+    pomodoroDurationMs: number = POMODORO_DURATION_MS,
+    private breakSettings: BreakSettings = DEFAULT_BREAK_SETTINGS
   ) {
     super();
-    // Validate and clamp pomodoro duration to reasonable bounds (1 min to 2 hours)
-    this.pomodoroDurationMs = Math.max(60000, Math.min(7200000, pomodoroDurationMs || POMODORO_DURATION_MS));
+    this.pomodoroDurationMs = clampPomodoroDuration(pomodoroDurationMs);
+  }
+
+  /**
+   * Change the grain length, e.g. from settings
+   * A running block keeps its elapsed time; grains it has already passed aren't announced again.
+   */
+  setPomodoroDuration(pomodoroDurationMs: number): void {
+    this.pomodoroDurationMs = clampPomodoroDuration(pomodoroDurationMs);
+    if (this.state !== 'idle' && this.mode === 'work') {
+      this.currentPomodoro = this.getCurrentPomodoro();
+      this.lastPomodoroNotified = this.currentPomodoro - 1;
+    }
   }
 
   // ============================================================================
@@ -56,9 +143,29 @@ export class TimerService extends Events {
     return this.state === 'idle';
   }
 
+  isOnBreak(): boolean {
+    return this.mode === 'break';
+  }
+
+  /**
+   * Whether the timer was auto-paused for inactivity and awaits an idle resolution
+   */
+  hasIdlePause(): boolean {
+    return this.idlePause !== null;
+  }
+
+  getIdleStart(): number | null {
+    return this.idlePause?.idleStart ?? null;
+  }
+
   getStatus(): TimerStatus {
     return {
       state: this.state,
+      mode: this.mode,
+      breakType: this.breakType,
+      remainingSeconds: this.getRemainingSeconds(),
+      targetSeconds: this.target ? Math.round(this.target.durationMs / 1000) : null,
+      overtimeSeconds: Math.floor(this.getOvertimeMs() / 1000),
       taskName: this.taskName,
       taskPath: this.taskPath,
       sessionFilePath: this.sessionFile?.path || null,
@@ -66,6 +173,7 @@ export class TimerService extends Events {
       accumulatedMs: this.accumulatedMs,
       elapsedSeconds: this.getElapsedSeconds(),
       currentPomodoro: this.currentPomodoro,
+      interruptions: this.interruptionCount,
     };
   }
 
@@ -91,21 +199,62 @@ export class TimerService extends Events {
     return Math.floor(this.getElapsedMs() / this.pomodoroDurationMs) + 1;
   }
 
+  /**
+   * Seconds left in the current break or target, or null when counting up
+   */
+  getRemainingSeconds(): number | null {
+    if (this.mode === 'break') {
+      return Math.max(0, Math.ceil((this.breakDurationMs - this.getElapsedMs()) / 1000));
+    }
+    if (this.target) {
+      return Math.max(0, Math.ceil((this.target.durationMs - this.getElapsedMs()) / 1000));
+    }
+    return null;
+  }
+
+  /**
+   * Time worked past the target in this work block
+   */
+  getOvertimeMs(): number {
+    if (!this.target || this.mode === 'break') {
+      return 0;
+    }
+    return Math.max(0, this.getElapsedMs() - this.target.durationMs);
+  }
+
+  /**
+   * Break type the next break should be, based on grains since the last long break
+   */
+  getNextBreakType(): BreakType {
+    const interval = this.breakSettings.longBreakInterval;
+    return interval > 0 && this.grainsSinceLongBreak >= interval ? 'long' : 'short';
+  }
+
   // ============================================================================
   // Timer Controls
   // ============================================================================
 
   /**
    * Start a new timer session
+   * With a target the timer counts down and applies the target's expiry action
    */
-  async start(taskName: string, taskPath: string | null = null): Promise<void> {
+  async start(
+    taskName: string,
+    taskPath: string | null = null,
+    target: SessionTarget | null = null
+  ): Promise<void> {
     if (this.state !== 'idle') {
       throw new Error('Timer is already running');
     }
 
     // Create session file
     const startTime = new Date();
-    this.sessionFile = await this.sessionRepository.createSession(taskName, startTime);
+    const blockId = createBlockId(startTime);
+    this.sessionFile = await this.sessionRepository.createSession(taskName, startTime, {
+      block_id: blockId,
+      ...this.getTaskFields(taskPath),
+      ...this.getTargetFields(target),
+    });
 
     // Initialize state
     this.state = 'running';
@@ -115,6 +264,9 @@ export class TimerService extends Events {
     this.accumulatedMs = 0;
     this.currentPomodoro = 1;
     this.lastPomodoroNotified = 0;
+    this.target = target;
+    this.targetReached = false;
+    this.blockId = blockId;
 
     this.trigger('timer-start', { taskName, taskPath });
   }
@@ -126,6 +278,12 @@ export class TimerService extends Events {
     if (this.state !== 'running') {
       throw new Error('Timer is not running');
     }
+    if (this.mode === 'break') {
+      throw new Error('Breaks cannot be paused');
+    }
+
+    // Capture overtime for this session before folding it into the block
+    const overtimeFields = this.getOvertimeFields();
 
     // Save current session time to accumulated
     if (this.startTime) {
@@ -136,7 +294,13 @@ export class TimerService extends Events {
     const sessionFile = this.sessionFile;
     if (sessionFile && this.startTime) {
       try {
-        await this.sessionRepository.completeSession(sessionFile, 'pause', new Date(this.startTime));
+        await this.sessionRepository.completeSession(
+          sessionFile,
+          'pause',
+          new Date(this.startTime),
+          new Date(),
+          { ...this.getBlockFields(), ...overtimeFields }
+        );
       } catch (e) {
         console.error('Failed to save session on pause:', e);
       }
@@ -158,18 +322,88 @@ export class TimerService extends Events {
       throw new Error('Timer is not paused');
     }
 
+    // Resuming by hand keeps the idle time as it was recorded
+    this.idlePause = null;
+
     // Create new session file
-    this.sessionFile = await this.sessionRepository.createSession(this.taskName!, new Date());
+    this.sessionFile = await this.sessionRepository.createSession(this.taskName!, new Date(), {
+      ...this.getBlockFields(),
+      ...this.getTaskFields(this.taskPath),
+      ...this.getTargetFields(this.target),
+    });
     this.startTime = Date.now();
     this.state = 'running';
 
     this.trigger('timer-resume');
   }
 
+  /**
+   * Switch to another task without ending the work block
+   * Closes the current session with action 'switch' and opens one for the new task;
+   * elapsed time, grain count and target carry over. Switching while paused resumes;
+   * idle time still waiting for a decision is discarded first.
+   */
+  async switchTask(taskName: string, taskPath: string | null = null): Promise<void> {
+    if (this.state !== 'running' && this.state !== 'paused') {
+      throw new Error('Timer is not running');
+    }
+    if (this.mode === 'break') {
+      throw new Error('Cannot switch task during a break');
+    }
+
+    const fromTaskName = this.taskName;
+    const now = new Date();
+    const idle = this.idlePause;
+    if (idle) {
+      this.idlePause = null;
+      await this.settleIdleGap(idle, 'discard', now.getTime());
+    }
+
+    // Older sessions (e.g. recovered after a crash) may not have a block yet
+    if (!this.blockId) {
+      this.blockId = createBlockId(this.startTime ? new Date(this.startTime) : now);
+    }
+
+    if (this.state === 'running' && this.startTime) {
+      const overtimeFields = this.getOvertimeFields();
+      this.accumulatedMs += now.getTime() - this.startTime;
+
+      const sessionFile = this.sessionFile;
+      if (sessionFile) {
+        try {
+          await this.sessionRepository.completeSession(
+            sessionFile,
+            'switch',
+            new Date(this.startTime),
+            now,
+            { ...this.getBlockFields(), ...overtimeFields }
+          );
+        } catch (e) {
+          console.error('Failed to save session on switch:', e);
+        }
+      }
+    }
+
+    this.sessionFile = await this.sessionRepository.createSession(taskName, now, {
+      ...this.getBlockFields(),
+      ...this.getTaskFields(taskPath),
+      ...this.getTargetFields(this.target),
+    });
+    this.taskName = taskName;
+    this.taskPath = taskPath;
+    this.startTime = now.getTime();
+    this.state = 'running';
+
+    this.trigger('timer-switch', { fromTaskName, taskName, taskPath });
+  }
+
   /**
    * Toggle pause/resume
    */
   async togglePause(): Promise<void> {
+    if (this.mode === 'break') {
+      return;
+    }
     if (this.state === 'running') {
       await this.pause();
     } else if (this.state === 'paused') {
@@ -185,15 +419,29 @@ export class TimerService extends Events {
       return null;
     }
 
+    // Completing a break just ends it early - there is nothing to rate
+    if (this.mode === 'break') {
+      await this.finishBreak(true);
+      return null;
+    }
+
     const sessionFile = this.sessionFile;
     const startTime = this.startTime;
+    const overtimeFields = this.getOvertimeFields();
+    const blockFields = this.getBlockFields();
 
     // Reset state first to ensure UI updates even if save fails
     this.reset();
 
     if (sessionFile && startTime) {
       try {
-        await this.sessionRepository.completeSession(sessionFile, 'complete', new Date(startTime));
+        await this.sessionRepository.completeSession(
+          sessionFile,
+          'complete',
+          new Date(startTime),
+          new Date(),
+          { ...blockFields, ...overtimeFields }
+        );
       } catch (e) {
         console.error('Failed to save session on complete:', e);
       }
@@ -227,16 +475,291 @@ export class TimerService extends Events {
     }
   }
 
+  // ============================================================================
+  // Breaks
+  // ============================================================================
+
+  /**
+   * Start a break
+   * A work block in progress stays open: its session closes like a pause, and the block
+   * waits paused until the break ends, so elapsed time and targets carry across it.
+   * `break-start` carries the closed work session so it can be rated.
+   */
+  async startBreak(breakType: BreakType = this.getNextBreakType()): Promise<void> {
+    if (this.mode === 'break') {
+      throw new Error('Break already in progress');
+    }
+
+    let workFile: TFile | null = null;
+    if (this.state === 'running') {
+      workFile = await this.pause();
+    }
+    if (this.state === 'paused') {
+      this.heldAccumulatedMs = this.accumulatedMs;
+      this.idlePause = null;
+    }
+
+    const startTime = new Date();
+    this.sessionFile = await this.sessionRepository.createBreakSession(breakType, startTime);
+
+    const durationSeconds =
+      breakType === 'long' ? this.breakSettings.longBreakSeconds : this.breakSettings.shortBreakSeconds;
+
+    this.state = 'running';
+    this.mode = 'break';
+    this.breakType = breakType;
+    this.breakDurationMs = durationSeconds * 1000;
+    this.startTime = startTime.getTime();
+    this.accumulatedMs = 0;
+
+    if (breakType === 'long') {
+      this.grainsSinceLongBreak = 0;
+    }
+
+    this.trigger('break-start', { breakType, durationMs: this.breakDurationMs, sessionFile: workFile });
+  }
+
+  /**
+   * End the current break before its countdown runs out
+   */
+  async skipBreak(): Promise<void> {
+    if (this.mode !== 'break') {
+      return;
+    }
+    await this.finishBreak(true);
+  }
+
+  private async finishBreak(skipped: boolean): Promise<void> {
+    const sessionFile = this.sessionFile;
+    const startTime = this.startTime;
+    const breakType = this.breakType || 'short';
+    const heldAccumulatedMs = this.heldAccumulatedMs;
+
+    // Leave break mode first so the next tick doesn't finish the break twice
+    if (heldAccumulatedMs !== null) {
+      this.returnToHeldBlock(heldAccumulatedMs);
+    } else {
+      this.reset();
+    }
+
+    if (sessionFile && startTime) {
+      try {
+        await this.sessionRepository.completeSession(sessionFile, 'complete', new Date(startTime));
+      } catch (e) {
+        console.error('Failed to save break session:', e);
+      }
+    }
+
+    this.trigger('break-complete', { breakType, skipped });
+  }
+
+  /**
+   * Back to the work block a break interrupted, paused until the user resumes it
+   */
+  private returnToHeldBlock(accumulatedMs: number): void {
+    this.state = 'paused';
+    this.mode = 'work';
+    this.breakType = null;
+    this.breakDurationMs = 0;
+    this.sessionFile = null;
+    this.startTime = null;
+    this.accumulatedMs = accumulatedMs;
+    this.heldAccumulatedMs = null;
+  }
+
+  // ============================================================================
+  // Interruptions
+  // ============================================================================
+
+  /**
+   * Log an interruption against the running session
+   */
+  async logInterruption(type: InterruptionType, note?: string): Promise<void> {
+    if (this.state !== 'running' || this.mode === 'break' || !this.sessionFile) {
+      throw new Error('No running session to interrupt');
+    }
+
+    await this.sessionRepository.addInterruption(this.sessionFile, type, new Date(), note || undefined);
+    this.interruptionCount++;
+
+    this.trigger('interruption', { type, note: note || undefined, count: this.interruptionCount });
+  }
+
+  // ============================================================================
+  // Idle
+  // ============================================================================
+
+  /**
+   * Pause because the user went idle at idleStart
+   * The session closes now; resolveIdle() later decides what the idle gap counts as
+   */
+  async pauseForIdle(idleStart: number): Promise<void> {
+    if (this.state !== 'running' || this.mode === 'break' || !this.startTime) {
+      return;
+    }
+
+    const sessionStart = this.startTime;
+    const sessionFile = await this.pause();
+    if (!sessionFile) return;
+
+    this.idlePause = {
+      sessionFile,
+      sessionStart,
+      idleStart: Math.max(idleStart, sessionStart),
+      pausedAt: Date.now(),
+    };
+
+    this.trigger('idle-pause', { idleStart: this.idlePause.idleStart });
+  }
+
+  /**
+   * Apply the user's decision about the idle gap, then optionally resume
+   */
+  async resolveIdle(
+    resolution: IdleResolution,
+    returnedAt: number = Date.now(),
+    resumeAfter = true
+  ): Promise<void> {
+    const idle = this.idlePause;
+    if (!idle || this.state !== 'paused') {
+      this.idlePause = null;
+      return;
+    }
+    this.idlePause = null;
+    await this.settleIdleGap(idle, resolution, returnedAt);
+
+    if (resumeAfter) {
+      await this.resume();
+    } else {
+      this.trigger('timer-pause');
+    }
+  }
+
+  /**
+   * Rewrite the session paused for idleness to match the decision about the gap
+   */
+  private async settleIdleGap(idle: IdlePause, resolution: IdleResolution, returnedAt: number): Promise<void> {
+    // Keep: stretch the paused session to cover the whole absence
+    // Discard/break: trim the session back to the moment activity stopped
+    const endTime = resolution === 'keep' ? returnedAt : idle.idleStart;
+    this.accumulatedMs = Math.max(0, this.accumulatedMs + (endTime - idle.pausedAt));
+
+    try {
+      await this.sessionRepository.completeSession(
+        idle.sessionFile,
+        'pause',
+        new Date(idle.sessionStart),
+        new Date(endTime),
+        this.getBlockFields()
+      );
+    } catch (e) {
+      console.error('Failed to update session after idle:', e);
+    }
+
+    if (resolution === 'break' && returnedAt > idle.idleStart) {
+      try {
+        const breakFile = await this.sessionRepository.createBreakSession('short', new Date(idle.idleStart));
+        await this.sessionRepository.completeSession(
+          breakFile,
+          'complete',
+          new Date(idle.idleStart),
+          new Date(returnedAt)
+        );
+      } catch (e) {
+        console.error('Failed to log idle time as a break:', e);
+      }
+    }
+  }
+
+  // ============================================================================
+  // Work Blocks
+  // ============================================================================
+
+  private getBlockFields(): Partial<SessionFrontmatter> {
+    return this.blockId ? { block_id: this.blockId } : {};
+  }
+
+  /**
+   * Record the task note's path so stats follow the note rather than its name
+   */
+  private getTaskFields(taskPath: string | null): Partial<SessionFrontmatter> {
+    return taskPath ? { task_path: taskPath } : {};
+  }
+
+  // ============================================================================
+  // Targets
+  // ============================================================================
+
+  private getTargetFields(target: SessionTarget | null): Partial<SessionFrontmatter> {
+    if (!target) return {};
+    return {
+      target_minutes: Math.round(target.durationMs / 60000),
+      target_action: target.onExpiry,
+    };
+  }
+
+  /**
+   * Overtime accrued during the current session file only, so that
+   * summing overtime across the sessions of a block gives the block total
+   */
+  private getOvertimeFields(): Partial<SessionFrontmatter> {
+    if (!this.target || !this.startTime) return {};
+
+    const sessionStartMs = this.accumulatedMs;
+    const sessionEndMs = this.getElapsedMs();
+    const overtimeMs =
+      Math.max(0, sessionEndMs - this.target.durationMs) -
+      Math.max(0, sessionStartMs - this.target.durationMs);
+
+    return overtimeMs > 0 ? { overtime_minutes: Math.round(overtimeMs / 60000) } : {};
+  }
+
+  private async handleTargetReached(action: TargetExpiryAction): Promise<void> {
+    let sessionFile: TFile | null = null;
+
+    if (action === 'complete') {
+      sessionFile = await this.complete();
+    } else if (action === 'pause') {
+      sessionFile = await this.pause();
+    }
+
+    this.trigger('target-reached', { action, sessionFile });
+  }
+
+  private handleGrainComplete(): void {
+    switch (this.breakSettings.breakBehavior) {
+      case 'auto':
+        this.startBreak().catch((e) => {
+          console.error('Failed to start break:', e);
+        });
+        break;
+      case 'offer':
+        this.trigger('break-offer', { breakType: this.getNextBreakType() });
+        break;
+      case 'off':
+        break;
+    }
+  }
+
   /**
    * Reset the timer to idle state
    */
   private reset(): void {
     this.state = 'idle';
+    this.mode = 'work';
+    this.breakType = null;
+    this.breakDurationMs = 0;
+    this.target = null;
+    this.targetReached = false;
+    this.blockId = null;
+    this.idlePause = null;
+    this.interruptionCount = 0;
     this.taskName = null;
     this.taskPath = null;
     this.sessionFile = null;
     this.startTime = null;
     this.accumulatedMs = 0;
+    this.heldAccumulatedMs = null;
     this.currentPomodoro = 0;
     this.lastPomodoroNotified = 0;
   }
@@ -251,12 +774,23 @@ export class TimerService extends Events {
   tick(): void {
     if (this.state !== 'running') return;
 
+    if (this.mode === 'break') {
+      this.trigger('timer-tick', this.getStatus());
+      if (this.getRemainingSeconds() === 0) {
+        this.finishBreak(false).catch((e) => {
+          console.error('Failed to finish break:', e);
+        });
+      }
+      return;
+    }
+
     // Check for pomodoro completion BEFORE getting status
     // so that the status has the correct currentPomodoro value
     const completedPoms = Math.floor(this.getElapsedMs() / this.pomodoroDurationMs);
     const pomodoroJustCompleted = completedPoms > 0 && completedPoms > this.lastPomodoroNotified;
 
     if (pomodoroJustCompleted) {
+      this.grainsSinceLongBreak += completedPoms - this.lastPomodoroNotified;
       this.lastPomodoroNotified = completedPoms;
       this.currentPomodoro = completedPoms + 1; // Current pom is the one in progress
     }
@@ -269,6 +803,20 @@ export class TimerService extends Events {
     if (pomodoroJustCompleted) {
       this.trigger('pomodoro-complete', { count: completedPoms });
     }
+
+    // Apply the target's expiry action once per work block, before a break the same grain brings
+    if (this.target && !this.targetReached && this.getElapsedMs() >= this.target.durationMs) {
+      this.targetReached = true;
+      this.handleTargetReached(this.target.onExpiry)
+        .then(() => {
+          if (pomodoroJustCompleted) this.handleGrainComplete();
+        })
+        .catch((e) => {
+          console.error('Failed to apply session target:', e);
+        });
+    } else if (pomodoroJustCompleted) {
+      this.handleGrainComplete();
+    }
   }
 
   // ============================================================================
@@ -282,7 +830,9 @@ export class TimerService extends Events {
     sessionFile: TFile,
     taskName: string,
     startTime: Date,
-    taskPath: string | null = null
+    taskPath: string | null = null,
+    target: SessionTarget | null = null,
+    blockId: string | null = null
   ): Promise<void> {
     if (this.state !== 'idle') {
       throw new Error('Timer is already running');
@@ -300,6 +850,10 @@ export class TimerService extends Events {
     this.accumulatedMs = 0; // Crash recovery starts fresh for this session
     this.currentPomodoro = this.getCurrentPomodoro();
     this.lastPomodoroNotified = this.currentPomodoro - 1;
+    this.target = target;
+    this.blockId = blockId;
+    // Don't fire an expiry action for time that passed while Obsidian was closed
+    this.targetReached = target !== null && this.getElapsedMs() >= target.durationMs;
 
     this.trigger('timer-start', { taskName, taskPath });
   }
@@ -318,23 +872,97 @@ export class TimerService extends Events {
   /**
    * Get state for persistence
    */
-  getPersistedState(): {
-    isActive: boolean;
-    state: TimerState;
-    taskName: string | null;
-    taskPath: string | null;
-    sessionFilePath: string | null;
-    startTime: number | null;
-    accumulatedMs: number;
-  } {
-    return {
+  getPersistedState(): PersistedTimerState {
+    const persisted: PersistedTimerState = {
       isActive: this.state !== 'idle',
       state: this.state,
+      mode: this.mode,
+      breakType: this.breakType,
+      breakDurationMs: this.breakDurationMs,
+      target: this.target,
+      targetReached: this.targetReached,
+      blockId: this.blockId,
       taskName: this.taskName,
       taskPath: this.taskPath,
       sessionFilePath: this.sessionFile?.path || null,
       startTime: this.startTime,
       accumulatedMs: this.accumulatedMs,
+      lastPomodoroNotified: this.lastPomodoroNotified,
+      grainsSinceLongBreak: this.grainsSinceLongBreak,
+      interruptionCount: this.interruptionCount,
     };
+
+    // A break taken mid-block isn't restored, but the block it interrupted is, paused
+    if (this.mode === 'break' && this.heldAccumulatedMs !== null) {
+      return {
+        ...persisted,
+        state: 'paused',
+        mode: 'work',
+        breakType: null,
+        breakDurationMs: 0,
+        sessionFilePath: null,
+        startTime: null,
+        accumulatedMs: this.heldAccumulatedMs,
+      };
+    }
+    return persisted;
+  }
+
+  /**
+   * Rehydrate a work block from persisted state
+   * A running block needs its (still unfinished) session file; a paused block has none
+   */
+  async restoreFromPersistedState(
+    persisted: PersistedTimerState,
+    sessionFile: TFile | null = null
+  ): Promise<void> {
+    if (this.state !== 'idle') {
+      throw new Error('Timer is already running');
+    }
+    if (persisted.mode !== 'work' || !persisted.taskName) {
+      throw new Error('Only work blocks can be restored');
+    }
+
+    const running = persisted.state === 'running';
+    if (running) {
+      if (!sessionFile || persisted.startTime === null) {
+        throw new Error('No session file to restore');
+      }
+      await this.sessionRepository.markSessionResumed(sessionFile);
+    } else if (persisted.state !== 'paused') {
+      throw new Error('Only running or paused blocks can be restored');
+    }
+
+    this.state = persisted.state;
+    this.mode = 'work';
+    this.taskName = persisted.taskName;
+    this.taskPath = persisted.taskPath;
+    this.sessionFile = running ? sessionFile : null;
+    this.startTime = running ? persisted.startTime : null;
+    this.accumulatedMs = Math.max(0, persisted.accumulatedMs || 0);
+    this.target = persisted.target;
+    this.blockId = persisted.blockId;
+    this.interruptionCount = persisted.interruptionCount || 0;
+    this.grainsSinceLongBreak = persisted.grainsSinceLongBreak || 0;
+
+    // Don't notify grains or fire an expiry action for time that passed while Obsidian was closed
+    this.currentPomodoro = this.getCurrentPomodoro();
+    this.lastPomodoroNotified = Math.max(persisted.lastPomodoroNotified || 0, this.currentPomodoro - 1);
+    this.targetReached =
+      persisted.targetReached ||
+      (this.target !== null && this.getElapsedMs() >= this.target.durationMs);
+
+    if (running) {
+      this.trigger('timer-start', { taskName: this.taskName, taskPath: this.taskPath });
+    } else {
+      this.trigger('timer-pause');
+    }
+  }
+
+  /**
+   * Carry the long-break cycle over a restart when no block is restored
+   */
+  restoreBreakCycle(grainsSinceLongBreak: number): void {
+    this.grainsSinceLongBreak = Math.max(0, grainsSinceLongBreak || 0);
   }
 }
@@ -1,10 +1,40 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import type TimegrainPlugin from './main';
-import type { TimegrainSettings, TaskStatus } from './types';
+import type {
+  TimegrainSettings,
+  TaskStatusDefinition,
+  TaskStatusGroup,
+  NotificationSound,
+  AutomationRule,
+  AutomationEvent,
+  AutomationActionType,
+  AutomationTemplateTarget,
+  SessionFolderLayout,
+} from './types';
+import { parseTargetPresets, formatTargetPresets } from './utils/targets';
+import { NOTIFICATION_EVENTS, NOTIFICATION_SOUND_LABELS } from './utils/notifications';
+import { AUTOMATION_EVENTS, AUTOMATION_EVENT_LABELS, createAutomationRule } from './utils/automation';
+import { recordGrainLengthChange } from './utils/grain-length';
+import {
+  DEFAULT_TASK_STATUSES,
+  TASK_STATUS_GROUP_LABELS,
+  createStatusDefinition,
+  normalizeStatus,
+  renameStatus,
+} from './utils/task-status';
 import {
   POMODORO_DURATION_SECONDS,
+  SHORT_BREAK_DURATION_SECONDS,
+  LONG_BREAK_DURATION_SECONDS,
+  DEFAULT_LONG_BREAK_INTERVAL,
+  DEFAULT_IDLE_THRESHOLD_SECONDS,
+  DEFAULT_LONG_SESSION_MINUTES,
   DEFAULT_TIMER_SESSIONS_DIR,
   DEFAULT_TASK_DIRECTORY,
+  DEFAULT_EXPORT_DIRECTORY,
+  DEFAULT_ARCHIVE_AFTER_MONTHS,
+  DEFAULT_TASK_FOLDERS,
+  DEFAULT_TASK_EXCLUDE,
   DEFAULT_DAILY_GOAL_POMS,
   DEFAULT_ENERGY_HIGH_THRESHOLD,
   DEFAULT_ENERGY_LOW_THRESHOLD,
@@ -17,14 +47,58 @@ import {
 export const DEFAULT_SETTINGS: TimegrainSettings = {
   // Paths
   timerSessionsDir: DEFAULT_TIMER_SESSIONS_DIR,
+  sessionFolderLayout: 'flat',
   defaultTaskDirectory: DEFAULT_TASK_DIRECTORY,
+  exportDirectory: DEFAULT_EXPORT_DIRECTORY,
+  archiveAfterMonths: DEFAULT_ARCHIVE_AFTER_MONTHS,
+
+  // Task discovery
+  taskFolders: DEFAULT_TASK_FOLDERS,
+  taskProperty: '',
+  taskTag: '',
+  taskInclude: [],
+  taskExclude: DEFAULT_TASK_EXCLUDE,
 
   // Timer
   cycleSeconds: POMODORO_DURATION_SECONDS,
+  grainLengthHistory: [],
   playSound: true,
 
+  // Breaks
+  breakBehavior: 'off',
+  shortBreakSeconds: SHORT_BREAK_DURATION_SECONDS,
+  longBreakSeconds: LONG_BREAK_DURATION_SECONDS,
+  longBreakInterval: DEFAULT_LONG_BREAK_INTERVAL,
+
+  // Targets
+  targetPresets: [
+    { amount: 1, unit: 'grains', onExpiry: 'complete' },
+    { amount: 45, unit: 'minutes', onExpiry: 'overtime' },
+    { amount: 90, unit: 'minutes', onExpiry: 'pause' },
+  ],
+
+  // Idle detection
+  idleDetection: false,
+  idleThresholdSeconds: DEFAULT_IDLE_THRESHOLD_SECONDS,
+
+  // Notifications
+  notifications: {
+    grainComplete: { sound: 'beep', soundFile: '', volume: 60, desktop: false },
+    breakOver: { sound: 'chime', soundFile: '', volume: 60, desktop: false },
+    dailyGoal: { sound: 'bell', soundFile: '', volume: 60, desktop: false },
+    longSession: { sound: 'digital', soundFile: '', volume: 60, desktop: false },
+  },
+  longSessionMinutes: DEFAULT_LONG_SESSION_MINUTES,
+  quietHoursEnabled: false,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '07:00',
+
+  // Automation
+  automationRules: [],
+
   // Goals
   dailyGoalPoms: DEFAULT_DAILY_GOAL_POMS,
+  dayStartTime: '00:00',
 
   // Energy
   energyHighThreshold: DEFAULT_ENERGY_HIGH_THRESHOLD,
@@ -36,8 +110,7 @@ export const DEFAULT_SETTINGS: TimegrainSettings = {
 
   // Behavior
   rolloverStaleTasks: true,
-  taskStatuses: ['today', 'in progress'],
-  completedStatuses: ['done', 'archived'],
+  taskStatusDefinitions: DEFAULT_TASK_STATUSES,
   areaBlacklist: [],
 };
 
@@ -45,14 +118,30 @@ export const DEFAULT_SETTINGS: TimegrainSettings = {
 // Settings Tab
 // ============================================================================
 
+function parsePatternList(value: string): string[] {
+  return value
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
 export class TimegrainSettingTab extends PluginSettingTab {
   plugin: TimegrainPlugin;
+  private discoveryChanged = false;
 
   constructor(app: App, plugin: TimegrainPlugin) {
     super(app, plugin);
     this.plugin = plugin;
   }
 
+  hide(): void {
+    // Rescan tasks once the settings are closed rather than on every keystroke
+    if (this.discoveryChanged) {
+      this.discoveryChanged = false;
+      this.plugin.taskRepository.refreshAll();
+    }
+  }
+
   display(): void {
     const { containerEl } = this;
     containerEl.empty();
@@ -71,14 +160,107 @@ export class TimegrainSettingTab extends PluginSettingTab {
           .setValue(this.plugin.settings.cycleSeconds / 60)
           .setDynamicTooltip()
           .onChange(async (value) => {
-            this.plugin.settings.cycleSeconds = value * 60;
+            const { settings } = this.plugin;
+            if (value * 60 === settings.cycleSeconds) return;
+            // Remember the old length so unstamped sessions keep their grain counts
+            settings.grainLengthHistory = recordGrainLengthChange(
+              settings.grainLengthHistory,
+              settings.cycleSeconds,
+              value * 60
+            );
+            settings.cycleSeconds = value * 60;
+            this.plugin.timerService.setPomodoroDuration(settings.cycleSeconds * 1000);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Target presets')
+      .setDesc(
+        'Comma-separated session targets: amount in minutes (m) or grains (g), then what happens when it runs out (complete, pause or overtime). e.g. "45m:overtime, 2g:complete"'
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder('1g:complete, 45m:overtime')
+          .setValue(formatTargetPresets(this.plugin.settings.targetPresets))
+          .onChange(async (value) => {
+            this.plugin.settings.targetPresets = parseTargetPresets(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // ========================================================================
+    // Breaks
+    // ========================================================================
+    containerEl.createEl('h2', { text: 'Breaks' });
+
+    new Setting(containerEl)
+      .setName('After each grain')
+      .setDesc('What happens when a grain completes')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            off: 'Keep working',
+            offer: 'Offer a break',
+            auto: 'Start a break automatically',
+          })
+          .setValue(this.plugin.settings.breakBehavior)
+          .onChange(async (value) => {
+            this.plugin.settings.breakBehavior = value as TimegrainSettings['breakBehavior'];
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Short break duration')
+      .setDesc('Duration of a short break in minutes')
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 30, 1)
+          .setValue(this.plugin.settings.shortBreakSeconds / 60)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.shortBreakSeconds = value * 60;
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName('Play sound')
-      .setDesc('Play a sound when the timer completes')
+      .setName('Long break duration')
+      .setDesc('Duration of a long break in minutes')
+      .addSlider((slider) =>
+        slider
+          .setLimits(5, 60, 5)
+          .setValue(this.plugin.settings.longBreakSeconds / 60)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.longBreakSeconds = value * 60;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Long break interval')
+      .setDesc('Take a long break after this many grains')
+      .addSlider((slider) =>
+        slider
+          .setLimits(2, 8, 1)
+          .setValue(this.plugin.settings.longBreakInterval)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.longBreakInterval = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // ========================================================================
+    // Notifications
+    // ========================================================================
+    containerEl.createEl('h2', { text: 'Notifications' });
+
+    new Setting(containerEl)
+      .setName('Play sounds')
+      .setDesc('Turn off to silence every notification sound')
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.playSound)
@@ -88,6 +270,141 @@ export class TimegrainSettingTab extends PluginSettingTab {
           })
       );
 
+    for (const { event, name, desc } of NOTIFICATION_EVENTS) {
+      const channel = this.plugin.settings.notifications[event];
+
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addDropdown((dropdown) => {
+          for (const [sound, label] of Object.entries(NOTIFICATION_SOUND_LABELS)) {
+            dropdown.addOption(sound, label);
+          }
+          dropdown.setValue(channel.sound).onChange(async (value) => {
+            channel.sound = value as NotificationSound;
+            await this.plugin.saveSettings();
+            // Show or hide the sound file field
+            this.display();
+          });
+        })
+        .addSlider((slider) =>
+          slider
+            .setLimits(0, 100, 5)
+            .setValue(channel.volume)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              channel.volume = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('play')
+            .setTooltip('Preview sound')
+            .onClick(() => this.plugin.notificationService.playSound(channel))
+        )
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip('Desktop notification')
+            .setValue(channel.desktop)
+            .onChange(async (value) => {
+              channel.desktop = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      if (channel.sound === 'file') {
+        new Setting(containerEl)
+          .setName(`${name} sound file`)
+          .setDesc('Path to an audio file in your vault (mp3, wav, ogg)')
+          .setClass('timegrain-setting-indent')
+          .addText((text) =>
+            text
+              .setPlaceholder('sounds/ding.mp3')
+              .setValue(channel.soundFile)
+              .onChange(async (value) => {
+                channel.soundFile = value;
+                await this.plugin.saveSettings();
+              })
+          );
+      }
+    }
+
+    new Setting(containerEl)
+      .setName('Long session length')
+      .setDesc('Minutes of work in one block before the long-running session notification (0 to turn off)')
+      .addSlider((slider) =>
+        slider
+          .setLimits(0, 240, 15)
+          .setValue(this.plugin.settings.longSessionMinutes)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.longSessionMinutes = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Quiet hours')
+      .setDesc('Silence sounds and desktop notifications between these times. In-app notices still show.')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.quietHoursEnabled)
+          .onChange(async (value) => {
+            this.plugin.settings.quietHoursEnabled = value;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addText((text) => {
+        text.inputEl.type = 'time';
+        text.setValue(this.plugin.settings.quietHoursStart).onChange(async (value) => {
+          if (!value) return;
+          this.plugin.settings.quietHoursStart = value;
+          await this.plugin.saveSettings();
+        });
+      })
+      .addText((text) => {
+        text.inputEl.type = 'time';
+        text.setValue(this.plugin.settings.quietHoursEnd).onChange(async (value) => {
+          if (!value) return;
+          this.plugin.settings.quietHoursEnd = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    // ========================================================================
+    // Idle Detection
+    // ========================================================================
+    containerEl.createEl('h2', { text: 'Idle detection' });
+
+    new Setting(containerEl)
+      .setName('Pause when idle')
+      .setDesc(
+        'Pause the timer when there is no keyboard or mouse activity in Obsidian, or Obsidian is in the background. Leave off if you time work done in other apps.'
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.idleDetection)
+          .onChange(async (value) => {
+            this.plugin.settings.idleDetection = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Idle threshold')
+      .setDesc('Minutes without activity before the timer pauses')
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 60, 1)
+          .setValue(this.plugin.settings.idleThresholdSeconds / 60)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.idleThresholdSeconds = value * 60;
+            await this.plugin.saveSettings();
+          })
+      );
+
     // ========================================================================
     // Paths
     // ========================================================================
@@ -106,6 +423,23 @@ export class TimegrainSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName('Session folder layout')
+      .setDesc(
+        'Where new session files go inside the sessions directory. Run "Move session files into folder layout" to reorganize existing files.'
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('flat', 'All in one folder')
+          .addOption('year', 'By year (2024/)')
+          .addOption('year-month', 'By year and month (2024/01/)')
+          .setValue(this.plugin.settings.sessionFolderLayout)
+          .onChange(async (value) => {
+            this.plugin.settings.sessionFolderLayout = value as SessionFolderLayout;
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName('Default task directory')
       .setDesc('Default directory for new tasks')
@@ -119,6 +453,114 @@ export class TimegrainSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName('Export directory')
+      .setDesc('Directory where session exports are written')
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_EXPORT_DIRECTORY)
+          .setValue(this.plugin.settings.exportDirectory)
+          .onChange(async (value) => {
+            this.plugin.settings.exportDirectory = value || DEFAULT_EXPORT_DIRECTORY;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Archive sessions after (months)')
+      .setDesc(
+        'Run "Archive old sessions" to roll session files from before this many months ago into one archive note per month.'
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 36, 1)
+          .setValue(this.plugin.settings.archiveAfterMonths)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.archiveAfterMonths = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // ========================================================================
+    // Task Discovery
+    // ========================================================================
+    containerEl.createEl('h2', { text: 'Task discovery' });
+    containerEl.createEl('p', {
+      text: 'A note is a task if it is in a task folder, has the task property or tag, or matches an include pattern. Patterns are matched against note and folder paths: * matches within a folder name, ** across folders.',
+      cls: 'setting-item-description',
+    });
+
+    new Setting(containerEl)
+      .setName('Task folders')
+      .setDesc('Comma-separated folder patterns. The folder holding a task folder names its area.')
+      .addText((text) =>
+        text
+          .setPlaceholder('**/tasks')
+          .setValue(this.plugin.settings.taskFolders.join(', '))
+          .onChange(async (value) => {
+            this.plugin.settings.taskFolders = parsePatternList(value);
+            this.discoveryChanged = true;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Task property')
+      .setDesc('Frontmatter property marking a note as a task, as "key: value" or just "key". Leave empty to not use.')
+      .addText((text) =>
+        text
+          .setPlaceholder('type: task')
+          .setValue(this.plugin.settings.taskProperty)
+          .onChange(async (value) => {
+            this.plugin.settings.taskProperty = value.trim();
+            this.discoveryChanged = true;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Task tag')
+      .setDesc('Tag marking a note as a task, nested tags included. Leave empty to not use.')
+      .addText((text) =>
+        text
+          .setPlaceholder('#task')
+          .setValue(this.plugin.settings.taskTag)
+          .onChange(async (value) => {
+            this.plugin.settings.taskTag = value.trim();
+            this.discoveryChanged = true;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Include')
+      .setDesc('Comma-separated patterns of notes that are always tasks')
+      .addText((text) =>
+        text
+          .setPlaceholder('Projects/*/todo.md')
+          .setValue(this.plugin.settings.taskInclude.join(', '))
+          .onChange(async (value) => {
+            this.plugin.settings.taskInclude = parsePatternList(value);
+            this.discoveryChanged = true;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Exclude')
+      .setDesc('Comma-separated patterns of notes and folders that are never tasks. The sessions directory is always excluded.')
+      .addText((text) =>
+        text
+          .setPlaceholder('**/templates, Archive/**')
+          .setValue(this.plugin.settings.taskExclude.join(', '))
+          .onChange(async (value) => {
+            this.plugin.settings.taskExclude = parsePatternList(value);
+            this.discoveryChanged = true;
+            await this.plugin.saveSettings();
+          })
+      );
+
     // ========================================================================
     // Goals
     // ========================================================================
@@ -138,6 +580,20 @@ export class TimegrainSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName('Day starts at')
+      .setDesc('Sessions before this time count toward the previous day, e.g. 04:00 if you often work past midnight')
+      .addText((text) => {
+        text.inputEl.type = 'time';
+        text.setValue(this.plugin.settings.dayStartTime).onChange(async (value) => {
+          if (!value) return;
+          this.plugin.settings.dayStartTime = value;
+          await this.plugin.saveSettings();
+          // Daily totals and the daily log regroup sessions by the new boundary
+          this.plugin.sessionRepository.trigger('sessions-updated');
+        });
+      });
+
     // ========================================================================
     // Energy Tracking
     // ========================================================================
@@ -212,7 +668,7 @@ export class TimegrainSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName('Rollover stale tasks')
-      .setDesc('Automatically move old "today" tasks to "this week"')
+      .setDesc('Move tasks left in a status since a previous day to its "Roll over to" status, e.g. "today" to "this week"')
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.rolloverStaleTasks)
@@ -223,51 +679,289 @@ export class TimegrainSettingTab extends PluginSettingTab {
       );
 
     new Setting(containerEl)
-      .setName('Task statuses to show')
-      .setDesc('Comma-separated list of task statuses to display (e.g., "today, in progress")')
+      .setName('Area blacklist')
+      .setDesc('Comma-separated list of areas to exclude from focus stats')
       .addText((text) =>
         text
-          .setPlaceholder('today, in progress')
-          .setValue(this.plugin.settings.taskStatuses.join(', '))
+          .setPlaceholder('archive, templates')
+          .setValue(this.plugin.settings.areaBlacklist.join(', '))
           .onChange(async (value) => {
-            this.plugin.settings.taskStatuses = value
+            this.plugin.settings.areaBlacklist = value
               .split(',')
-              .map((s) => s.trim().toLowerCase() as TaskStatus)
+              .map((s) => s.trim().toLowerCase())
               .filter((s) => s.length > 0);
             await this.plugin.saveSettings();
           })
       );
 
+    // ========================================================================
+    // Task Statuses
+    // ========================================================================
+    containerEl.createEl('h2', { text: 'Task statuses' });
+    containerEl.createEl('p', {
+      text: 'Statuses are matched to the status property of task notes. Active tasks are listed in the timer view and "Plan your day" moves tasks into the first active status; planned tasks are offered when planning; done tasks are hidden from task search.',
+      cls: 'setting-item-description',
+    });
+
+    this.plugin.settings.taskStatusDefinitions.forEach((definition, index) => {
+      this.displayTaskStatus(containerEl, definition, index);
+    });
+
     new Setting(containerEl)
-      .setName('Completed statuses')
-      .setDesc('Task statuses to hide from search by default (e.g., "done, archived")')
+      .addButton((button) =>
+        button
+          .setButtonText('Add status')
+          .setCta()
+          .onClick(async () => {
+            const definitions = this.plugin.settings.taskStatusDefinitions;
+            definitions.push(createStatusDefinition(definitions));
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      )
+      .addButton((button) =>
+        button.setButtonText('Restore defaults').onClick(async () => {
+          this.plugin.settings.taskStatusDefinitions = DEFAULT_TASK_STATUSES.map((d) => ({
+            ...d,
+            transitions: [...d.transitions],
+          }));
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    // ========================================================================
+    // Automation
+    // ========================================================================
+    containerEl.createEl('h2', { text: 'Automation' });
+    containerEl.createEl('p', {
+      text: 'Run an Obsidian command or add a template to a note when a timer event happens. Templates can use {{task}}, {{taskPath}}, {{event}}, {{date}}, {{time}} and {{elapsed}}.',
+      cls: 'setting-item-description',
+    });
+
+    this.plugin.settings.automationRules.forEach((rule, index) => {
+      this.displayAutomationRule(containerEl, rule, index);
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button
+        .setButtonText('Add rule')
+        .setCta()
+        .onClick(async () => {
+          this.plugin.settings.automationRules.push(createAutomationRule());
+          await this.plugin.saveSettings();
+          this.display();
+        })
+    );
+  }
+
+  private displayTaskStatus(containerEl: HTMLElement, definition: TaskStatusDefinition, index: number): void {
+    const definitions = this.plugin.settings.taskStatusDefinitions;
+    const statusEl = containerEl.createDiv('timegrain-task-status-definition');
+
+    new Setting(statusEl)
+      .setName(definition.label || definition.id)
       .addText((text) =>
         text
-          .setPlaceholder('done, archived')
-          .setValue(this.plugin.settings.completedStatuses.join(', '))
+          .setPlaceholder('status in frontmatter')
+          .setValue(definition.id)
           .onChange(async (value) => {
-            this.plugin.settings.completedStatuses = value
-              .split(',')
-              .map((s) => s.trim().toLowerCase() as TaskStatus)
-              .filter((s) => s.length > 0);
+            const id = normalizeStatus(value);
+            if (!id || definitions.some((d) => d !== definition && d.id === id)) return;
+            renameStatus(definitions, definition.id, id);
+            await this.plugin.saveSettings();
+          })
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder('Label')
+          .setValue(definition.label)
+          .onChange(async (value) => {
+            definition.label = value.trim();
             await this.plugin.saveSettings();
           })
+      )
+      .addColorPicker((picker) =>
+        picker.setValue(definition.color).onChange(async (value) => {
+          definition.color = value;
+          await this.plugin.saveSettings();
+        })
+      )
+      .addDropdown((dropdown) => {
+        for (const [group, label] of Object.entries(TASK_STATUS_GROUP_LABELS)) {
+          dropdown.addOption(group, label);
+        }
+        dropdown.setValue(definition.group).onChange(async (value) => {
+          definition.group = value as TaskStatusGroup;
+          await this.plugin.saveSettings();
+        });
+      })
+      .addExtraButton((button) =>
+        button
+          .setIcon('arrow-up')
+          .setTooltip('Move up')
+          .setDisabled(index === 0)
+          .onClick(async () => {
+            if (index === 0) return;
+            definitions.splice(index - 1, 0, ...definitions.splice(index, 1));
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('trash')
+          .setTooltip('Delete status')
+          .onClick(async () => {
+            definitions.splice(index, 1);
+            for (const other of definitions) {
+              other.transitions = other.transitions.filter((t) => t !== definition.id);
+              if (other.rolloverTo === definition.id) delete other.rolloverTo;
+            }
+            await this.plugin.saveSettings();
+            this.display();
+          })
       );
 
-    new Setting(containerEl)
-      .setName('Area blacklist')
-      .setDesc('Comma-separated list of areas to exclude from focus stats')
+    new Setting(statusEl)
+      .setName('Can move to')
+      .setDesc('Comma-separated statuses a task can move to from this one. Leave empty to allow any.')
+      .setClass('timegrain-setting-indent')
       .addText((text) =>
         text
-          .setPlaceholder('archive, templates')
-          .setValue(this.plugin.settings.areaBlacklist.join(', '))
+          .setPlaceholder('any status')
+          .setValue(definition.transitions.join(', '))
           .onChange(async (value) => {
-            this.plugin.settings.areaBlacklist = value
+            definition.transitions = value
               .split(',')
-              .map((s) => s.trim().toLowerCase())
-              .filter((s) => s.length > 0);
+              .map(normalizeStatus)
+              .filter((s) => s.length > 0 && s !== definition.id);
             await this.plugin.saveSettings();
           })
       );
+
+    new Setting(statusEl)
+      .setName('Roll over to')
+      .setDesc('With "Rollover stale tasks" on, tasks left in this status since a previous day move here')
+      .setClass('timegrain-setting-indent')
+      .addDropdown((dropdown) => {
+        dropdown.addOption('', 'Stay');
+        definitions
+          .filter((d) => d !== definition)
+          .forEach((d) => dropdown.addOption(d.id, d.label || d.id));
+        dropdown.setValue(definition.rolloverTo || '').onChange(async (value) => {
+          if (value) definition.rolloverTo = value;
+          else delete definition.rolloverTo;
+          await this.plugin.saveSettings();
+        });
+      });
+  }
+
+  private displayAutomationRule(containerEl: HTMLElement, rule: AutomationRule, index: number): void {
+    const ruleEl = containerEl.createDiv('timegrain-automation-rule');
+
+    new Setting(ruleEl)
+      .setName(`Rule ${index + 1}`)
+      .addToggle((toggle) =>
+        toggle
+          .setTooltip('Enabled')
+          .setValue(rule.enabled)
+          .onChange(async (value) => {
+            rule.enabled = value;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addDropdown((dropdown) => {
+        for (const event of AUTOMATION_EVENTS) {
+          dropdown.addOption(event, AUTOMATION_EVENT_LABELS[event]);
+        }
+        dropdown.setValue(rule.event).onChange(async (value) => {
+          rule.event = value as AutomationEvent;
+          await this.plugin.saveSettings();
+        });
+      })
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('command', 'Run command')
+          .addOption('template', 'Insert template')
+          .setValue(rule.action)
+          .onChange(async (value) => {
+            rule.action = value as AutomationActionType;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('trash')
+          .setTooltip('Delete rule')
+          .onClick(async () => {
+            this.plugin.settings.automationRules.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (rule.action === 'command') {
+      new Setting(ruleEl)
+        .setName('Command id')
+        .setDesc('e.g. "daily-notes" or "editor:save-file"')
+        .setClass('timegrain-setting-indent')
+        .addText((text) =>
+          text
+            .setPlaceholder('plugin-id:command-id')
+            .setValue(rule.commandId)
+            .onChange(async (value) => {
+              rule.commandId = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+      return;
+    }
+
+    new Setting(ruleEl)
+      .setName('Template')
+      .setDesc('Path to the template note')
+      .setClass('timegrain-setting-indent')
+      .addText((text) =>
+        text
+          .setPlaceholder('templates/session-log.md')
+          .setValue(rule.templatePath)
+          .onChange(async (value) => {
+            rule.templatePath = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(ruleEl)
+      .setName('Insert into')
+      .setClass('timegrain-setting-indent')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('task-note', 'Task note')
+          .addOption('note', 'Another note')
+          .setValue(rule.templateTarget)
+          .onChange(async (value) => {
+            rule.templateTarget = value as AutomationTemplateTarget;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (rule.templateTarget === 'note') {
+      new Setting(ruleEl)
+        .setName('Note path')
+        .setDesc('Created if missing, otherwise appended to. Can use {{date}} and {{task}}.')
+        .setClass('timegrain-setting-indent')
+        .addText((text) =>
+          text
+            .setPlaceholder('Timegrain/{{date}}.md')
+            .setValue(rule.notePath)
+            .onChange(async (value) => {
+              rule.notePath = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
   }
 }
@@ -5,17 +5,30 @@ import type TimegrainPlugin from './main';
 // Task Types
 // ============================================================================
 
-export type TaskStatus =
-  | 'today'
-  | 'in progress'
-  | 'this week'
-  | 'this month'
-  | 'backlog'
-  | 'not started'
-  | 'done'
-  | 'archived'
-  | 'on hold'
-  | 'needs review';
+/**
+ * Task status as written in frontmatter, lowercase
+ * The statuses and what they mean are defined in settings (see TaskStatusDefinition).
+ */
+export type TaskStatus = string;
+
+/**
+ * What a status means to Timegrain
+ * - active: being worked on now; listed in the timer view, and "Plan your day" moves tasks
+ *   into the first active status
+ * - planned: waiting to be picked; offered when planning the day
+ * - parked: on hold, blocked or waiting on someone
+ * - done: finished; hidden from task search unless completed tasks are shown
+ */
+export type TaskStatusGroup = 'active' | 'planned' | 'parked' | 'done';
+
+export interface TaskStatusDefinition {
+  id: TaskStatus;
+  label: string;
+  color: string; // Hex color of badges
+  group: TaskStatusGroup;
+  transitions: TaskStatus[]; // Statuses a task can move to from this one, empty for any
+  rolloverTo?: TaskStatus; // Where tasks left in this status since a previous day move
+}
 
 /**
  * Task frontmatter structure
@@ -37,8 +50,8 @@ export interface TaskFrontmatter {
   'due to'?: string;
   due_to?: string;
   tags?: string | string[];
-  'depends on'?: string;
-  depends_on?: string;
+  'depends on'?: string | string[];
+  depends_on?: string | string[];
   goal?: string;
 }
 
@@ -57,10 +70,26 @@ export interface Task {
   category: string;
   scope: string;
   tags: string[];
+  dependsOn: string[]; // Link targets from "depends on", as written
+  blocked: boolean; // Whether any dependency isn't done
+  blockedBy: string[]; // Paths of dependencies that aren't done
   modificationDate: number;
   file: TFile;
 }
 
+/**
+ * Fields for creating a task note
+ */
+export interface NewTaskFields {
+  title: string;
+  status: TaskStatus;
+  estimation: number;
+  expectedEnergy: number; // 0 for any
+  category: string;
+  scope: string;
+  tags: string[];
+}
+
 export interface TaskMetadataOptions {
   categories: string[];
   scopes: string[];
@@ -71,9 +100,44 @@ export interface TaskMetadataOptions {
 // Session Types
 // ============================================================================
 
-export type SessionAction = 'complete' | 'pause';
+/**
+ * How a session file was closed
+ * - switch: the work block continued on another task
+ */
+export type SessionAction = 'complete' | 'pause' | 'switch';
 export type SessionStatus = 'completed' | 'paused' | 'abandoned';
 
+/**
+ * Session kind - work sessions omit the field, breaks are tagged explicitly
+ */
+export type SessionKind = 'work' | 'break';
+export type BreakType = 'short' | 'long';
+
+/**
+ * Pomodoro Technique interruption kinds
+ * - internal: your own distraction (an urge to check something)
+ * - external: someone or something else (a call, a colleague)
+ */
+export type InterruptionType = 'internal' | 'external';
+
+/**
+ * Interruption as stored in session frontmatter
+ */
+export interface SessionInterruption {
+  time: string;
+  type: InterruptionType;
+  note?: string;
+}
+
+/**
+ * Processed interruption
+ */
+export interface Interruption {
+  time: Date;
+  type: InterruptionType;
+  note?: string;
+}
+
 /**
  * Feeling options (Garmin-style)
  */
@@ -96,6 +160,34 @@ export interface SessionFrontmatter {
   status?: SessionStatus;
   abandoned?: boolean;
   resumed?: boolean;
+  kind?: SessionKind;
+  break_type?: BreakType;
+  target_minutes?: number;
+  target_action?: TargetExpiryAction;
+  overtime_minutes?: number;
+  block_id?: string;
+  interruptions?: SessionInterruption[];
+  manual?: boolean;
+  grain_minutes?: number; // Grain length the session was recorded with
+  task_path?: string | null; // Path of the task note, kept current when it's renamed
+  imported_from?: string; // Vault file the session was imported from
+}
+
+/**
+ * A session kept in a monthly archive note: its original frontmatter plus where it came from
+ */
+export interface ArchivedSessionEntry extends SessionFrontmatter {
+  file: string; // Path of the original session file
+}
+
+/**
+ * Monthly archive note frontmatter
+ */
+export interface SessionArchiveFrontmatter {
+  [key: string]: unknown;
+  archive_month: string; // YYYY-MM
+  session_count: number;
+  sessions: ArchivedSessionEntry[];
 }
 
 /**
@@ -107,6 +199,7 @@ export interface Session {
   ended?: Date;
   taskName: string;
   taskLink: string;
+  taskPath?: string; // Recorded task note path; may be stale, see SessionRepository.resolveTaskPath
   energyLevel?: number;
   feeling?: Feeling;
   perceivedEffort?: number;
@@ -115,10 +208,21 @@ export interface Session {
   durationMs?: number;
   durationMinutes?: number;
   pomodoros?: number;
+  grainMs: number; // Recorded grain length, or the one in effect when the session started
+  blockOffsetMs?: number; // Work time in earlier sessions of the same block, scaled to this session's grain length
   action?: SessionAction;
   status?: SessionStatus;
   abandoned?: boolean;
   resumed?: boolean;
+  kind: SessionKind;
+  breakType?: BreakType;
+  targetMinutes?: number;
+  overtimeMinutes?: number;
+  blockId?: string;
+  interruptions: Interruption[];
+  manual?: boolean;
+  archived?: boolean; // Read from a monthly archive note, which `file` then points to
+  originalPath?: string; // Path of the session file before it was archived
   file: TFile;
 }
 
@@ -141,8 +245,56 @@ export interface ActiveSession {
 
 export type TimerState = 'idle' | 'running' | 'paused' | 'completed';
 
+/**
+ * What the timer is currently measuring
+ */
+export type TimerMode = 'work' | 'break';
+
+/**
+ * What happens when a grain completes
+ * - off: keep working, no break prompt
+ * - offer: ask whether to take a break
+ * - auto: close the work session and start the break immediately
+ */
+export type BreakBehavior = 'off' | 'offer' | 'auto';
+
+/**
+ * What to do with time the user was away, decided when they come back
+ * - keep: count the away time as work
+ * - discard: trim the session to when activity stopped
+ * - break: trim the session and log the gap as a break
+ */
+export type IdleResolution = 'keep' | 'discard' | 'break';
+
+/**
+ * What happens when a target-duration session runs out
+ */
+export type TargetExpiryAction = 'complete' | 'pause' | 'overtime';
+
+/**
+ * Saved target option shown when starting a session (e.g. "45m" or "2 grains")
+ */
+export interface TargetPreset {
+  amount: number;
+  unit: 'minutes' | 'grains';
+  onExpiry: TargetExpiryAction;
+}
+
+/**
+ * Resolved target for a work block
+ */
+export interface SessionTarget {
+  durationMs: number;
+  onExpiry: TargetExpiryAction;
+}
+
 export interface TimerStatus {
   state: TimerState;
+  mode: TimerMode;
+  breakType: BreakType | null;
+  remainingSeconds: number | null;
+  targetSeconds: number | null;
+  overtimeSeconds: number;
   taskName: string | null;
   taskPath: string | null;
   sessionFilePath: string | null;
@@ -150,6 +302,112 @@ export interface TimerStatus {
   accumulatedMs: number;
   elapsedSeconds: number;
   currentPomodoro: number;
+  interruptions: number;
+}
+
+/**
+ * Timer state saved to plugin data as `_timerState` and restored on load
+ */
+export interface PersistedTimerState {
+  isActive: boolean;
+  state: TimerState;
+  mode: TimerMode;
+  breakType: BreakType | null;
+  breakDurationMs: number;
+  target: SessionTarget | null;
+  targetReached: boolean;
+  blockId: string | null;
+  taskName: string | null;
+  taskPath: string | null;
+  sessionFilePath: string | null;
+  startTime: number | null;
+  accumulatedMs: number;
+  lastPomodoroNotified: number;
+  grainsSinceLongBreak: number;
+  interruptionCount: number;
+}
+
+// ============================================================================
+// Notification Types
+// ============================================================================
+
+/**
+ * Moments the plugin can notify about
+ * - longSession: the work block has been running past the configured length
+ */
+export type NotificationEvent = 'grainComplete' | 'breakOver' | 'dailyGoal' | 'longSession';
+
+/**
+ * Built-in synthesized tones, 'file' for an audio file from the vault, or 'none'
+ */
+export type NotificationSound = 'none' | 'beep' | 'chime' | 'bell' | 'digital' | 'file';
+
+/**
+ * How one event is announced (an in-app notice is always shown)
+ */
+export interface NotificationChannel {
+  sound: NotificationSound;
+  soundFile: string; // Vault path, used when sound is 'file'
+  volume: number; // 0-100
+  desktop: boolean; // System notification popup
+}
+
+// ============================================================================
+// Automation Types
+// ============================================================================
+
+/**
+ * Timer events automation rules can react to
+ */
+export type AutomationEvent =
+  | 'timer-start'
+  | 'timer-pause'
+  | 'timer-resume'
+  | 'timer-switch'
+  | 'timer-complete'
+  | 'timer-cancel'
+  | 'pomodoro-complete'
+  | 'break-start'
+  | 'break-complete'
+  | 'target-reached'
+  | 'interruption';
+
+/**
+ * What a rule does
+ * - command: run an Obsidian command by id
+ * - template: render a template note and add it to the task note or another note
+ */
+export type AutomationActionType = 'command' | 'template';
+
+/**
+ * Where a rendered template goes
+ * - task-note: appended to the current task's note
+ * - note: appended to the note at notePath, created if missing
+ */
+export type AutomationTemplateTarget = 'task-note' | 'note';
+
+export interface AutomationRule {
+  id: string;
+  enabled: boolean;
+  event: AutomationEvent;
+  action: AutomationActionType;
+  commandId: string;
+  templatePath: string;
+  templateTarget: AutomationTemplateTarget;
+  notePath: string; // May contain {{date}}, {{task}} etc.
+}
+
+/**
+ * Values available to templates and note paths as {{name}}
+ */
+export interface AutomationContext {
+  event: AutomationEvent;
+  task: string;
+  taskPath: string;
+  date: string;
+  time: string;
+  elapsed: string;
+  [key: string]: string;
 }
 
 // ============================================================================
@@ -175,6 +433,7 @@ export interface EnergyInsights {
 export interface SessionStats {
   actualPoms: number;
   totalMinutes: number;
+  interruptions: number;
   sessions: Session[];
 }
 
@@ -208,17 +467,68 @@ export interface ProcessedData {
 // Settings Types
 // ============================================================================
 
+/**
+ * How session files are arranged inside the sessions directory
+ * - flat: all files directly in the directory
+ * - year: one subfolder per year (timer_sessions/2024/)
+ * - year-month: nested year and month subfolders (timer_sessions/2024/01/)
+ */
+export type SessionFolderLayout = 'flat' | 'year' | 'year-month';
+
+/**
+ * A grain length change, so sessions without a recorded length can use the one in effect at the time
+ */
+export interface GrainLengthChange {
+  since: string; // ISO datetime, or empty for "since the beginning"
+  seconds: number;
+}
+
 export interface TimegrainSettings {
   // Paths
   timerSessionsDir: string;
+  sessionFolderLayout: SessionFolderLayout;
   defaultTaskDirectory: string;
+  exportDirectory: string;
+  archiveAfterMonths: number; // Sessions older than this are rolled into monthly archive notes
+
+  // Task discovery
+  taskFolders: string[]; // Globs of folders holding task notes
+  taskProperty: string; // "key: value" or "key" marking a note as a task, empty for none
+  taskTag: string; // Tag marking a note as a task, empty for none
+  taskInclude: string[]; // Globs of notes that are always tasks
+  taskExclude: string[]; // Globs of notes and folders that are never tasks
 
   // Timer
   cycleSeconds: number;
-  playSound: boolean;
+  grainLengthHistory: GrainLengthChange[];
+  playSound: boolean; // Master switch for notification sounds
+
+  // Breaks
+  breakBehavior: BreakBehavior;
+  shortBreakSeconds: number;
+  longBreakSeconds: number;
+  longBreakInterval: number;
+
+  // Targets
+  targetPresets: TargetPreset[];
+
+  // Idle detection
+  idleDetection: boolean;
+  idleThresholdSeconds: number;
+
+  // Notifications
+  notifications: Record<NotificationEvent, NotificationChannel>;
+  longSessionMinutes: number; // 0 disables the long-running session notification
+  quietHoursEnabled: boolean;
+  quietHoursStart: string; // HH:MM
+  quietHoursEnd: string; // HH:MM
+
+  // Automation
+  automationRules: AutomationRule[];
 
   // Goals
   dailyGoalPoms: number;
+  dayStartTime: string; // HH:MM - sessions before this count toward the previous day
 
   // Energy
   energyHighThreshold: number;
@@ -230,8 +540,7 @@ export interface TimegrainSettings {
 
   // Behavior
   rolloverStaleTasks: boolean;
-  taskStatuses: TaskStatus[];
-  completedStatuses: TaskStatus[];
+  taskStatusDefinitions: TaskStatusDefinition[];
   areaBlacklist: string[];
 }
 
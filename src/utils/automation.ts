@@ -0,0 +1,73 @@
+import type { AutomationContext, AutomationEvent, AutomationRule } from '../types';
+
+/**
+ * Events offered in the automation settings, with their labels
+ */
+export const AUTOMATION_EVENT_LABELS: Record<AutomationEvent, string> = {
+  'timer-start': 'Timer started',
+  'timer-pause': 'Timer paused',
+  'timer-resume': 'Timer resumed',
+  'timer-switch': 'Task switched',
+  'timer-complete': 'Session completed',
+  'timer-cancel': 'Session cancelled',
+  'pomodoro-complete': 'Grain completed',
+  'break-start': 'Break started',
+  'break-complete': 'Break ended',
+  'target-reached': 'Target reached',
+  'interruption': 'Interruption logged',
+};
+
+export const AUTOMATION_EVENTS = Object.keys(AUTOMATION_EVENT_LABELS) as AutomationEvent[];
+
+/**
+ * A new rule - it won't run until it has a command or template
+ */
+export function createAutomationRule(event: AutomationEvent = 'timer-complete'): AutomationRule {
+  return {
+    id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    enabled: true,
+    event,
+    action: 'command',
+    commandId: '',
+    templatePath: '',
+    templateTarget: 'task-note',
+    notePath: 'Timegrain/{{date}}.md',
+  };
+}
+
+/**
+ * Enabled rules for an event that have what they need to run
+ */
+export function getRulesForEvent(rules: AutomationRule[], event: AutomationEvent): AutomationRule[] {
+  return rules.filter((rule) => {
+    if (!rule.enabled || rule.event !== event) return false;
+    if (rule.action === 'command') return rule.commandId.trim() !== '';
+    if (!rule.templatePath.trim()) return false;
+    return rule.templateTarget === 'task-note' || rule.notePath.trim() !== '';
+  });
+}
+
+/**
+ * Replace {{name}} placeholders with context values; unknown names are left as they are
+ */
+export function renderTemplate(template: string, context: AutomationContext): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in context ? context[name] : match
+  );
+}
+
+/**
+ * Render a note path, keeping characters Obsidian can't use in file names out of it
+ */
+export function renderNotePath(pattern: string, context: AutomationContext): string {
+  const safe: AutomationContext = { ...context };
+  for (const key of Object.keys(safe)) {
+    safe[key] = safe[key].replace(/[\\/:*?"<>|#^[\]]/g, '-');
+  }
+
+  let path = renderTemplate(pattern.trim(), safe).replace(/^\/+/, '');
+  if (!path.endsWith('.md')) {
+    path = `${path}.md`;
+  }
+  return path;
+}
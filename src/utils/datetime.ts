@@ -104,6 +104,64 @@ export function formatTaskDateTime(date: Date): string {
   return `${year}-${month}-${day} ${hour}:${minute}`;
 }
 
+/**
+ * Format time for <input type="time"> (HH:MM)
+ */
+export function formatTimeInput(date: Date): string {
+  const hour = String(date.getHours()).padStart(2, '0');
+  const minute = String(date.getMinutes()).padStart(2, '0');
+  return `${hour}:${minute}`;
+}
+
+/**
+ * Combine a YYYY-MM-DD date and HH:MM time into a local Date
+ * Returns null when either part is malformed
+ */
+export function combineDateAndTime(date: string, time: string): Date | null {
+  const dateMatch = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const timeMatch = time.match(/^(\d{2}):(\d{2})$/);
+  if (!dateMatch || !timeMatch) return null;
+
+  return new Date(
+    parseInt(dateMatch[1], 10),
+    parseInt(dateMatch[2], 10) - 1,
+    parseInt(dateMatch[3], 10),
+    parseInt(timeMatch[1], 10),
+    parseInt(timeMatch[2], 10)
+  );
+}
+
+/**
+ * Combine a date with start and end times, as typed into a single-day form
+ * The date is the start's; an end time earlier than the start ran past midnight.
+ * Returns null when any part is malformed
+ */
+export function combineDateAndTimeRange(
+  date: string,
+  startTime: string,
+  endTime: string
+): { start: Date; end: Date } | null {
+  const start = combineDateAndTime(date, startTime);
+  const end = combineDateAndTime(date, endTime);
+  if (!start || !end) return null;
+
+  return { start, end: end < start ? addDays(end, 1) : end };
+}
+
+/**
+ * Parse "HH:MM" into minutes since midnight, or null if invalid
+ */
+export function parseClockTime(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
 /**
  * Format session filename (YYYYMMDD-HHMM)
  */
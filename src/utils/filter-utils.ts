@@ -3,6 +3,10 @@
  * Apple/Bauhaus style filter chips, toggles, and selects
  */
 
+import type { TaskStatus, TaskStatusDefinition } from '../types';
+import { getStatusColor, getStatusLabel } from './task-status';
+import { formatBlockedBy } from './task-dependencies';
+
 export type RefreshCallback = () => void;
 
 /**
@@ -118,3 +122,28 @@ export function createDotSeparator(parent: HTMLElement): HTMLElement {
 export function createSpacer(parent: HTMLElement): HTMLElement {
   return parent.createEl('div', { cls: 'timegrain-filter-spacer' });
 }
+
+/**
+ * Create a status badge in its status color
+ */
+export function createStatusBadge(
+  parent: HTMLElement,
+  definitions: TaskStatusDefinition[],
+  status: TaskStatus
+): HTMLElement {
+  const badge = parent.createEl('span', {
+    text: getStatusLabel(definitions, status),
+    cls: 'timegrain-status-badge',
+  });
+  badge.style.setProperty('--timegrain-status-color', getStatusColor(definitions, status));
+  return badge;
+}
+
+/**
+ * Create a badge for a task waiting on unfinished dependencies, listing them on hover
+ */
+export function createBlockedBadge(parent: HTMLElement, blockedBy: string[]): HTMLElement {
+  const badge = parent.createEl('span', { text: 'blocked', cls: 'timegrain-blocked-badge' });
+  badge.setAttribute('title', formatBlockedBy(blockedBy));
+  return badge;
+}
@@ -49,8 +49,8 @@ export function formatDurationHuman(ms: number): string {
  * Calculate number of completed pomodoros from milliseconds
  * Uses floor to match timer-service behavior (only count fully completed poms)
  */
-export function calculatePomodoros(durationMs: number): number {
-  return Math.floor(durationMs / POMODORO_DURATION_MS);
+export function calculatePomodoros(durationMs: number, grainMs: number = POMODORO_DURATION_MS): number {
+  return Math.floor(durationMs / grainMs);
 }
 
 /**
@@ -168,19 +168,30 @@ export function slugify(text: string): string {
 
 /**
  * Extract task name from wikilink format
- * "[[Task Name]]" -> "Task Name"
+ * "[[Task Name]]" -> "Task Name", "[[area/tasks/Task Name|Task Name]]" -> "Task Name"
  */
 export function extractTaskName(taskField: string): string {
   if (taskField.startsWith('[[') && taskField.endsWith(']]')) {
-    return taskField.slice(2, -2);
+    const inner = taskField.slice(2, -2);
+    const aliasIndex = inner.indexOf('|');
+    return aliasIndex >= 0 ? inner.slice(aliasIndex + 1) : inner;
   }
   return taskField;
 }
 
 /**
- * Create wikilink format
- * "Task Name" -> "[[Task Name]]"
+ * Extract the link path from wikilink format, without alias or heading
+ * "[[area/tasks/Task Name|Task Name]]" -> "area/tasks/Task Name"
  */
-export function createWikilink(taskName: string): string {
-  return `[[${taskName}]]`;
+export function extractLinkPath(taskField: string): string {
+  const inner = taskField.startsWith('[[') && taskField.endsWith(']]') ? taskField.slice(2, -2) : taskField;
+  return inner.split('|')[0].split('#')[0];
+}
+
+/**
+ * Create wikilink format, aliased to the task name when the link needs a folder
+ * "Task Name" -> "[[Task Name]]", ("Task Name", "area/tasks/Task Name") -> "[[area/tasks/Task Name|Task Name]]"
+ */
+export function createWikilink(taskName: string, linkPath: string = taskName): string {
+  return linkPath === taskName ? `[[${taskName}]]` : `[[${linkPath}|${taskName}]]`;
 }
@@ -0,0 +1,42 @@
+import type { GrainLengthChange } from '../types';
+import { formatDateTimeISO, parseDateTime } from './datetime';
+import { MINUTE_MS } from '../constants';
+
+/**
+ * Grain length (seconds) in effect at a moment, from the recorded history
+ * Moments before the first recorded change use `fallbackSeconds`
+ */
+export function getGrainSecondsAt(
+  history: GrainLengthChange[],
+  at: Date,
+  fallbackSeconds: number
+): number {
+  let seconds = fallbackSeconds;
+  for (const change of history) {
+    if (change.since && parseDateTime(change.since) > at) break;
+    seconds = change.seconds;
+  }
+  return seconds;
+}
+
+/**
+ * Record a change of grain length
+ * The first change also records the previous length as in effect since the beginning.
+ * Changes less than a minute apart (e.g. dragging the slider) replace each other.
+ */
+export function recordGrainLengthChange(
+  history: GrainLengthChange[],
+  previousSeconds: number,
+  seconds: number,
+  at: Date = new Date()
+): GrainLengthChange[] {
+  const next = history.length > 0 ? [...history] : [{ since: '', seconds: previousSeconds }];
+
+  const last = next[next.length - 1];
+  if (last.since && at.getTime() - parseDateTime(last.since).getTime() < MINUTE_MS) {
+    next.pop();
+  }
+
+  next.push({ since: formatDateTimeISO(at), seconds });
+  return next;
+}
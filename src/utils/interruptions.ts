@@ -0,0 +1,80 @@
+import type { Interruption, InterruptionType, Session } from '../types';
+import { parseDateTime } from './datetime';
+
+const INTERRUPTION_TYPES: InterruptionType[] = ['internal', 'external'];
+
+/**
+ * Parse the interruptions list from session frontmatter
+ * Entries without a valid time are skipped; unknown types count as external
+ */
+export function parseInterruptions(value: unknown): Interruption[] {
+  if (!Array.isArray(value)) return [];
+
+  const interruptions: Interruption[] = [];
+  for (const raw of value) {
+    if (!raw || typeof raw !== 'object') continue;
+    const entry = raw as Record<string, unknown>;
+
+    let time: Date;
+    try {
+      time = parseDateTime(entry.time);
+    } catch {
+      continue;
+    }
+
+    const type = INTERRUPTION_TYPES.includes(entry.type as InterruptionType)
+      ? (entry.type as InterruptionType)
+      : 'external';
+
+    interruptions.push({
+      time,
+      type,
+      note: entry.note ? String(entry.note) : undefined,
+    });
+  }
+
+  return interruptions;
+}
+
+/**
+ * Interruptions of a session, limited to [start, end) when a range is given
+ * Sessions crossing the day boundary carry interruptions from both days.
+ */
+function getInterruptionsWithin(session: Session, start?: Date, end?: Date): Interruption[] {
+  if (!start || !end) return session.interruptions;
+  return session.interruptions.filter((i) => i.time >= start && i.time < end);
+}
+
+/**
+ * Count interruptions per task, optionally only those within [start, end)
+ * Tasks are keyed by name unless getKey says otherwise (e.g. the resolved task path).
+ */
+export function countInterruptionsByTask(
+  sessions: Session[],
+  getKey: (session: Session) => string = (session) => session.taskName,
+  start?: Date,
+  end?: Date
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const session of sessions) {
+    if (session.kind === 'break') continue;
+    const count = getInterruptionsWithin(session, start, end).length;
+    if (count === 0) continue;
+    const key = getKey(session);
+    counts[key] = (counts[key] || 0) + count;
+  }
+  return counts;
+}
+
+/**
+ * Count interruptions per hour of day (index 0-23), optionally only those within [start, end)
+ */
+export function countInterruptionsByHour(sessions: Session[], start?: Date, end?: Date): number[] {
+  const counts = new Array<number>(24).fill(0);
+  for (const session of sessions) {
+    for (const interruption of getInterruptionsWithin(session, start, end)) {
+      counts[interruption.time.getHours()]++;
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,87 @@
+import type { NotificationChannel, NotificationEvent, NotificationSound } from '../types';
+import { parseClockTime } from './datetime';
+
+/**
+ * Notification events in settings order, with their labels
+ */
+export const NOTIFICATION_EVENTS: { event: NotificationEvent; name: string; desc: string }[] = [
+  { event: 'grainComplete', name: 'Grain complete', desc: 'A grain finishes or a session target is reached' },
+  { event: 'breakOver', name: 'Break over', desc: 'A break timer runs out' },
+  { event: 'dailyGoal', name: 'Daily goal reached', desc: 'Today\'s grains reach the daily goal' },
+  { event: 'longSession', name: 'Long-running session', desc: 'A work block runs past the long session length' },
+];
+
+export const NOTIFICATION_SOUND_LABELS: Record<NotificationSound, string> = {
+  none: 'No sound',
+  beep: 'Beep',
+  chime: 'Chime',
+  bell: 'Bell',
+  digital: 'Digital',
+  file: 'Audio file from vault',
+};
+
+/**
+ * One note of a synthesized tone, timed in seconds from the start
+ */
+export interface ToneNote {
+  frequency: number;
+  start: number;
+  duration: number;
+  wave: OscillatorType;
+}
+
+export type SynthesizedSound = Exclude<NotificationSound, 'none' | 'file'>;
+
+export const TONES: Record<SynthesizedSound, ToneNote[]> = {
+  beep: [{ frequency: 800, start: 0, duration: 0.5, wave: 'sine' }],
+  chime: [
+    { frequency: 660, start: 0, duration: 0.4, wave: 'sine' },
+    { frequency: 880, start: 0.2, duration: 0.6, wave: 'sine' },
+  ],
+  bell: [
+    { frequency: 523, start: 0, duration: 1.5, wave: 'triangle' },
+    { frequency: 1046, start: 0, duration: 0.8, wave: 'sine' },
+  ],
+  digital: [
+    { frequency: 1200, start: 0, duration: 0.08, wave: 'square' },
+    { frequency: 1200, start: 0.15, duration: 0.08, wave: 'square' },
+    { frequency: 1200, start: 0.3, duration: 0.08, wave: 'square' },
+  ],
+};
+
+/**
+ * Total length of a tone in seconds
+ */
+export function getToneDuration(notes: ToneNote[]): number {
+  return notes.reduce((max, note) => Math.max(max, note.start + note.duration), 0);
+}
+
+/**
+ * Whether a time falls inside quiet hours [start, end)
+ * The window may wrap past midnight (e.g. 22:00-07:00); equal or invalid bounds mean no quiet hours
+ */
+export function isWithinQuietHours(now: Date, start: string, end: string): boolean {
+  const startMin = parseClockTime(start);
+  const endMin = parseClockTime(end);
+  if (startMin === null || endMin === null || startMin === endMin) return false;
+
+  const nowMin = now.getHours() * 60 + now.getMinutes();
+  if (startMin < endMin) {
+    return nowMin >= startMin && nowMin < endMin;
+  }
+  return nowMin >= startMin || nowMin < endMin;
+}
+
+/**
+ * Fill in events and fields missing from saved settings (e.g. after an update adds an event)
+ */
+export function mergeNotificationChannels(
+  defaults: Record<NotificationEvent, NotificationChannel>,
+  saved: Partial<Record<NotificationEvent, Partial<NotificationChannel>>> | undefined
+): Record<NotificationEvent, NotificationChannel> {
+  const merged = {} as Record<NotificationEvent, NotificationChannel>;
+  for (const event of Object.keys(defaults) as NotificationEvent[]) {
+    merged[event] = { ...defaults[event], ...(saved?.[event] || {}) };
+  }
+  return merged;
+}
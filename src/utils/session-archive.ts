@@ -0,0 +1,107 @@
+import type { ArchivedSessionEntry, SessionFrontmatter } from '../types';
+import { parseDateTime } from './datetime';
+import { extractTaskName, formatDurationHuman } from './formatters';
+import { SESSION_ARCHIVE_FOLDER } from '../constants';
+
+/**
+ * Sessions that started before this are old enough to archive: the first day of the
+ * month `months` before the current one, so only whole months are rolled up
+ */
+export function getArchiveCutoff(today: Date, months: number): Date {
+  return new Date(today.getFullYear(), today.getMonth() - months, 1);
+}
+
+/**
+ * Month (YYYY-MM) a session is archived under, by its local start date
+ */
+export function getArchiveMonth(date: Date): string {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Path of the archive note for a month
+ */
+export function getArchivePath(baseDir: string, month: string): string {
+  return `${baseDir}/${SESSION_ARCHIVE_FOLDER}/${month}.md`;
+}
+
+/**
+ * Archive entry for a session file, keeping its frontmatter as is
+ * The grain length is recorded if the file didn't have it, since it can't be backfilled later.
+ */
+export function toArchiveEntry(
+  frontmatter: SessionFrontmatter,
+  filePath: string,
+  grainMinutes: number
+): ArchivedSessionEntry {
+  return {
+    file: filePath,
+    ...frontmatter,
+    ...(frontmatter.kind !== 'break' && frontmatter.grain_minutes == null ? { grain_minutes: grainMinutes } : {}),
+  };
+}
+
+/**
+ * Entries of an archive note after adding newly archived ones, oldest first
+ * A session archived again (e.g. after an interrupted run) replaces its earlier entry.
+ */
+export function mergeArchiveEntries(
+  existing: ArchivedSessionEntry[],
+  added: ArchivedSessionEntry[]
+): ArchivedSessionEntry[] {
+  const byFile = new Map<string, ArchivedSessionEntry>();
+  for (const entry of [...existing, ...added]) {
+    byFile.set(entry.file, entry);
+  }
+  return Array.from(byFile.values()).sort((a, b) => startedAt(a) - startedAt(b));
+}
+
+function startedAt(entry: ArchivedSessionEntry): number {
+  try {
+    return parseDateTime(entry.started).getTime() || 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Readable body of an archive note: a table of the month's sessions with the total work time
+ */
+export function formatArchiveTable(month: string, entries: ArchivedSessionEntry[]): string {
+  const readable = (value: unknown) => (value ? String(value).slice(0, 16).replace('T', ' ') : '');
+  const cell = (value: string) => value.replace(/\|/g, '\\|');
+
+  const lines = [
+    `# Sessions ${month}`,
+    '',
+    '| Start | End | Task | Duration | Feeling |',
+    '| --- | --- | --- | --- | --- |',
+  ];
+
+  let totalMs = 0;
+  for (const entry of entries) {
+    let durationMs = 0;
+    try {
+      durationMs = entry.ended ? parseDateTime(entry.ended).getTime() - parseDateTime(entry.started).getTime() : 0;
+    } catch {
+      // Unreadable times show without a duration
+    }
+    if (isNaN(durationMs)) durationMs = 0;
+
+    const isBreak = entry.kind === 'break';
+    if (!isBreak && !entry.abandoned) totalMs += durationMs;
+
+    const task = isBreak ? 'Break' : extractTaskName(String(entry.task || ''));
+    const cells = [
+      readable(entry.started),
+      readable(entry.ended),
+      entry.abandoned ? `${task} (abandoned)` : task,
+      formatDurationHuman(durationMs),
+      entry.feeling || '',
+    ];
+    lines.push(`| ${cells.map(cell).join(' | ')} |`);
+  }
+
+  lines.push(`| **Total** | | | ${formatDurationHuman(totalMs)} | |`);
+  return lines.join('\n') + '\n';
+}
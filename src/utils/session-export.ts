@@ -0,0 +1,249 @@
+import type { Session, Task, TaskStatus } from '../types';
+import { formatDateTimeISO } from './datetime';
+import { formatDurationHuman } from './formatters';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'ics';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  markdown: 'Markdown table',
+  ics: 'iCalendar (.ics)',
+};
+
+export const EXPORT_FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  markdown: 'md',
+  ics: 'ics',
+};
+
+/**
+ * One exported work session
+ */
+export interface SessionExportRow {
+  task: string;
+  area: string;
+  category: string;
+  start: string; // ISO datetime
+  end: string;
+  durationMinutes: number;
+  grains: number;
+  feeling: string;
+  effort: number | null;
+}
+
+/**
+ * Which tasks' sessions to export - empty lists mean all
+ */
+export interface SessionExportFilter {
+  areas: string[];
+  statuses: TaskStatus[];
+}
+
+/**
+ * A finished work session picked for export, with its task note if found
+ */
+export interface ExportedSession {
+  session: Session & { ended: Date };
+  task: Task | undefined;
+}
+
+/**
+ * Finished work sessions matching the filter, oldest first
+ * Sessions whose task note isn't found have no area or status, so they're left out
+ * whenever a filter is set.
+ */
+export function selectExportSessions(
+  sessions: Session[],
+  getTask: (session: Session) => Task | undefined,
+  filter: SessionExportFilter
+): ExportedSession[] {
+  const selected: ExportedSession[] = [];
+
+  for (const session of sessions) {
+    if (!session.ended || session.abandoned || session.kind === 'break') continue;
+
+    const task = getTask(session);
+    if (filter.areas.length > 0 && !(task && filter.areas.includes(task.area))) continue;
+    if (filter.statuses.length > 0 && !(task && filter.statuses.includes(task.status))) continue;
+
+    selected.push({ session: { ...session, ended: session.ended }, task });
+  }
+
+  return selected.sort((a, b) => a.session.started.getTime() - b.session.started.getTime());
+}
+
+/**
+ * Rows for finished work sessions, oldest first
+ */
+export function buildExportRows(
+  sessions: Session[],
+  getTask: (session: Session) => Task | undefined,
+  filter: SessionExportFilter
+): SessionExportRow[] {
+  return selectExportSessions(sessions, getTask, filter).map(({ session, task }) => ({
+    task: task?.title || session.taskName,
+    area: task?.area || '',
+    category: task?.category || '',
+    start: formatDateTimeISO(session.started),
+    end: formatDateTimeISO(session.ended),
+    durationMinutes: session.durationMinutes || 0,
+    grains: session.pomodoros || 0,
+    feeling: session.feeling || '',
+    effort: session.perceivedEffort ?? null,
+  }));
+}
+
+/**
+ * Render rows in an export format
+ */
+export function formatSessionExport(rows: SessionExportRow[], format: Exclude<ExportFormat, 'ics'>): string {
+  switch (format) {
+    case 'csv':
+      return formatCsv(rows);
+    case 'json':
+      return JSON.stringify(rows, null, 2) + '\n';
+    case 'markdown':
+      return formatMarkdownTable(rows);
+  }
+}
+
+const CSV_COLUMNS: [string, (row: SessionExportRow) => string | number | null][] = [
+  ['task', (r) => r.task],
+  ['area', (r) => r.area],
+  ['category', (r) => r.category],
+  ['start', (r) => r.start],
+  ['end', (r) => r.end],
+  ['duration_minutes', (r) => r.durationMinutes],
+  ['grains', (r) => r.grains],
+  ['feeling', (r) => r.feeling],
+  ['effort', (r) => r.effort],
+];
+
+function formatCsv(rows: SessionExportRow[]): string {
+  const lines = [CSV_COLUMNS.map(([name]) => name).join(',')];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map(([, value]) => escapeCsv(value(row))).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function escapeCsv(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Markdown table with readable times and a total row
+ */
+function formatMarkdownTable(rows: SessionExportRow[]): string {
+  const readable = (iso: string) => iso.slice(0, 16).replace('T', ' ');
+  const cell = (value: string | number | null) =>
+    value === null ? '' : String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+  const lines = [
+    '| Task | Area | Category | Start | End | Duration | Grains | Feeling | Effort |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- | --- |',
+  ];
+  for (const row of rows) {
+    const cells = [
+      row.task,
+      row.area,
+      row.category,
+      readable(row.start),
+      readable(row.end),
+      formatDurationHuman(row.durationMinutes * 60 * 1000),
+      row.grains,
+      row.feeling,
+      row.effort,
+    ];
+    lines.push(`| ${cells.map(cell).join(' | ')} |`);
+  }
+
+  const totalMinutes = rows.reduce((sum, r) => sum + r.durationMinutes, 0);
+  const totalGrains = rows.reduce((sum, r) => sum + r.grains, 0);
+  lines.push(`| **Total** | | | | | ${formatDurationHuman(totalMinutes * 60 * 1000)} | ${totalGrains} | | |`);
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// iCalendar
+// ============================================================================
+
+/**
+ * An iCalendar (RFC 5545) file with one event per session
+ * Event UIDs come from the session file path (its original path once archived), so importing
+ * a later export of the same range into a calendar updates its events instead of adding them again.
+ */
+export function formatSessionCalendar(selected: ExportedSession[], now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Timegrain//Sessions//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:Timegrain sessions',
+  ];
+
+  for (const { session, task } of selected) {
+    const description = [
+      task?.area ? `Area: ${task.area}` : '',
+      session.feeling ? `Feeling: ${session.feeling}` : '',
+    ].filter(Boolean);
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${sessionUid(session.originalPath || session.filePath)}`,
+      `DTSTAMP:${formatIcsDate(now)}`,
+      `DTSTART:${formatIcsDate(session.started)}`,
+      `DTEND:${formatIcsDate(session.ended)}`,
+      `SUMMARY:${escapeIcsText(task?.title || session.taskName)}`,
+      ...(description.length > 0 ? [`DESCRIPTION:${escapeIcsText(description.join('\n'))}`] : []),
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+function sessionUid(filePath: string): string {
+  return `${encodeURIComponent(filePath.replace(/\.md$/, ''))}@timegrain`;
+}
+
+/**
+ * UTC date-time, e.g. 20240115T090000Z
+ */
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}/, '').replace(/[-:]/g, '');
+}
+
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/[;,]/g, '\\$&').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split lines longer than 75 bytes, continuing on lines that start with a space
+ */
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
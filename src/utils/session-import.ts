@@ -0,0 +1,306 @@
+import type { Session, Task } from '../types';
+import { parseDateTime } from './datetime';
+import { slugify } from './formatters';
+import { HOUR_MS, MINUTE_MS } from '../constants';
+
+export type ImportFileFormat = 'csv' | 'json';
+
+/**
+ * Rows of an import file, keyed by column name
+ */
+export interface ImportTable {
+  columns: string[];
+  records: Record<string, string>[];
+}
+
+export type DurationUnit = 'minutes' | 'hours' | 'seconds';
+
+/**
+ * Which columns hold which session field - empty for unused
+ * Start and end may be split over a date and a time column (as in Toggl and Clockify exports).
+ * Without an end, the duration column gives the length.
+ */
+export interface ImportColumnMapping {
+  task: string;
+  start: string;
+  startTime: string;
+  end: string;
+  endTime: string;
+  duration: string;
+  durationUnit: DurationUnit;
+}
+
+/**
+ * A session read from an import file
+ */
+export interface ImportEntry {
+  row: number; // 1-based, not counting the header
+  taskName: string;
+  start: Date;
+  end: Date;
+  duplicate?: string; // Why it won't be imported, if it's a duplicate
+}
+
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+// ============================================================================
+// Reading Files
+// ============================================================================
+
+/**
+ * Parse CSV text into rows of fields
+ * Handles quoted fields with embedded commas, quotes and line breaks. Semicolon-separated
+ * files are detected from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const headerLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = !headerLine.includes(',') && headerLine.includes(';') ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+/**
+ * Read an import file into a table
+ * JSON files hold an array of objects, or an object with such an array (e.g. {"entries": [...]}).
+ */
+export function parseImportTable(text: string, format: ImportFileFormat): ImportTable {
+  if (format === 'csv') {
+    const [header = [], ...rows] = parseCsv(text);
+    const columns = header.map((c) => c.trim());
+    const records = rows.map((fields) =>
+      Object.fromEntries(columns.map((column, i) => [column, (fields[i] ?? '').trim()]))
+    );
+    return { columns, records };
+  }
+
+  const data: unknown = JSON.parse(text);
+  const items = Array.isArray(data)
+    ? data
+    : Object.values((data as Record<string, unknown>) ?? {}).find(Array.isArray) ?? [];
+
+  const columns: string[] = [];
+  const records = (items as unknown[])
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map((item) => {
+      const record: Record<string, string> = {};
+      for (const [key, value] of Object.entries(item)) {
+        if (value === null || typeof value === 'object') continue;
+        if (!columns.includes(key)) columns.push(key);
+        record[key] = String(value).trim();
+      }
+      return record;
+    });
+  return { columns, records };
+}
+
+// ============================================================================
+// Column Mapping
+// ============================================================================
+
+const COLUMN_NAMES: Record<'task' | 'start' | 'startTime' | 'end' | 'endTime' | 'duration', string[]> = {
+  task: ['task', 'description', 'title', 'name', 'activity', 'project'],
+  start: ['start', 'start date', 'started', 'start_time', 'start time', 'begin', 'date'],
+  startTime: ['start time'],
+  end: ['end', 'end date', 'stop', 'ended', 'end_time', 'end time'],
+  endTime: ['end time'],
+  duration: ['duration', 'duration (decimal)', 'duration (h)', 'duration_minutes', 'minutes', 'length'],
+};
+
+/**
+ * Guess the mapping from common column names, ignoring case
+ */
+export function guessColumnMapping(columns: string[]): ImportColumnMapping {
+  const find = (names: string[], exclude: string[] = []) => {
+    for (const name of names) {
+      const column = columns.find((c) => c.toLowerCase() === name && !exclude.includes(c));
+      if (column) return column;
+    }
+    return '';
+  };
+
+  const start = find(COLUMN_NAMES.start);
+  const end = find(COLUMN_NAMES.end);
+  const duration = find(COLUMN_NAMES.duration);
+  const unit = duration.toLowerCase();
+
+  return {
+    task: find(COLUMN_NAMES.task),
+    start,
+    startTime: find(COLUMN_NAMES.startTime, [start]),
+    end,
+    endTime: find(COLUMN_NAMES.endTime, [end]),
+    duration,
+    durationUnit: unit.includes('decimal') || unit.includes('(h)') ? 'hours' : 'minutes',
+  };
+}
+
+// ============================================================================
+// Building Entries
+// ============================================================================
+
+/**
+ * Parse a date and time from an import file
+ * Accepts the formats session files use, plus anything Date can parse (e.g. ISO with a time zone)
+ */
+export function parseImportDate(value: string): Date | null {
+  if (!value.trim()) return null;
+
+  try {
+    const date = parseDateTime(value);
+    if (!isNaN(date.getTime())) return date;
+  } catch {
+    // Fall through to the built-in parser
+  }
+
+  const timestamp = Date.parse(value);
+  return isNaN(timestamp) ? null : new Date(timestamp);
+}
+
+/**
+ * Parse a duration in milliseconds - "h:mm:ss", "h:mm", or a number in the given unit
+ */
+export function parseImportDuration(value: string, unit: DurationUnit): number | null {
+  const clock = value.trim().match(/^(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+  if (clock) {
+    const [, hours, minutes, seconds = '0'] = clock;
+    return Number(hours) * HOUR_MS + Number(minutes) * MINUTE_MS + Number(seconds) * 1000;
+  }
+
+  const amount = Number(value.trim().replace(',', '.'));
+  if (!value.trim() || isNaN(amount)) return null;
+
+  const unitMs = unit === 'hours' ? HOUR_MS : unit === 'seconds' ? 1000 : MINUTE_MS;
+  return Math.round(amount * unitMs);
+}
+
+/**
+ * Turn records into sessions, collecting rows that can't be read
+ */
+export function buildImportEntries(
+  records: Record<string, string>[],
+  mapping: ImportColumnMapping
+): { entries: ImportEntry[]; errors: ImportRowError[] } {
+  const entries: ImportEntry[] = [];
+  const errors: ImportRowError[] = [];
+  const field = (record: Record<string, string>, column: string) => (column ? record[column] ?? '' : '');
+  const join = (date: string, time: string) => (time ? `${date} ${time}` : date);
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const fail = (message: string) => errors.push({ row, message });
+
+    const taskName = field(record, mapping.task).trim();
+    if (!taskName) return fail('No task');
+
+    const startDate = field(record, mapping.start);
+    const start = parseImportDate(join(startDate, field(record, mapping.startTime)));
+    if (!start) return fail(`Can't read start "${join(startDate, field(record, mapping.startTime))}"`);
+
+    let end: Date | null = null;
+    const endTime = field(record, mapping.endTime);
+    if (field(record, mapping.end) || endTime) {
+      // An end time without its own date is on the start's date, or the next day if earlier
+      const endText = join(field(record, mapping.end) || startDate, endTime);
+      end = parseImportDate(endText);
+      if (!end) return fail(`Can't read end "${endText}"`);
+      if (!field(record, mapping.end) && end <= start) {
+        end = new Date(end.getTime() + 24 * HOUR_MS);
+      }
+    } else if (field(record, mapping.duration)) {
+      const durationMs = parseImportDuration(field(record, mapping.duration), mapping.durationUnit);
+      if (durationMs === null) return fail(`Can't read duration "${field(record, mapping.duration)}"`);
+      end = new Date(start.getTime() + durationMs);
+    } else {
+      return fail('No end or duration');
+    }
+
+    if (end <= start) return fail('Ends before it starts');
+    entries.push({ row, taskName, start, end });
+  });
+
+  return { entries, errors };
+}
+
+// ============================================================================
+// Duplicates and Tasks
+// ============================================================================
+
+/**
+ * Flag entries that match an existing session, or an earlier row of the same file
+ * Times within a minute count as the same, since trackers round differently.
+ */
+export function flagDuplicates(entries: ImportEntry[], existing: Session[]): ImportEntry[] {
+  const sameTimes = (a: { start: Date; end: Date }, b: { start: Date; end: Date }) =>
+    Math.abs(a.start.getTime() - b.start.getTime()) <= MINUTE_MS &&
+    Math.abs(a.end.getTime() - b.end.getTime()) <= MINUTE_MS;
+  const sessions = existing.filter((s) => s.ended && !s.abandoned && s.kind !== 'break');
+
+  const flagged: ImportEntry[] = [];
+  for (const entry of entries) {
+    const session = sessions.find((s) => s.ended && sameTimes(entry, { start: s.started, end: s.ended }));
+    const earlier = flagged.find((e) => !e.duplicate && e.taskName === entry.taskName && sameTimes(entry, e));
+
+    flagged.push({
+      ...entry,
+      duplicate: session
+        ? `Already recorded in ${session.filePath}`
+        : earlier
+          ? `Same as row ${earlier.row}`
+          : undefined,
+    });
+  }
+  return flagged;
+}
+
+/**
+ * Find the task note an imported task name refers to, by title, file name or slug
+ */
+export function matchTask(taskName: string, tasks: Task[]): Task | undefined {
+  const name = taskName.toLowerCase();
+  const slug = slugify(taskName);
+  return (
+    tasks.find((t) => t.title.toLowerCase() === name) ||
+    tasks.find((t) => t.name.toLowerCase() === name) ||
+    tasks.find((t) => t.name === slug)
+  );
+}
@@ -0,0 +1,123 @@
+import type { Session } from '../types';
+import { formatTimeOfDay, formatShortDate } from './formatters';
+
+/**
+ * Kinds of problems found in session files
+ * - unparseable: the start or end time can't be read, so the file is left out of every stat
+ * - ended-before-started: the end time comes before the start time
+ * - overlap: the session runs into the next one
+ * - duplicate: same times, task and kind as another file (usually a sync conflict copy)
+ * - missing-task: the task link points at a note that doesn't exist
+ */
+export type SessionIssueKind =
+  | 'unparseable'
+  | 'ended-before-started'
+  | 'overlap'
+  | 'duplicate'
+  | 'missing-task';
+
+/**
+ * A problem with one session file
+ */
+export interface SessionIssue {
+  kind: SessionIssueKind;
+  filePath: string;
+  session?: Session; // Missing for files that can't be parsed
+  other?: Session; // The session it overlaps or duplicates
+  detail: string;
+}
+
+type FinishedSession = Session & { ended: Date };
+
+/**
+ * Find problems among parsed sessions
+ * Abandoned and unfinished sessions are left alone. Duplicates aren't also reported as
+ * overlapping the session they copy.
+ */
+export function findSessionIssues(
+  sessions: Session[],
+  taskExists: (session: Session) => boolean
+): SessionIssue[] {
+  const issues: SessionIssue[] = [];
+  // Among copies, the shortest name is taken as the original ("x.md" over "x 1.md")
+  const finished = sessions
+    .filter((s): s is FinishedSession => !!s.ended && !s.abandoned)
+    .sort(
+      (a, b) =>
+        a.started.getTime() - b.started.getTime() ||
+        a.filePath.length - b.filePath.length ||
+        a.filePath.localeCompare(b.filePath)
+    );
+
+  const valid: FinishedSession[] = [];
+  for (const session of finished) {
+    if (session.ended < session.started) {
+      issues.push({
+        kind: 'ended-before-started',
+        filePath: session.filePath,
+        session,
+        detail: `Ends ${formatMoment(session.ended)}, before it starts ${formatMoment(session.started)}`,
+      });
+    } else {
+      valid.push(session);
+    }
+  }
+
+  const originals = new Map<string, FinishedSession>();
+  const distinct: FinishedSession[] = [];
+  for (const session of valid) {
+    const key = [session.started.getTime(), session.ended.getTime(), session.taskName, session.kind].join('|');
+    const original = originals.get(key);
+    if (original) {
+      issues.push({
+        kind: 'duplicate',
+        filePath: session.filePath,
+        session,
+        other: original,
+        detail: `Same times and task as ${original.file.basename}`,
+      });
+    } else {
+      originals.set(key, session);
+      distinct.push(session);
+    }
+  }
+
+  // Compare each session with the one reaching furthest so far, so nested sessions are caught too
+  let latest: FinishedSession | null = null;
+  for (const session of distinct) {
+    if (latest && session.started < latest.ended) {
+      issues.push({
+        kind: 'overlap',
+        filePath: latest.filePath,
+        session: latest,
+        other: session,
+        detail: `Runs until ${formatTimeOfDay(latest.ended)}, into ${describe(session)} from ${formatTimeOfDay(session.started)}`,
+      });
+    }
+    if (!latest || session.ended > latest.ended) {
+      latest = session;
+    }
+  }
+
+  for (const session of sessions) {
+    if (session.abandoned || session.kind === 'break' || !session.taskName) continue;
+    if (!taskExists(session)) {
+      issues.push({
+        kind: 'missing-task',
+        filePath: session.filePath,
+        session,
+        detail: `Task note "${session.taskName}" doesn't exist`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function formatMoment(date: Date): string {
+  return `${formatShortDate(date)} ${formatTimeOfDay(date)}`;
+}
+
+function describe(session: Session): string {
+  return session.kind === 'break' ? 'a break' : `"${session.taskName}"`;
+}
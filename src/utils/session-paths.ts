@@ -0,0 +1,59 @@
+import type { SessionFolderLayout } from '../types';
+
+/**
+ * Folder a session started at `date` belongs in
+ */
+export function getSessionFolder(baseDir: string, layout: SessionFolderLayout, date: Date): string {
+  const year = date.getFullYear().toString();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+
+  switch (layout) {
+    case 'year':
+      return `${baseDir}/${year}`;
+    case 'year-month':
+      return `${baseDir}/${year}/${month}`;
+    default:
+      return baseDir;
+  }
+}
+
+/**
+ * A planned session file move
+ */
+export interface SessionMove {
+  from: string;
+  to: string;
+}
+
+/**
+ * Plan moves that put each session into its layout folder
+ * Files already in place are left alone; name clashes get a numeric suffix
+ */
+export function planSessionMoves(
+  sessions: { path: string; started: Date }[],
+  baseDir: string,
+  layout: SessionFolderLayout,
+  exists: (path: string) => boolean
+): SessionMove[] {
+  const moves: SessionMove[] = [];
+  const planned = new Set<string>();
+
+  for (const { path, started } of sessions) {
+    const folder = getSessionFolder(baseDir, layout, started);
+    const filename = path.split('/').pop() || path;
+    if (path === `${folder}/${filename}`) continue;
+
+    const basename = filename.replace(/\.md$/, '');
+    let target = `${folder}/${basename}.md`;
+    let suffix = 2;
+    while (exists(target) || planned.has(target)) {
+      target = `${folder}/${basename}-${suffix}.md`;
+      suffix++;
+    }
+
+    planned.add(target);
+    moves.push({ from: path, to: target });
+  }
+
+  return moves;
+}
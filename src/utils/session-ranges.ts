@@ -0,0 +1,91 @@
+import type { Session } from '../types';
+import type { DayBoundaryService } from '../services/day-boundary-service';
+import { addDays, formatDateOnly } from './datetime';
+
+/**
+ * End of a session's time range - unfinished sessions run until now
+ */
+export function getSessionEnd(session: Session, now: Date = new Date()): Date {
+  return session.ended || now;
+}
+
+/**
+ * Sessions whose time range overlaps [start, end)
+ * Abandoned sessions are ignored since they don't count as time spent
+ */
+export function findOverlappingSessions(
+  sessions: Session[],
+  start: Date,
+  end: Date,
+  now: Date = new Date()
+): Session[] {
+  return sessions.filter(
+    (s) =>
+      !s.abandoned &&
+      s.started.getTime() < end.getTime() &&
+      getSessionEnd(s, now).getTime() > start.getTime()
+  );
+}
+
+/**
+ * Milliseconds of a session that fall inside [start, end)
+ */
+export function getOverlapMs(session: Session, start: Date, end: Date, now: Date = new Date()): number {
+  const from = Math.max(session.started.getTime(), start.getTime());
+  const to = Math.min(getSessionEnd(session, now).getTime(), end.getTime());
+  return Math.max(to - from, 0);
+}
+
+/**
+ * Grains of a finished session that fill up inside [start, end)
+ * Grains are counted on the work block's running time, so a grain started before a pause
+ * completes in the session after it. Counts across adjacent ranges add up to the session's total.
+ */
+export function countGrainsInRange(session: Session, start: Date, end: Date): number {
+  if (!session.ended) return 0;
+
+  const started = session.started.getTime();
+  const duration = session.ended.getTime() - started;
+  const offset = session.blockOffsetMs || 0;
+  const workedAt = (time: Date) => offset + Math.min(Math.max(time.getTime() - started, 0), duration);
+
+  return (
+    Math.floor(workedAt(end) / session.grainMs) - Math.floor(workedAt(start) / session.grainMs)
+  );
+}
+
+/**
+ * The part of a session that falls on one day
+ */
+export interface SessionDayShare {
+  dayKey: string; // YYYY-MM-DD
+  durationMs: number;
+  grains: number;
+}
+
+/**
+ * Split a session across the days it covers, e.g. 23:30-01:00 gives 30 minutes to
+ * the first day and an hour to the next
+ */
+export function splitSessionByDay(
+  session: Session,
+  days: DayBoundaryService,
+  now: Date = new Date()
+): SessionDayShare[] {
+  const end = getSessionEnd(session, now);
+  const shares: SessionDayShare[] = [];
+
+  let day = days.getDay(session.started);
+  for (;;) {
+    const bounds = days.getDayBounds(day);
+    shares.push({
+      dayKey: formatDateOnly(day),
+      durationMs: getOverlapMs(session, bounds.start, bounds.end, now),
+      grains: countGrainsInRange(session, bounds.start, bounds.end),
+    });
+    if (bounds.end >= end) break;
+    day = addDays(day, 1);
+  }
+
+  return shares;
+}
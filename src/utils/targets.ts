@@ -0,0 +1,66 @@
+import type { TargetPreset, TargetExpiryAction, SessionTarget } from '../types';
+
+const EXPIRY_ACTIONS: TargetExpiryAction[] = ['complete', 'pause', 'overtime'];
+
+/**
+ * Parse target presets from settings text
+ *
+ * Format: comma-separated `<amount><unit>[:<action>]`
+ * - unit: `m` (minutes) or `g` (grains)
+ * - action: `complete`, `pause` or `overtime` (default)
+ *
+ * e.g. "45m:overtime, 2g:complete, 90m:pause"
+ * Invalid entries are skipped
+ */
+export function parseTargetPresets(value: string): TargetPreset[] {
+  const presets: TargetPreset[] = [];
+
+  for (const raw of value.split(',')) {
+    const match = raw.trim().toLowerCase().match(/^(\d+)\s*(m|g)(?:\s*:\s*(\w+))?$/);
+    if (!match) continue;
+
+    const amount = parseInt(match[1], 10);
+    if (amount <= 0) continue;
+
+    const action = (match[3] || 'overtime') as TargetExpiryAction;
+    if (!EXPIRY_ACTIONS.includes(action)) continue;
+
+    presets.push({
+      amount,
+      unit: match[2] === 'g' ? 'grains' : 'minutes',
+      onExpiry: action,
+    });
+  }
+
+  return presets;
+}
+
+/**
+ * Format target presets back to settings text
+ */
+export function formatTargetPresets(presets: TargetPreset[]): string {
+  return presets
+    .map((p) => `${p.amount}${p.unit === 'grains' ? 'g' : 'm'}:${p.onExpiry}`)
+    .join(', ');
+}
+
+/**
+ * Short label for a preset chip (e.g. "45m", "2 grains")
+ */
+export function formatTargetPresetLabel(preset: TargetPreset): string {
+  if (preset.unit === 'grains') {
+    return preset.amount === 1 ? '1 grain' : `${preset.amount} grains`;
+  }
+  return `${preset.amount}m`;
+}
+
+/**
+ * Resolve a preset into a concrete target using the current grain length
+ */
+export function resolveTarget(preset: TargetPreset, cycleSeconds: number): SessionTarget {
+  const unitMs = preset.unit === 'grains' ? cycleSeconds * 1000 : 60 * 1000;
+  return {
+    durationMs: preset.amount * unitMs,
+    onExpiry: preset.onExpiry,
+  };
+}
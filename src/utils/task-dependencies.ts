@@ -0,0 +1,91 @@
+/**
+ * Task dependencies from the "depends on" property
+ * Dependencies are link targets as written ("Setup database", "work/tasks/Setup database");
+ * the repository resolves them to task paths, giving a graph of task path -> dependency paths.
+ */
+export type DependencyGraph = Map<string, string[]>;
+
+/**
+ * Link targets from a "depends on" value
+ * Takes wikilinks ("[[Setup database]]", "[[tasks/Setup database|Setup]]"), lists of
+ * them, or plain comma-separated names. Headings, aliases and ".md" are dropped.
+ */
+export function parseDependencies(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  const targets: string[] = [];
+
+  for (const item of values) {
+    if (typeof item !== 'string') continue;
+
+    const links = Array.from(item.matchAll(/\[\[([^\]]*)\]\]/g), (m) => m[1]);
+    const raw = links.length > 0 ? links : item.split(',');
+    for (const link of raw) {
+      const target = link.split('|')[0].split('#')[0].trim().replace(/\.md$/i, '');
+      if (target && !targets.includes(target)) targets.push(target);
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Dependencies of each task that aren't done yet
+ * Only tasks with at least one open dependency are included.
+ */
+export function findBlockingDependencies(
+  graph: DependencyGraph,
+  isOpen: (path: string) => boolean
+): Map<string, string[]> {
+  const blocking = new Map<string, string[]>();
+  for (const [path, dependencies] of graph) {
+    const open = dependencies.filter((dependency) => dependency !== path && isOpen(dependency));
+    if (open.length > 0) blocking.set(path, open);
+  }
+  return blocking;
+}
+
+/**
+ * Cycles in the dependency graph, each as the paths along it starting from its first path
+ * in sort order, e.g. ["a.md", "b.md"] for a -> b -> a. A task depending on itself is a
+ * cycle of one.
+ */
+export function findDependencyCycles(graph: DependencyGraph): string[][] {
+  const cycles = new Map<string, string[]>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (path: string) => {
+    state.set(path, 'visiting');
+    stack.push(path);
+
+    for (const dependency of graph.get(path) || []) {
+      if (!graph.has(dependency)) continue;
+
+      if (state.get(dependency) === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(dependency));
+        const first = cycle.indexOf([...cycle].sort()[0]);
+        const rotated = [...cycle.slice(first), ...cycle.slice(0, first)];
+        cycles.set(rotated.join('\n'), rotated);
+      } else if (!state.has(dependency)) {
+        visit(dependency);
+      }
+    }
+
+    stack.pop();
+    state.set(path, 'done');
+  };
+
+  for (const path of [...graph.keys()].sort()) {
+    if (!state.has(path)) visit(path);
+  }
+
+  return Array.from(cycles.values());
+}
+
+/**
+ * Hover text for a blocked task, naming the tasks it waits on
+ */
+export function formatBlockedBy(blockedBy: string[]): string {
+  const names = blockedBy.map((path) => path.split('/').pop()?.replace(/\.md$/, '') || path);
+  return `Waiting on ${names.join(', ')}`;
+}
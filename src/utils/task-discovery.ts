@@ -0,0 +1,170 @@
+/**
+ * Which notes count as tasks
+ * A note is a task when it sits in a task folder, carries the task property or tag, or
+ * matches an include glob - unless it matches an exclude glob, is hidden, or lives in
+ * the sessions directory. Globs are matched against the note path and each of its
+ * folders, ignoring case: `*` stays within a folder name, `**` spans folders.
+ */
+export interface TaskDiscoveryRules {
+  folders: string[]; // Globs of folders holding tasks, e.g. "**/tasks" or "Projects/*/Todo"
+  property: string; // "key: value" or just "key" marking a note as a task, empty for none
+  tag: string; // Tag marking a note as a task (nested tags count), empty for none
+  include: string[];
+  exclude: string[];
+  sessionsDir: string;
+}
+
+/**
+ * What discovery needs to know about a note besides its path
+ */
+export interface TaskNoteMetadata {
+  frontmatter?: Record<string, unknown>;
+  tags: string[]; // With or without the leading #
+}
+
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Compile a glob into a case-insensitive regular expression for whole paths
+ */
+export function globToRegExp(glob: string): RegExp {
+  const cached = globCache.get(glob);
+  if (cached) return cached;
+
+  const normalized = glob.trim().replace(/^\/+|\/+$/g, '');
+  let source = '';
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === '*' && normalized[i + 1] === '*') {
+      const before = i === 0 || normalized[i - 1] === '/';
+      const after = normalized[i + 2] === '/';
+      if (before && after) {
+        source += '(?:.*/)?'; // "**/" also matches no folders at all
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`, 'i');
+  globCache.set(glob, regex);
+  return regex;
+}
+
+/**
+ * Folders of a path from the top down, e.g. "a/b/c.md" -> ["a", "a/b"]
+ */
+function getFolders(path: string): string[] {
+  const parts = path.split('/').slice(0, -1);
+  return parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+}
+
+function matchesAny(globs: string[], path: string): boolean {
+  const candidates = [path, ...getFolders(path)];
+  return globs.some((glob) => glob.trim() && candidates.some((c) => globToRegExp(glob).test(c)));
+}
+
+/**
+ * The outermost task folder a note is in, or null
+ */
+export function findTaskFolder(path: string, rules: TaskDiscoveryRules): string | null {
+  const globs = rules.folders.filter((g) => g.trim());
+  return getFolders(path).find((folder) => globs.some((glob) => globToRegExp(glob).test(folder))) ?? null;
+}
+
+/**
+ * Whether a note can never be a task, whatever its metadata
+ */
+export function isExcludedFromTasks(path: string, rules: TaskDiscoveryRules): boolean {
+  const sessionsDir = rules.sessionsDir.replace(/\/+$/, '').toLowerCase();
+  if (sessionsDir && (path.toLowerCase() + '/').startsWith(`${sessionsDir}/`)) {
+    return true;
+  }
+  if (path.split('/').some((part) => part.startsWith('.'))) {
+    return true;
+  }
+  return matchesAny(rules.exclude, path);
+}
+
+/**
+ * Whether the property and tag rules need a note's metadata to decide
+ */
+export function needsTaskMetadata(rules: TaskDiscoveryRules): boolean {
+  return !!rules.property.trim() || !!rules.tag.trim();
+}
+
+/**
+ * Whether a note is a task
+ * Without metadata only the path-based rules are checked.
+ */
+export function isTaskNote(path: string, rules: TaskDiscoveryRules, metadata?: TaskNoteMetadata): boolean {
+  if (!path.endsWith('.md') || isExcludedFromTasks(path, rules)) {
+    return false;
+  }
+  if (findTaskFolder(path, rules) !== null || matchesAny(rules.include, path)) {
+    return true;
+  }
+  if (!metadata) return false;
+
+  return hasTaskProperty(metadata.frontmatter, rules.property) || hasTaskTag(metadata.tags, rules.tag);
+}
+
+/**
+ * Split a property rule into key and value ("type: task" -> ["type", "task"])
+ */
+export function parsePropertyRule(rule: string): { key: string; value: string | null } | null {
+  const separator = rule.indexOf(':');
+  const key = (separator >= 0 ? rule.slice(0, separator) : rule).trim();
+  if (!key) return null;
+
+  const value = separator >= 0 ? rule.slice(separator + 1).trim() : '';
+  return { key, value: value || null };
+}
+
+function hasTaskProperty(frontmatter: Record<string, unknown> | undefined, rule: string): boolean {
+  const property = parsePropertyRule(rule);
+  if (!property || !frontmatter) return false;
+
+  const actual = frontmatter[property.key];
+  if (property.value === null) {
+    return actual !== undefined && actual !== null && actual !== false && actual !== '';
+  }
+
+  const expected = property.value.toLowerCase();
+  const values = Array.isArray(actual) ? actual : [actual];
+  return values.some((v) => v !== null && v !== undefined && String(v).toLowerCase() === expected);
+}
+
+function hasTaskTag(tags: string[], rule: string): boolean {
+  const tag = normalizeTag(rule);
+  if (!tag) return false;
+
+  return tags.some((t) => {
+    const normalized = normalizeTag(t);
+    return normalized === tag || normalized.startsWith(`${tag}/`);
+  });
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * Folder name a task's area comes from: the one holding its task folder, or for tasks
+ * found by property, tag or include glob, the one holding the note. Null at the vault root.
+ */
+export function getAreaFolderName(path: string, rules: TaskDiscoveryRules): string | null {
+  const taskFolder = findTaskFolder(path, rules);
+  const parts = (taskFolder ?? path.split('/').slice(0, -1).join('/')).split('/').filter(Boolean);
+
+  const areaIndex = taskFolder ? parts.length - 2 : parts.length - 1;
+  return areaIndex >= 0 ? parts[areaIndex] : null;
+}
@@ -0,0 +1,159 @@
+import type { TaskStatus, TaskStatusDefinition, TaskStatusGroup } from '../types';
+
+/**
+ * Groups a status can belong to, with their labels
+ */
+export const TASK_STATUS_GROUP_LABELS: Record<TaskStatusGroup, string> = {
+  active: 'Active',
+  planned: 'Planned',
+  parked: 'Parked',
+  done: 'Done',
+};
+
+/** Color of statuses that aren't defined in settings */
+const UNDEFINED_STATUS_COLOR = '#9ca3af';
+
+/**
+ * Statuses Timegrain started with; the order is the order shown in lists
+ */
+export const DEFAULT_TASK_STATUSES: TaskStatusDefinition[] = [
+  { id: 'today', label: 'Today', color: '#4ade80', group: 'active', transitions: [], rolloverTo: 'this week' },
+  { id: 'in progress', label: 'In Progress', color: '#7f6df2', group: 'active', transitions: [] },
+  { id: 'this week', label: 'This Week', color: '#60a5fa', group: 'planned', transitions: [] },
+  { id: 'this month', label: 'This Month', color: '#a78bfa', group: 'planned', transitions: [] },
+  { id: 'backlog', label: 'Backlog', color: '#fb923c', group: 'planned', transitions: [] },
+  { id: 'not started', label: 'Not Started', color: '#9ca3af', group: 'planned', transitions: [] },
+  { id: 'on hold', label: 'On Hold', color: '#94a3b8', group: 'parked', transitions: [] },
+  { id: 'needs review', label: 'Needs Review', color: '#f472b6', group: 'parked', transitions: [] },
+  { id: 'done', label: 'Done', color: '#22c55e', group: 'done', transitions: [] },
+  { id: 'archived', label: 'Archived', color: '#6b7280', group: 'done', transitions: [] },
+];
+
+/**
+ * Status as it's compared and written to frontmatter: trimmed and lowercase
+ */
+export function normalizeStatus(value: string): TaskStatus {
+  return value.trim().toLowerCase();
+}
+
+export function getStatusDefinition(
+  definitions: TaskStatusDefinition[],
+  status: TaskStatus
+): TaskStatusDefinition | undefined {
+  return definitions.find((d) => d.id === status);
+}
+
+/**
+ * Statuses in any of the groups, in definition order
+ */
+export function getStatusesInGroup(definitions: TaskStatusDefinition[], ...groups: TaskStatusGroup[]): TaskStatus[] {
+  return definitions.filter((d) => groups.includes(d.group)).map((d) => d.id);
+}
+
+export function isDoneStatus(definitions: TaskStatusDefinition[], status: TaskStatus): boolean {
+  return getStatusDefinition(definitions, status)?.group === 'done';
+}
+
+/**
+ * Label to show for a status; statuses not defined in settings show as written
+ */
+export function getStatusLabel(definitions: TaskStatusDefinition[], status: TaskStatus): string {
+  return getStatusDefinition(definitions, status)?.label || status;
+}
+
+export function getStatusColor(definitions: TaskStatusDefinition[], status: TaskStatus): string {
+  return getStatusDefinition(definitions, status)?.color || UNDEFINED_STATUS_COLOR;
+}
+
+/**
+ * Whether a task can move from one status to another
+ * Statuses without transitions, and statuses not defined in settings, can move anywhere.
+ */
+export function canTransition(definitions: TaskStatusDefinition[], from: TaskStatus, to: TaskStatus): boolean {
+  if (from === to) return true;
+  const definition = getStatusDefinition(definitions, from);
+  return !definition || definition.transitions.length === 0 || definition.transitions.includes(to);
+}
+
+/**
+ * Statuses a task in `from` can move to, in definition order
+ */
+export function getNextStatuses(definitions: TaskStatusDefinition[], from: TaskStatus): TaskStatusDefinition[] {
+  return definitions.filter((d) => d.id !== from && canTransition(definitions, from, d.id));
+}
+
+/**
+ * Status "Plan your day" moves tasks into: the first active one
+ */
+export function getPlanTargetStatus(definitions: TaskStatusDefinition[]): TaskStatus | null {
+  return getStatusesInGroup(definitions, 'active')[0] ?? null;
+}
+
+/**
+ * A status if it's defined, otherwise the first one in the group
+ */
+export function resolveStatus(
+  definitions: TaskStatusDefinition[],
+  preferred: TaskStatus,
+  group: TaskStatusGroup
+): TaskStatus {
+  if (getStatusDefinition(definitions, preferred)) return preferred;
+  return getStatusesInGroup(definitions, group)[0] ?? preferred;
+}
+
+/**
+ * A new status for the settings list, with an id no other status has
+ */
+export function createStatusDefinition(definitions: TaskStatusDefinition[]): TaskStatusDefinition {
+  let id = 'new status';
+  for (let n = 2; getStatusDefinition(definitions, id); n++) {
+    id = `new status ${n}`;
+  }
+  return { id, label: 'New Status', color: UNDEFINED_STATUS_COLOR, group: 'planned', transitions: [] };
+}
+
+/**
+ * Change a status id, updating the transitions and rollovers that point to it
+ */
+export function renameStatus(definitions: TaskStatusDefinition[], from: TaskStatus, to: TaskStatus): void {
+  for (const definition of definitions) {
+    if (definition.id === from) definition.id = to;
+    definition.transitions = definition.transitions.map((t) => (t === from ? to : t));
+    if (definition.rolloverTo === from) definition.rolloverTo = to;
+  }
+}
+
+/**
+ * Status definitions from saved settings
+ * Settings saved before statuses were configurable had lists of statuses to show in the
+ * timer and to treat as completed; those statuses move to the active and done groups.
+ */
+export function migrateStatusDefinitions(
+  saved: TaskStatusDefinition[] | undefined,
+  legacy: { taskStatuses?: string[]; completedStatuses?: string[] } = {}
+): TaskStatusDefinition[] {
+  if (saved && saved.length > 0) {
+    return saved.map((d) => ({ ...d, transitions: [...(d.transitions || [])] }));
+  }
+
+  const definitions = DEFAULT_TASK_STATUSES.map((d) => ({ ...d, transitions: [...d.transitions] }));
+  if (!legacy.taskStatuses && !legacy.completedStatuses) return definitions;
+
+  const assign = (statuses: string[] | undefined, group: TaskStatusGroup, fallback: TaskStatusGroup) => {
+    if (!statuses) return;
+    const ids = new Set(statuses.map(normalizeStatus).filter(Boolean));
+    for (const definition of definitions) {
+      if (ids.has(definition.id)) definition.group = group;
+      else if (definition.group === group) definition.group = fallback;
+    }
+    for (const id of ids) {
+      if (!getStatusDefinition(definitions, id)) {
+        definitions.push({ ...createStatusDefinition(definitions), id, label: id, group });
+      }
+    }
+  };
+  assign(legacy.taskStatuses, 'active', 'planned');
+  assign(legacy.completedStatuses, 'done', 'parked');
+
+  return definitions;
+}
@@ -2,14 +2,24 @@
  * Mock implementations for Obsidian API used in tests
  */
 
+export interface EventRef {
+  event: string;
+  callback: (...args: unknown[]) => void;
+}
+
 export class Events {
   private callbacks: Map<string, ((...args: unknown[]) => void)[]> = new Map();
 
-  on(event: string, callback: (...args: unknown[]) => void): void {
+  on(event: string, callback: (...args: unknown[]) => void): EventRef {
     if (!this.callbacks.has(event)) {
       this.callbacks.set(event, []);
     }
     this.callbacks.get(event)!.push(callback);
+    return { event, callback };
+  }
+
+  offref(ref: EventRef): void {
+    this.off(ref.event, ref.callback);
   }
 
   off(event: string, callback: (...args: unknown[]) => void): void {
@@ -207,10 +217,16 @@ export class WorkspaceLeaf {
 export class MetadataCache {
   private cache: Map<string, { frontmatter?: Record<string, unknown> }> = new Map();
 
+  private links: Map<string, TFile> = new Map();
+
   getFileCache(file: TFile): { frontmatter?: Record<string, unknown> } | null {
     return this.cache.get(file.path) || null;
   }
 
+  getFirstLinkpathDest(linkpath: string, sourcePath: string): TFile | null {
+    return this.links.get(linkpath) || null;
+  }
+
   on(event: string, callback: (...args: unknown[]) => void): void {}
   off(event: string, callback: (...args: unknown[]) => void): void {}
 
@@ -218,6 +234,10 @@ export class MetadataCache {
   _setCache(path: string, data: { frontmatter?: Record<string, unknown> }): void {
     this.cache.set(path, data);
   }
+
+  _setLink(linkpath: string, file: TFile): void {
+    this.links.set(linkpath, file);
+  }
 }
 
 export class Plugin {
@@ -365,3 +385,8 @@ export function processFrontMatter(
 ): void {
   // No-op for tests
 }
+
+// JSON is valid YAML, which is all tests need
+export function stringifyYaml(obj: unknown): string {
+  return JSON.stringify(obj, null, 2) + '\n';
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { App as ObsidianApp } from 'obsidian';
+import { App, TFile } from './__mocks__/obsidian';
+import {
+  createAutomationRule,
+  getRulesForEvent,
+  renderTemplate,
+  renderNotePath,
+} from '../src/utils/automation';
+import { AutomationService } from '../src/services/automation-service';
+import { TimerService } from '../src/services/timer-service';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import type { SessionRepository } from '../src/data/session-repository';
+import { createMockSessionRepository } from './helpers/mock-session-repository';
+import type { TaskRepository } from '../src/data/task-repository';
+import type { AutomationContext, AutomationRule, TimegrainSettings } from '../src/types';
+
+const context: AutomationContext = {
+  event: 'timer-complete',
+  task: 'Write report',
+  taskPath: 'tasks/Write report.md',
+  date: '2024-01-15',
+  time: '10:30',
+  elapsed: '25m',
+};
+
+function rule(overrides: Partial<AutomationRule>): AutomationRule {
+  return { ...createAutomationRule(), ...overrides };
+}
+
+describe('automation utils', () => {
+  it('renders known placeholders and leaves unknown ones', () => {
+    expect(renderTemplate('- {{time}} {{task}} ({{ elapsed }}) {{unknown}}', context)).toBe(
+      '- 10:30 Write report (25m) {{unknown}}'
+    );
+  });
+
+  it('renders note paths with unsafe characters replaced', () => {
+    expect(renderNotePath('Logs/{{date}} {{time}}', context)).toBe('Logs/2024-01-15 10-30.md');
+    expect(renderNotePath('/{{task}}.md', { ...context, task: 'A/B' })).toBe('A-B.md');
+  });
+
+  it('selects enabled, configured rules for the event', () => {
+    const rules = [
+      rule({ event: 'timer-complete', commandId: 'app:go-back' }),
+      rule({ event: 'timer-complete', commandId: '' }),
+      rule({ event: 'timer-complete', commandId: 'app:go-back', enabled: false }),
+      rule({ event: 'timer-start', commandId: 'app:go-back' }),
+      rule({ event: 'timer-complete', action: 'template', templatePath: 'templates/log.md' }),
+      rule({ event: 'timer-complete', action: 'template', templatePath: 'templates/log.md', templateTarget: 'note', notePath: '' }),
+    ];
+
+    const matching = getRulesForEvent(rules, 'timer-complete');
+    expect(matching).toEqual([rules[0], rules[4]]);
+  });
+});
+
+describe('AutomationService', () => {
+  let app: App & { commands: { commands: Record<string, { name: string }>; executeCommandById: ReturnType<typeof vi.fn> } };
+  let settings: TimegrainSettings;
+  let timer: TimerService;
+  let service: AutomationService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 0, 15, 10, 0));
+
+    app = Object.assign(new App(), {
+      commands: {
+        commands: { 'daily-notes': { name: 'Open today\'s daily note' } } as Record<string, { name: string }>,
+        executeCommandById: vi.fn().mockReturnValue(true),
+      },
+    });
+    settings = { ...DEFAULT_SETTINGS, automationRules: [] };
+
+    const repo = createMockSessionRepository();
+    timer = new TimerService(repo as unknown as SessionRepository, 25 * 60 * 1000);
+    const taskRepository = { findTaskByName: vi.fn().mockReturnValue(null) };
+
+    service = new AutomationService(
+      app as unknown as ObsidianApp,
+      settings,
+      timer,
+      taskRepository as unknown as TaskRepository
+    );
+    service.register();
+  });
+
+  afterEach(() => {
+    service.destroy();
+    vi.useRealTimers();
+  });
+
+  it('runs a command when its event fires', async () => {
+    settings.automationRules.push(rule({ event: 'timer-start', commandId: 'daily-notes' }));
+
+    await timer.start('Write report');
+    await vi.waitFor(() => expect(app.commands.executeCommandById).toHaveBeenCalledWith('daily-notes'));
+  });
+
+  it('appends a rendered template to the task note on complete', async () => {
+    app.vault._setFile('templates/log.md', '- {{time}} worked {{elapsed}} on {{task}}\n');
+    app.vault._setFile('tasks/Write report.md', '# Write report');
+    settings.automationRules.push(
+      rule({ event: 'timer-complete', action: 'template', templatePath: 'templates/log.md' })
+    );
+
+    await timer.start('Write report', 'tasks/Write report.md');
+    vi.advanceTimersByTime(30 * 60 * 1000);
+    timer.tick();
+    await timer.complete();
+
+    await vi.waitFor(() =>
+      expect(app.vault._getFile('tasks/Write report.md')).toBe(
+        '# Write report\n- 10:30 worked 30m on Write report\n'
+      )
+    );
+  });
+
+  it('appends to the task note the session links to, not another with the same name', async () => {
+    app.vault._setFile('templates/log.md', '- worked on {{task}}\n');
+    app.vault._setFile('home/tasks/Review.md', '# Review');
+    app.vault._setFile('work/tasks/Review.md', '# Review');
+    app.metadataCache._setLink('Review', new TFile('work/tasks/Review.md'));
+    settings.automationRules.push(rule({ event: 'timer-start', action: 'template', templatePath: 'templates/log' }));
+
+    await timer.start('Review');
+
+    await vi.waitFor(() => expect(app.vault._getFile('work/tasks/Review.md')).toBe('# Review\n- worked on Review\n'));
+    expect(app.vault._getFile('home/tasks/Review.md')).toBe('# Review');
+  });
+
+  it('creates the target note from a path pattern', async () => {
+    app.vault._setFile('templates/log.md', 'Started {{task}}');
+    settings.automationRules.push(
+      rule({
+        event: 'timer-start',
+        action: 'template',
+        templatePath: 'templates/log',
+        templateTarget: 'note',
+        notePath: 'Logs/{{date}}',
+      })
+    );
+
+    await timer.start('Write report');
+    await vi.waitFor(() => expect(app.vault._getFile('Logs/2024-01-15.md')).toBe('Started Write report'));
+  });
+
+  it('runs rules for events that fire while earlier rules are still running', async () => {
+    app.vault._setFile('templates/log.md', '- {{event}} {{task}}\n');
+    for (const event of ['timer-start', 'timer-pause'] as const) {
+      settings.automationRules.push(
+        rule({ event, action: 'template', templatePath: 'templates/log', templateTarget: 'note', notePath: 'Log' })
+      );
+    }
+
+    await timer.start('Write report');
+    await timer.pause();
+
+    await vi.waitFor(() =>
+      expect(app.vault._getFile('Log.md')).toBe('- timer-start Write report\n- timer-pause Write report\n')
+    );
+  });
+
+  it('ignores events raised by a rule\'s own command', async () => {
+    settings.automationRules.push(rule({ event: 'timer-pause', commandId: 'daily-notes' }));
+    app.commands.executeCommandById.mockImplementation(() => {
+      timer.trigger('timer-pause');
+      return true;
+    });
+
+    await timer.start('Write report');
+    await timer.pause();
+    await vi.waitFor(() => expect(app.commands.executeCommandById).toHaveBeenCalled());
+    await Promise.resolve();
+    expect(app.commands.executeCommandById).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs the events it drops while a rule\'s command runs', async () => {
+    const debug = vi.spyOn(console, 'debug').mockImplementation(() => {});
+    settings.automationRules.push(
+      rule({ event: 'timer-start', commandId: 'daily-notes' }),
+      rule({ event: 'timer-pause', commandId: 'daily-notes' })
+    );
+    app.commands.executeCommandById.mockImplementationOnce(() => {
+      timer.trigger('timer-pause');
+      return true;
+    });
+
+    await timer.start('Write report');
+    await vi.waitFor(() => expect(debug).toHaveBeenCalledWith('Automation skipped timer-pause: raised by a rule\'s command'));
+    expect(app.commands.executeCommandById).toHaveBeenCalledTimes(1);
+
+    // Once the command is done, the same event runs its rules again
+    await timer.pause();
+    await vi.waitFor(() => expect(app.commands.executeCommandById).toHaveBeenCalledTimes(2));
+    debug.mockRestore();
+  });
+
+  it('stops listening after destroy', async () => {
+    settings.automationRules.push(rule({ event: 'timer-start', commandId: 'daily-notes' }));
+    service.destroy();
+
+    await timer.start('Write report');
+    await Promise.resolve();
+    expect(app.commands.executeCommandById).not.toHaveBeenCalled();
+  });
+});
@@ -9,6 +9,9 @@ import {
   isSameDay,
   daysBetween,
   getLastNDays,
+  formatTimeInput,
+  combineDateAndTime,
+  combineDateAndTimeRange,
 } from '../src/utils/datetime';
 
 describe('datetime utilities', () => {
@@ -118,6 +121,45 @@ describe('datetime utilities', () => {
     });
   });
 
+  describe('formatTimeInput', () => {
+    it('should format time as HH:MM', () => {
+      expect(formatTimeInput(new Date(2024, 2, 15, 9, 5, 42))).toBe('09:05');
+    });
+  });
+
+  describe('combineDateAndTime', () => {
+    it('should build a local date from date and time inputs', () => {
+      const result = combineDateAndTime('2024-03-15', '23:45');
+      expect(result).toEqual(new Date(2024, 2, 15, 23, 45));
+    });
+
+    it('should return null for empty or malformed inputs', () => {
+      expect(combineDateAndTime('', '10:00')).toBeNull();
+      expect(combineDateAndTime('2024-03-15', '')).toBeNull();
+      expect(combineDateAndTime('15/03/2024', '10:00')).toBeNull();
+    });
+  });
+
+  describe('combineDateAndTimeRange', () => {
+    it('should keep both times on the given date', () => {
+      expect(combineDateAndTimeRange('2024-03-15', '09:00', '10:30')).toEqual({
+        start: new Date(2024, 2, 15, 9, 0),
+        end: new Date(2024, 2, 15, 10, 30),
+      });
+    });
+
+    it('should move an end before the start to the next day', () => {
+      expect(combineDateAndTimeRange('2024-03-31', '23:30', '00:45')).toEqual({
+        start: new Date(2024, 2, 31, 23, 30),
+        end: new Date(2024, 3, 1, 0, 45),
+      });
+    });
+
+    it('should return null when a time is malformed', () => {
+      expect(combineDateAndTimeRange('2024-03-15', '09:00', '')).toBeNull();
+    });
+  });
+
   describe('isToday', () => {
     beforeEach(() => {
       vi.useFakeTimers();
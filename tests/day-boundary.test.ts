@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { DayBoundaryService } from '../src/services/day-boundary-service';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import type { TimegrainSettings } from '../src/types';
+
+function service(dayStartTime: string): DayBoundaryService {
+  const settings: TimegrainSettings = { ...DEFAULT_SETTINGS, dayStartTime };
+  return new DayBoundaryService(settings);
+}
+
+/**
+ * First local midnight-to-midnight day in the year that isn't 24 hours long, if the zone has DST
+ */
+function findDstDay(): Date | null {
+  for (let d = 0; d < 366; d++) {
+    const day = new Date(2024, 0, 1 + d);
+    const next = new Date(2024, 0, 2 + d);
+    if (next.getTime() - day.getTime() !== 24 * 60 * 60 * 1000) return day;
+  }
+  return null;
+}
+
+describe('DayBoundaryService', () => {
+  it('uses local midnight by default', () => {
+    const days = service('00:00');
+    expect(days.getDayKey(new Date(2024, 0, 15, 23, 59))).toBe('2024-01-15');
+    expect(days.getDayKey(new Date(2024, 0, 16, 0, 0))).toBe('2024-01-16');
+
+    const { start, end } = days.getDayBounds(new Date(2024, 0, 15, 14, 30));
+    expect(start).toEqual(new Date(2024, 0, 15));
+    expect(end).toEqual(new Date(2024, 0, 16));
+  });
+
+  it('counts time before the day start toward the previous day', () => {
+    const days = service('04:00');
+    expect(days.getDayKey(new Date(2024, 0, 16, 1, 30))).toBe('2024-01-15');
+    expect(days.getDayKey(new Date(2024, 0, 16, 4, 0))).toBe('2024-01-16');
+    expect(days.getDayKey(new Date(2024, 0, 1, 3, 0))).toBe('2023-12-31');
+
+    const { start, end } = days.getDayBounds(new Date(2024, 0, 15));
+    expect(start).toEqual(new Date(2024, 0, 15, 4, 0));
+    expect(end).toEqual(new Date(2024, 0, 16, 4, 0));
+  });
+
+  it('knows which day is today', () => {
+    const days = service('04:00');
+    const now = new Date(2024, 0, 16, 2, 0);
+    expect(days.getToday(now)).toEqual(new Date(2024, 0, 15));
+    expect(days.isToday(new Date(2024, 0, 15), now)).toBe(true);
+    expect(days.isToday(new Date(2024, 0, 16), now)).toBe(false);
+  });
+
+  it('falls back to midnight for an invalid day start', () => {
+    const days = service('late');
+    expect(days.getDayStartMinutes()).toBe(0);
+    expect(days.getDayKey(new Date(2024, 0, 16, 1, 0))).toBe('2024-01-16');
+  });
+
+  it('keeps the configured clock time across DST changes', () => {
+    const dstDay = findDstDay();
+    if (!dstDay) return; // Zone without DST
+
+    const midnight = service('00:00').getDayBounds(dstDay);
+    expect(midnight.end.getTime() - midnight.start.getTime()).not.toBe(24 * 60 * 60 * 1000);
+
+    const days = service('04:00');
+    for (const day of [new Date(dstDay.getFullYear(), dstDay.getMonth(), dstDay.getDate() - 1), dstDay]) {
+      const { start, end } = days.getDayBounds(day);
+      expect(start.getHours()).toBe(4);
+      expect(end.getHours()).toBe(4);
+    }
+  });
+});
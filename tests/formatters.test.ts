@@ -6,6 +6,7 @@ import {
   formatPomodoros,
   calculatePomodoros,
   extractTaskName,
+  extractLinkPath,
   createWikilink,
   formatEnergyLevel,
   createProgressBar,
@@ -137,6 +138,18 @@ describe('formatters', () => {
       expect(extractTaskName('[[Incomplete')).toBe('[[Incomplete');
       expect(extractTaskName('Incomplete]]')).toBe('Incomplete]]');
     });
+
+    it('should prefer the alias of an aliased link', () => {
+      expect(extractTaskName('[[work/tasks/My Task|My Task]]')).toBe('My Task');
+    });
+  });
+
+  describe('extractLinkPath', () => {
+    it('should drop alias and heading', () => {
+      expect(extractLinkPath('[[work/tasks/My Task|My Task]]')).toBe('work/tasks/My Task');
+      expect(extractLinkPath('[[My Task#Notes]]')).toBe('My Task');
+      expect(extractLinkPath('My Task')).toBe('My Task');
+    });
   });
 
   describe('createWikilink', () => {
@@ -153,6 +166,11 @@ describe('formatters', () => {
     it('should handle empty strings', () => {
       expect(createWikilink('')).toBe('[[]]');
     });
+
+    it('should alias links that need a folder', () => {
+      expect(createWikilink('My Task', 'My Task')).toBe('[[My Task]]');
+      expect(createWikilink('My Task', 'work/tasks/My Task')).toBe('[[work/tasks/My Task|My Task]]');
+    });
   });
 
   describe('formatEnergyLevel', () => {
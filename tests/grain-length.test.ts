@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getGrainSecondsAt, recordGrainLengthChange } from '../src/utils/grain-length';
+import { TimerService } from '../src/services/timer-service';
+import type { SessionRepository } from '../src/data/session-repository';
+import type { GrainLengthChange } from '../src/types';
+import { createMockSessionRepository } from './helpers/mock-session-repository';
+
+describe('grain length history', () => {
+  const history: GrainLengthChange[] = [
+    { since: '', seconds: 1500 },
+    { since: '2024-03-01T09:00:00', seconds: 3000 },
+    { since: '2024-06-01T09:00:00', seconds: 2700 },
+  ];
+
+  it('finds the length in effect at a moment', () => {
+    expect(getGrainSecondsAt(history, new Date(2024, 0, 15), 2700)).toBe(1500);
+    expect(getGrainSecondsAt(history, new Date(2024, 2, 1, 9, 0), 2700)).toBe(3000);
+    expect(getGrainSecondsAt(history, new Date(2024, 6, 1), 2700)).toBe(2700);
+  });
+
+  it('falls back to the current length without history', () => {
+    expect(getGrainSecondsAt([], new Date(2024, 0, 15), 3000)).toBe(3000);
+  });
+
+  it('records the previous length on the first change', () => {
+    expect(recordGrainLengthChange([], 1500, 3000, new Date(2024, 2, 1, 9, 0))).toEqual([
+      { since: '', seconds: 1500 },
+      { since: '2024-03-01T09:00:00', seconds: 3000 },
+    ]);
+  });
+
+  it('replaces a change made moments earlier', () => {
+    const first = recordGrainLengthChange([], 1500, 1800, new Date(2024, 2, 1, 9, 0, 0));
+    const second = recordGrainLengthChange(first, 1800, 2100, new Date(2024, 2, 1, 9, 0, 20));
+    expect(second).toEqual([
+      { since: '', seconds: 1500 },
+      { since: '2024-03-01T09:00:20', seconds: 2100 },
+    ]);
+  });
+});
+
+describe('TimerService grain length', () => {
+  it('counts grains with the new length without announcing ones already passed', async () => {
+    vi.useFakeTimers();
+    const timer = new TimerService(createMockSessionRepository() as unknown as SessionRepository, 25 * 60 * 1000);
+    const onComplete = vi.fn();
+    timer.on('pomodoro-complete', onComplete);
+
+    await timer.start('Task');
+    vi.advanceTimersByTime(40 * 60 * 1000);
+    timer.tick();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+
+    timer.setPomodoroDuration(15 * 60 * 1000);
+    expect(timer.getCurrentPomodoro()).toBe(3);
+    timer.tick();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    timer.tick();
+    expect(onComplete).toHaveBeenLastCalledWith({ count: 3 });
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,20 @@
+import { vi } from 'vitest';
+
+/**
+ * SessionRepository stand-in for TimerService tests
+ * Each work session gets its own file (timer_sessions/s1.md, s2.md, ...) so tests can
+ * tell sessions apart after switches and resumes.
+ */
+export function createMockSessionRepository() {
+  let count = 0;
+  return {
+    createSession: vi.fn().mockImplementation(async () => ({ path: `timer_sessions/s${++count}.md` })),
+    createBreakSession: vi.fn().mockResolvedValue({ path: 'timer_sessions/break.md' }),
+    completeSession: vi.fn().mockResolvedValue(undefined),
+    deleteSession: vi.fn().mockResolvedValue(undefined),
+    markSessionResumed: vi.fn().mockResolvedValue(undefined),
+    addInterruption: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+export type MockSessionRepository = ReturnType<typeof createMockSessionRepository>;
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IdleDetector } from '../src/services/idle-detector';
+import { TimerService } from '../src/services/timer-service';
+import type { SessionRepository } from '../src/data/session-repository';
+import { createMockSessionRepository, type MockSessionRepository } from './helpers/mock-session-repository';
+
+const MINUTE = 60 * 1000;
+
+describe('IdleDetector', () => {
+  const T0 = 1_700_000_000_000;
+  let detector: IdleDetector;
+
+  beforeEach(() => {
+    detector = new IdleDetector(() => 5 * MINUTE);
+    detector.onFocus(T0);
+  });
+
+  it('is not idle within the threshold', () => {
+    expect(detector.getIdleSince(T0 + 4 * MINUTE)).toBeNull();
+  });
+
+  it('reports when activity stopped once the threshold passes', () => {
+    detector.recordActivity(T0 + MINUTE);
+    expect(detector.getIdleSince(T0 + 6 * MINUTE)).toBe(T0 + MINUTE);
+  });
+
+  it('treats losing focus as the last activity and ignores events until refocus', () => {
+    detector.onBlur(T0 + MINUTE);
+    detector.recordActivity(T0 + 3 * MINUTE); // mouse passing over a background window
+    expect(detector.getIdleSince(T0 + 6 * MINUTE)).toBe(T0 + MINUTE);
+
+    detector.onFocus(T0 + 7 * MINUTE);
+    expect(detector.getIdleSince(T0 + 8 * MINUTE)).toBeNull();
+  });
+});
+
+describe('TimerService idle pause', () => {
+  let repo: MockSessionRepository;
+  let timer: TimerService;
+  let startedAt: number;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    repo = createMockSessionRepository();
+    timer = new TimerService(repo as unknown as SessionRepository);
+
+    startedAt = Date.now();
+    await timer.start('Task');
+    // Worked 10 minutes, then idle for the 5-minute threshold
+    vi.advanceTimersByTime(15 * MINUTE);
+    await timer.pauseForIdle(startedAt + 10 * MINUTE);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('pauses through the normal pause flow', () => {
+    expect(timer.isPaused()).toBe(true);
+    expect(timer.hasIdlePause()).toBe(true);
+    expect(timer.getIdleStart()).toBe(startedAt + 10 * MINUTE);
+    expect(repo.completeSession.mock.calls[0][1]).toBe('pause');
+  });
+
+  it('discard trims the session to when activity stopped and resumes', async () => {
+    vi.advanceTimersByTime(5 * MINUTE);
+    await timer.resolveIdle('discard');
+
+    const [, action, , endTime] = repo.completeSession.mock.calls[1];
+    expect(action).toBe('pause');
+    expect(endTime.getTime()).toBe(startedAt + 10 * MINUTE);
+    expect(timer.isRunning()).toBe(true);
+    expect(timer.getElapsedSeconds()).toBe(10 * 60);
+  });
+
+  it('keep stretches the session over the whole absence', async () => {
+    vi.advanceTimersByTime(5 * MINUTE);
+    await timer.resolveIdle('keep');
+
+    const endTime = repo.completeSession.mock.calls[1][3];
+    expect(endTime.getTime()).toBe(startedAt + 20 * MINUTE);
+    expect(timer.getElapsedSeconds()).toBe(20 * 60);
+  });
+
+  it('break trims the session and logs the gap as a break', async () => {
+    vi.advanceTimersByTime(5 * MINUTE);
+    await timer.resolveIdle('break');
+
+    expect(repo.createBreakSession).toHaveBeenCalledWith('short', new Date(startedAt + 10 * MINUTE));
+    const [, action, breakStart, breakEnd] = repo.completeSession.mock.calls[2];
+    expect(action).toBe('complete');
+    expect(breakStart.getTime()).toBe(startedAt + 10 * MINUTE);
+    expect(breakEnd.getTime()).toBe(startedAt + 20 * MINUTE);
+    expect(timer.getElapsedSeconds()).toBe(10 * 60);
+  });
+
+  it('can stay paused after resolving', async () => {
+    await timer.resolveIdle('discard', Date.now(), false);
+
+    expect(timer.isPaused()).toBe(true);
+    expect(timer.hasIdlePause()).toBe(false);
+  });
+
+  it('discards pending idle time before switching task', async () => {
+    vi.advanceTimersByTime(5 * MINUTE);
+    await timer.switchTask('Other');
+
+    const [, action, , endTime] = repo.completeSession.mock.calls[1];
+    expect(action).toBe('pause');
+    expect(endTime.getTime()).toBe(startedAt + 10 * MINUTE);
+    expect(timer.hasIdlePause()).toBe(false);
+    expect(timer.isRunning()).toBe(true);
+    expect(timer.getElapsedSeconds()).toBe(10 * 60);
+  });
+
+  it('forgets the idle pause when resumed by hand', async () => {
+    await timer.resume();
+    expect(timer.hasIdlePause()).toBe(false);
+
+    await timer.resolveIdle('discard');
+    expect(repo.completeSession).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseInterruptions,
+  countInterruptionsByTask,
+  countInterruptionsByHour,
+} from '../src/utils/interruptions';
+import { TimerService } from '../src/services/timer-service';
+import type { SessionRepository } from '../src/data/session-repository';
+import { createMockSessionRepository } from './helpers/mock-session-repository';
+import type { Session } from '../src/types';
+
+function session(taskName: string, times: string[], kind: Session['kind'] = 'work'): Session {
+  return {
+    taskName,
+    kind,
+    interruptions: parseInterruptions(times.map((time) => ({ time, type: 'external' }))),
+  } as Session;
+}
+
+describe('parseInterruptions', () => {
+  it('parses frontmatter entries', () => {
+    const result = parseInterruptions([
+      { time: '2024-01-15T10:05:00', type: 'internal' },
+      { time: '2024-01-15T10:12:30', type: 'external', note: 'Phone call' },
+    ]);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].type).toBe('internal');
+    expect(result[0].time.getMinutes()).toBe(5);
+    expect(result[1].note).toBe('Phone call');
+  });
+
+  it('skips malformed entries and defaults unknown types to external', () => {
+    const result = parseInterruptions([
+      'not an object',
+      { time: 'yesterday-ish', type: 'internal' },
+      { time: '2024-01-15T10:05:00', type: 'cosmic' },
+    ]);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].type).toBe('external');
+  });
+
+  it('returns an empty list when the field is missing', () => {
+    expect(parseInterruptions(undefined)).toEqual([]);
+  });
+});
+
+describe('interruption counts', () => {
+  const sessions = [
+    session('Write docs', ['2024-01-15T09:10:00', '2024-01-15T09:40:00']),
+    session('Write docs', ['2024-01-15T14:00:00']),
+    session('Review PR', ['2024-01-15T14:30:00']),
+    session('Review PR', []),
+  ];
+
+  it('counts per task', () => {
+    expect(countInterruptionsByTask(sessions)).toEqual({ 'Write docs': 3, 'Review PR': 1 });
+  });
+
+  it('counts per task key', () => {
+    const byKey = countInterruptionsByTask(sessions, (s) => `tasks/${s.taskName}.md`);
+    expect(byKey).toEqual({ 'tasks/Write docs.md': 3, 'tasks/Review PR.md': 1 });
+  });
+
+  it('counts per hour of day', () => {
+    const byHour = countInterruptionsByHour(sessions);
+    expect(byHour).toHaveLength(24);
+    expect(byHour[9]).toBe(2);
+    expect(byHour[14]).toBe(2);
+    expect(byHour.reduce((a, b) => a + b, 0)).toBe(4);
+  });
+
+  it('counts only interruptions within the given range', () => {
+    const overnight = [...sessions, session('Write docs', ['2024-01-14T23:50:00', '2024-01-15T00:10:00'])];
+    const start = new Date(2024, 0, 15);
+    const end = new Date(2024, 0, 15, 14, 15);
+
+    expect(countInterruptionsByTask(overnight, undefined, start, end)).toEqual({ 'Write docs': 4 });
+    const byHour = countInterruptionsByHour(overnight, start, end);
+    expect(byHour[0]).toBe(1);
+    expect(byHour[23]).toBe(0);
+    expect(byHour[14]).toBe(1);
+  });
+});
+
+describe('TimerService.logInterruption', () => {
+  function createTimer() {
+    const repo = createMockSessionRepository();
+    return { repo, timer: new TimerService(repo as unknown as SessionRepository) };
+  }
+
+  it('writes the interruption to the running session and counts it', async () => {
+    const { repo, timer } = createTimer();
+    await timer.start('Task');
+    await timer.logInterruption('internal', 'Checked email');
+    await timer.logInterruption('external');
+
+    expect(repo.addInterruption).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'timer_sessions/s1.md' }),
+      'internal',
+      expect.any(Date),
+      'Checked email'
+    );
+    expect(repo.addInterruption.mock.calls[1][3]).toBeUndefined();
+    expect(timer.getStatus().interruptions).toBe(2);
+  });
+
+  it('rejects when the timer is not running', async () => {
+    const { timer } = createTimer();
+    await expect(timer.logInterruption('external')).rejects.toThrow('No running session');
+
+    await timer.start('Task');
+    await timer.pause();
+    await expect(timer.logInterruption('external')).rejects.toThrow('No running session');
+  });
+});
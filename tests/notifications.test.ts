@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  isWithinQuietHours,
+  mergeNotificationChannels,
+  getToneDuration,
+  TONES,
+} from '../src/utils/notifications';
+import { parseClockTime } from '../src/utils/datetime';
+import { NotificationService } from '../src/services/notification-service';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import type { App } from 'obsidian';
+import type { TimegrainSettings } from '../src/types';
+
+function at(hours: number, minutes = 0): Date {
+  return new Date(2024, 0, 15, hours, minutes);
+}
+
+describe('parseClockTime', () => {
+  it('parses HH:MM into minutes since midnight', () => {
+    expect(parseClockTime('00:00')).toBe(0);
+    expect(parseClockTime('07:30')).toBe(450);
+    expect(parseClockTime('7:30')).toBe(450);
+    expect(parseClockTime('23:59')).toBe(1439);
+  });
+
+  it('rejects invalid times', () => {
+    expect(parseClockTime('')).toBeNull();
+    expect(parseClockTime('24:00')).toBeNull();
+    expect(parseClockTime('12:60')).toBeNull();
+    expect(parseClockTime('noon')).toBeNull();
+  });
+});
+
+describe('isWithinQuietHours', () => {
+  it('handles a window within one day', () => {
+    expect(isWithinQuietHours(at(12, 30), '12:00', '13:00')).toBe(true);
+    expect(isWithinQuietHours(at(12, 0), '12:00', '13:00')).toBe(true);
+    expect(isWithinQuietHours(at(13, 0), '12:00', '13:00')).toBe(false);
+    expect(isWithinQuietHours(at(11, 59), '12:00', '13:00')).toBe(false);
+  });
+
+  it('handles a window that wraps past midnight', () => {
+    expect(isWithinQuietHours(at(23), '22:00', '07:00')).toBe(true);
+    expect(isWithinQuietHours(at(3), '22:00', '07:00')).toBe(true);
+    expect(isWithinQuietHours(at(7), '22:00', '07:00')).toBe(false);
+    expect(isWithinQuietHours(at(15), '22:00', '07:00')).toBe(false);
+  });
+
+  it('treats equal or invalid bounds as no quiet hours', () => {
+    expect(isWithinQuietHours(at(8), '08:00', '08:00')).toBe(false);
+    expect(isWithinQuietHours(at(8), '', '09:00')).toBe(false);
+  });
+});
+
+describe('mergeNotificationChannels', () => {
+  it('fills in missing events and fields from the defaults', () => {
+    const merged = mergeNotificationChannels(DEFAULT_SETTINGS.notifications, {
+      grainComplete: { sound: 'file', soundFile: 'sounds/ding.mp3' },
+    });
+
+    expect(merged.grainComplete).toEqual({
+      sound: 'file',
+      soundFile: 'sounds/ding.mp3',
+      volume: DEFAULT_SETTINGS.notifications.grainComplete.volume,
+      desktop: false,
+    });
+    expect(merged.breakOver).toEqual(DEFAULT_SETTINGS.notifications.breakOver);
+  });
+
+  it('does not share channel objects with the defaults', () => {
+    const merged = mergeNotificationChannels(DEFAULT_SETTINGS.notifications, undefined);
+    merged.dailyGoal.volume = 0;
+    expect(DEFAULT_SETTINGS.notifications.dailyGoal.volume).not.toBe(0);
+  });
+});
+
+describe('getToneDuration', () => {
+  it('returns when the last note ends', () => {
+    expect(getToneDuration(TONES.beep)).toBe(0.5);
+    expect(getToneDuration(TONES.chime)).toBeCloseTo(0.8);
+  });
+});
+
+describe('NotificationService', () => {
+  function createService(overrides: Partial<TimegrainSettings> = {}) {
+    const settings: TimegrainSettings = {
+      ...DEFAULT_SETTINGS,
+      notifications: mergeNotificationChannels(DEFAULT_SETTINGS.notifications, undefined),
+      ...overrides,
+    };
+    const service = new NotificationService({} as App, settings);
+    const playSound = vi.spyOn(service, 'playSound').mockImplementation(() => {});
+    return { service, settings, playSound };
+  }
+
+  it('plays the event channel sound', () => {
+    const { service, settings, playSound } = createService();
+    service.notify('breakOver', 'Break over', at(10));
+    expect(playSound).toHaveBeenCalledWith(settings.notifications.breakOver);
+  });
+
+  it('stays silent when sounds are off', () => {
+    const { service, playSound } = createService({ playSound: false });
+    service.notify('grainComplete', 'Grain 1 complete!', at(10));
+    expect(playSound).not.toHaveBeenCalled();
+  });
+
+  it('stays silent during quiet hours', () => {
+    const { service, playSound } = createService({
+      quietHoursEnabled: true,
+      quietHoursStart: '22:00',
+      quietHoursEnd: '07:00',
+    });
+    service.notify('grainComplete', 'Grain 1 complete!', at(23));
+    expect(playSound).not.toHaveBeenCalled();
+
+    service.notify('grainComplete', 'Grain 2 complete!', at(9));
+    expect(playSound).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getArchiveCutoff,
+  getArchiveMonth,
+  getArchivePath,
+  toArchiveEntry,
+  mergeArchiveEntries,
+  formatArchiveTable,
+} from '../src/utils/session-archive';
+import type { ArchivedSessionEntry } from '../src/types';
+
+function entry(file: string, started: string, ended: string, extra: Partial<ArchivedSessionEntry> = {}): ArchivedSessionEntry {
+  return { file, started, ended, task: '[[Write report]]', ...extra };
+}
+
+describe('session archive', () => {
+  it('archives whole months older than the configured age', () => {
+    expect(getArchiveCutoff(new Date(2025, 1, 10), 12)).toEqual(new Date(2024, 1, 1));
+    expect(getArchiveCutoff(new Date(2025, 0, 31), 1)).toEqual(new Date(2024, 11, 1));
+    expect(getArchiveMonth(new Date(2024, 8, 30, 23, 59))).toBe('2024-09');
+    expect(getArchivePath('timer_sessions', '2024-09')).toBe('timer_sessions/archive/2024-09.md');
+  });
+
+  it('keeps session frontmatter and records a missing grain length', () => {
+    const fm = { started: '2024-01-15T09:00:00', ended: '2024-01-15T09:25:00', task: '[[Plan]]', feeling: 'strong' as const };
+    expect(toArchiveEntry(fm, 'timer_sessions/a.md', 25)).toEqual({ file: 'timer_sessions/a.md', ...fm, grain_minutes: 25 });
+    expect(toArchiveEntry({ ...fm, grain_minutes: 50 }, 'timer_sessions/a.md', 25).grain_minutes).toBe(50);
+    expect(toArchiveEntry({ ...fm, kind: 'break' }, 'timer_sessions/b.md', 25).grain_minutes).toBeUndefined();
+  });
+
+  it('merges entries into an existing archive, oldest first, once per file', () => {
+    const existing = [entry('b.md', '2024-01-15T14:00:00', '2024-01-15T14:25:00')];
+    const merged = mergeArchiveEntries(existing, [
+      entry('b.md', '2024-01-15T14:00:00', '2024-01-15T14:30:00'),
+      entry('a.md', '2024-01-15 09:00:00', '2024-01-15 09:50:00'),
+    ]);
+
+    expect(merged.map((e) => [e.file, e.ended])).toEqual([
+      ['a.md', '2024-01-15 09:50:00'],
+      ['b.md', '2024-01-15T14:30:00'],
+    ]);
+  });
+
+  it('renders a table of the month with the total work time', () => {
+    const table = formatArchiveTable('2024-01', [
+      entry('a.md', '2024-01-15T09:00:00', '2024-01-15T09:50:00', { feeling: 'strong' }),
+      entry('b.md', '2024-01-15T10:00:00', '2024-01-15T10:05:00', { task: '', kind: 'break' }),
+      entry('c.md', '2024-01-15T11:00:00', '2024-01-15T11:30:00', { task: '[[tasks/Review|Review]]', abandoned: true }),
+      entry('d.md', '2024-01-15T14:00:00', '2024-01-15T14:25:00', { task: '[[Review]]' }),
+    ]).split('\n');
+
+    expect(table[0]).toBe('# Sessions 2024-01');
+    expect(table[4]).toBe('| 2024-01-15 09:00 | 2024-01-15 09:50 | Write report | 50m | strong |');
+    expect(table[5]).toBe('| 2024-01-15 10:00 | 2024-01-15 10:05 | Break | 5m |  |');
+    expect(table[6]).toBe('| 2024-01-15 11:00 | 2024-01-15 11:30 | Review (abandoned) | 30m |  |');
+    expect(table[8]).toBe('| **Total** | | | 1h 15m | |');
+  });
+});
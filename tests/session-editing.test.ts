@@ -0,0 +1,343 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { App, TFile as VaultFile } from 'obsidian';
+import { Events, TFile, TFolder } from './__mocks__/obsidian';
+import { SessionRepository } from '../src/data/session-repository';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import type { TimegrainSettings } from '../src/types';
+
+/**
+ * Tests for editing session files through SessionRepository
+ */
+
+class FakeMetadataCache extends Events {
+  frontmatter = new Map<string, Record<string, unknown>>();
+
+  getFirstLinkpathDest(): TFile | null {
+    return null;
+  }
+
+  getFileCache(file: TFile): { frontmatter?: Record<string, unknown> } | null {
+    const frontmatter = this.frontmatter.get(file.path);
+    return frontmatter ? { frontmatter } : null;
+  }
+}
+
+/**
+ * Parse the flat frontmatter the repository writes: scalars only, as in session files
+ */
+function parseFrontmatter(content: string): Record<string, unknown> {
+  const fm: Record<string, unknown> = {};
+  const body = content.match(/^---\n([\s\S]*?)\n---/)?.[1] || '';
+  for (const line of body.split('\n')) {
+    const [, key, raw] = line.match(/^(\w+):\s*(.*)$/) || [];
+    if (!key) continue;
+    if (raw === '') fm[key] = null;
+    else if (raw.startsWith('"')) fm[key] = JSON.parse(raw);
+    else if (raw === 'true' || raw === 'false') fm[key] = raw === 'true';
+    else if (/^-?\d+(\.\d+)?$/.test(raw)) fm[key] = Number(raw);
+    else fm[key] = raw;
+  }
+  return fm;
+}
+
+class FakeVault extends Events {
+  folder = new TFolder('timer_sessions');
+
+  constructor(private metadataCache: FakeMetadataCache) {
+    super();
+  }
+
+  getAbstractFileByPath(path: string): TFile | TFolder | null {
+    if (path === this.folder.path) return this.folder;
+    return (this.folder.children.find((f) => f.path === path) as TFile) || null;
+  }
+
+  async create(path: string, content: string): Promise<TFile> {
+    const file = new TFile(path);
+    this.folder.children.push(file);
+    this.metadataCache.frontmatter.set(path, parseFrontmatter(content));
+    this.trigger('create', file);
+    return file;
+  }
+
+  async delete(file: TFile): Promise<void> {
+    this.folder.children = this.folder.children.filter((f) => f !== file);
+    this.metadataCache.frontmatter.delete(file.path);
+    this.trigger('delete', file);
+  }
+}
+
+describe('SessionRepository editing', () => {
+  let vault: FakeVault;
+  let metadataCache: FakeMetadataCache;
+  let repo: SessionRepository;
+  let settings: TimegrainSettings;
+
+  function addSession(name: string, frontmatter: Record<string, unknown>): TFile {
+    const file = new TFile(`timer_sessions/${name}.md`);
+    vault.folder.children.push(file);
+    metadataCache.frontmatter.set(file.path, frontmatter);
+    return file;
+  }
+
+  function frontmatterOf(path: string): Record<string, unknown> | undefined {
+    return metadataCache.frontmatter.get(path);
+  }
+
+  // Let the index pick up file events and the debounced update go out
+  async function settle(): Promise<void> {
+    await vi.advanceTimersByTimeAsync(1000);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 0, 16, 12, 0));
+    metadataCache = new FakeMetadataCache();
+    vault = new FakeVault(metadataCache);
+    settings = { ...DEFAULT_SETTINGS };
+    const fileManager = {
+      processFrontMatter: async (file: TFile, fn: (fm: Record<string, unknown>) => void) => {
+        fn(metadataCache.frontmatter.get(file.path) as Record<string, unknown>);
+        metadataCache.trigger('changed', file);
+      },
+    };
+    repo = new SessionRepository({ vault, metadataCache, fileManager } as unknown as App, settings);
+  });
+
+  afterEach(() => {
+    repo.destroy();
+    vi.useRealTimers();
+  });
+
+  describe('splitSession', () => {
+    let file: TFile;
+
+    beforeEach(() => {
+      file = addSession('20240115-0900', {
+        started: '2024-01-15T09:00:00',
+        ended: '2024-01-15T10:30:00',
+        task: '[[Write report]]',
+        action: 'complete',
+        feeling: 'good',
+        block_id: 'b-20240115-0900',
+        grain_minutes: 25,
+        hour_of_day: 9,
+        day_of_week: 'monday',
+        interruptions: [
+          { time: '2024-01-15T09:10:00', type: 'external' },
+          { time: '2024-01-15T10:05:00', type: 'internal' },
+        ],
+      });
+    });
+
+    it('ends the first part with a switch at the split time', async () => {
+      await repo.splitSession(file as unknown as VaultFile, new Date(2024, 0, 15, 9, 45));
+
+      expect(frontmatterOf(file.path)).toMatchObject({
+        started: '2024-01-15T09:00:00',
+        ended: '2024-01-15T09:45:00',
+        action: 'switch',
+        hour_of_day: 9,
+      });
+    });
+
+    it('copies the block, grain length and rating to the second part', async () => {
+      const second = await repo.splitSession(file as unknown as VaultFile, new Date(2024, 0, 15, 9, 45));
+
+      expect(second.path).toBe('timer_sessions/20240115-0945.md');
+      expect(frontmatterOf(second.path)).toMatchObject({
+        started: '2024-01-15T09:45:00',
+        ended: '2024-01-15T10:30:00',
+        task: '[[Write report]]',
+        action: 'complete',
+        feeling: 'good',
+        block_id: 'b-20240115-0900',
+        grain_minutes: 25,
+      });
+    });
+
+    it('gives each part the interruptions that fall in it', async () => {
+      const second = await repo.splitSession(file as unknown as VaultFile, new Date(2024, 0, 15, 9, 45));
+
+      expect(frontmatterOf(file.path)?.interruptions).toEqual([{ time: '2024-01-15T09:10:00', type: 'external' }]);
+      expect(frontmatterOf(second.path)?.interruptions).toEqual([{ time: '2024-01-15T10:05:00', type: 'internal' }]);
+    });
+
+    it('recomputes the hour and weekday of the second part', async () => {
+      const late = addSession('20240115-2300', {
+        started: '2024-01-15T23:00:00',
+        ended: '2024-01-16T01:00:00',
+        task: '[[Review]]',
+        hour_of_day: 23,
+        day_of_week: 'monday',
+      });
+
+      const second = await repo.splitSession(late as unknown as VaultFile, new Date(2024, 0, 16, 0, 30));
+
+      expect(frontmatterOf(second.path)).toMatchObject({ hour_of_day: 0, day_of_week: 'tuesday' });
+      expect(frontmatterOf(late.path)).toMatchObject({ hour_of_day: 23, day_of_week: 'monday' });
+    });
+
+    it('puts the parts of a split across the day start on their own days', async () => {
+      settings.dayStartTime = '04:00';
+      const night = addSession('20240116-0300', {
+        started: '2024-01-16T03:00:00',
+        ended: '2024-01-16T05:00:00',
+        task: '[[Review]]',
+      });
+      expect((await repo.getSessionsForDate(new Date(2024, 0, 16))).map((s) => s.filePath)).toContain(night.path);
+
+      const second = await repo.splitSession(night as unknown as VaultFile, new Date(2024, 0, 16, 4, 0));
+      await settle();
+
+      const previousDay = await repo.getSessionsForDate(new Date(2024, 0, 15));
+      const nextDay = await repo.getSessionsForDate(new Date(2024, 0, 16));
+      expect(previousDay.map((s) => s.filePath)).toContain(night.path);
+      expect(nextDay.map((s) => s.filePath)).toEqual([second.path]);
+    });
+
+    it('rejects split times outside the session', async () => {
+      await expect(repo.splitSession(file as unknown as VaultFile, new Date(2024, 0, 15, 9, 0))).rejects.toThrow(
+        'Split time must be inside the session'
+      );
+      await expect(repo.splitSession(file as unknown as VaultFile, new Date(2024, 0, 15, 11, 0))).rejects.toThrow(
+        'Split time must be inside the session'
+      );
+      expect(vault.folder.children).toHaveLength(1);
+    });
+  });
+
+  describe('updateSessionTimes', () => {
+    it('rewrites the times and the fields derived from the start', async () => {
+      const file = addSession('20240115-0900', {
+        started: '2024-01-15T09:00:00',
+        ended: '2024-01-15T09:50:00',
+        task: '[[Write report]]',
+        hour_of_day: 9,
+        day_of_week: 'monday',
+      });
+
+      await repo.updateSessionTimes(file as unknown as VaultFile, new Date(2024, 0, 14, 22, 0), new Date(2024, 0, 14, 23, 0));
+
+      expect(frontmatterOf(file.path)).toMatchObject({
+        started: '2024-01-14T22:00:00',
+        ended: '2024-01-14T23:00:00',
+        hour_of_day: 22,
+        day_of_week: 'sunday',
+      });
+    });
+
+    it('moves the session to its new day in the index', async () => {
+      const file = addSession('20240115-0900', {
+        started: '2024-01-15T09:00:00',
+        ended: '2024-01-15T09:50:00',
+        task: '[[Write report]]',
+      });
+      expect(await repo.getSessionsForDate(new Date(2024, 0, 15))).toHaveLength(1);
+
+      await repo.updateSessionTimes(file as unknown as VaultFile, new Date(2024, 0, 14, 22, 0), new Date(2024, 0, 14, 23, 0));
+      await settle();
+
+      expect(await repo.getSessionsForDate(new Date(2024, 0, 15))).toHaveLength(0);
+      expect(await repo.getSessionsForDate(new Date(2024, 0, 14))).toHaveLength(1);
+    });
+
+    it('rejects an end before the start', async () => {
+      const file = addSession('20240115-0900', {
+        started: '2024-01-15T09:00:00',
+        ended: '2024-01-15T09:50:00',
+        task: '[[Write report]]',
+      });
+
+      await expect(
+        repo.updateSessionTimes(file as unknown as VaultFile, new Date(2024, 0, 15, 10), new Date(2024, 0, 15, 9))
+      ).rejects.toThrow('Session end must be after its start');
+      expect(frontmatterOf(file.path)?.started).toBe('2024-01-15T09:00:00');
+    });
+  });
+
+  describe('logSession', () => {
+    it('writes a finished manual session with its derived fields', async () => {
+      const file = await repo.logSession(
+        'Write report',
+        new Date(2024, 0, 15, 9, 0),
+        new Date(2024, 0, 15, 10, 15),
+        'tasks/Write report.md'
+      );
+
+      expect(file.path).toBe('timer_sessions/20240115-0900.md');
+      expect(frontmatterOf(file.path)).toMatchObject({
+        started: '2024-01-15T09:00:00',
+        ended: '2024-01-15T10:15:00',
+        task: '[[Write report]]',
+        task_path: 'tasks/Write report.md',
+        action: 'complete',
+        manual: true,
+        hour_of_day: 9,
+        day_of_week: 'monday',
+        grain_minutes: 25,
+      });
+
+      const [session] = await repo.getSessionsForDate(new Date(2024, 0, 15));
+      expect(session).toMatchObject({ durationMinutes: 75, pomodoros: 3, manual: true, action: 'complete' });
+    });
+
+    it('finds the sessions a logged entry would overlap', async () => {
+      addSession('20240115-0900', { started: '2024-01-15T09:00:00', ended: '2024-01-15T09:50:00', task: '[[Review]]' });
+      addSession('20240115-1000', { started: '2024-01-15T10:00:00', ended: '2024-01-15T10:25:00', task: '[[Plan]]' });
+
+      const overlaps = await repo.findOverlappingSessions(new Date(2024, 0, 15, 9, 30), new Date(2024, 0, 15, 10, 0));
+      expect(overlaps.map((s) => s.filePath)).toEqual(['timer_sessions/20240115-0900.md']);
+      expect(await repo.findOverlappingSessions(new Date(2024, 0, 15, 9, 50), new Date(2024, 0, 15, 10, 0))).toEqual([]);
+    });
+
+    it('keeps the start day fields for an entry past midnight and shows it on both days', async () => {
+      const file = await repo.logSession('Review', new Date(2024, 0, 14, 23, 30), new Date(2024, 0, 15, 0, 45));
+      await settle();
+
+      expect(frontmatterOf(file.path)).toMatchObject({
+        started: '2024-01-14T23:30:00',
+        ended: '2024-01-15T00:45:00',
+        hour_of_day: 23,
+        day_of_week: 'sunday',
+      });
+      expect(await repo.getDailyPomodorosCounts()).toEqual({ '2024-01-14': 1, '2024-01-15': 2 });
+    });
+
+    it('counts an entry across the configured day start toward both days', async () => {
+      settings.dayStartTime = '04:00';
+      await repo.logSession('Review', new Date(2024, 0, 16, 3, 0), new Date(2024, 0, 16, 5, 0));
+      await settle();
+
+      expect(await repo.getDailyPomodorosCounts()).toEqual({ '2024-01-15': 2, '2024-01-16': 2 });
+      expect(await repo.getSessionsForDate(new Date(2024, 0, 15))).toHaveLength(1);
+      expect(await repo.getSessionsForDate(new Date(2024, 0, 16))).toHaveLength(1);
+    });
+  });
+
+  describe('deleteSession', () => {
+    it('drops the session from the index and tells views to refresh', async () => {
+      const file = addSession('20240115-0900', {
+        started: '2024-01-15T09:00:00',
+        ended: '2024-01-15T09:50:00',
+        task: '[[Write report]]',
+      });
+      addSession('20240115-1400', {
+        started: '2024-01-15T14:00:00',
+        ended: '2024-01-15T14:25:00',
+        task: '[[Review]]',
+      });
+      expect(await repo.getDailyPomodorosCounts()).toEqual({ '2024-01-15': 3 });
+      const updated = vi.fn();
+      repo.on('sessions-updated', updated);
+
+      await repo.deleteSession(file as unknown as VaultFile);
+      await settle();
+
+      expect(vault.getAbstractFileByPath(file.path)).toBeNull();
+      expect((await repo.getAllSessions()).map((s) => s.filePath)).toEqual(['timer_sessions/20240115-1400.md']);
+      expect(await repo.getDailyPomodorosCounts()).toEqual({ '2024-01-15': 1 });
+      expect(updated).toHaveBeenCalled();
+    });
+  });
+});
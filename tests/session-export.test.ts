@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildExportRows,
+  selectExportSessions,
+  formatSessionExport,
+  formatSessionCalendar,
+} from '../src/utils/session-export';
+import type { Session, Task } from '../src/types';
+
+function session(started: string, ended: string | undefined, extra: Partial<Session> = {}): Session {
+  const start = new Date(started);
+  const end = ended ? new Date(ended) : undefined;
+  const durationMs = end ? end.getTime() - start.getTime() : undefined;
+  return {
+    filePath: `timer_sessions/${started}.md`,
+    started: start,
+    ended: end,
+    taskName: 'Write report',
+    kind: 'work',
+    interruptions: [],
+    grainMs: 25 * 60 * 1000,
+    durationMs,
+    durationMinutes: durationMs !== undefined ? Math.floor(durationMs / 60000) : undefined,
+    pomodoros: durationMs !== undefined ? Math.floor(durationMs / (25 * 60 * 1000)) : undefined,
+    ...extra,
+  } as Session;
+}
+
+const tasks: Record<string, Partial<Task>> = {
+  'Write report': { title: 'Write report', area: 'Client A', category: 'Writing', status: 'in progress' },
+  Review: { title: 'Review, final', area: 'Client B', category: 'Review', status: 'done' },
+};
+const getTask = (s: Session) => tasks[s.taskName] as Task | undefined;
+const noFilter = { areas: [], statuses: [] };
+
+describe('session export', () => {
+  const sessions = [
+    session('2024-01-15T14:00:00', '2024-01-15T14:25:00', { taskName: 'Review', feeling: 'strong', perceivedEffort: 4 }),
+    session('2024-01-15T09:00:00', '2024-01-15T09:50:00'),
+    session('2024-01-15T10:00:00', '2024-01-15T10:05:00', { kind: 'break', taskName: '' }),
+    session('2024-01-15T11:00:00', '2024-01-15T11:30:00', { abandoned: true }),
+    session('2024-01-15T16:00:00', undefined),
+  ];
+
+  it('builds rows for finished work sessions, oldest first', () => {
+    const rows = buildExportRows(sessions, getTask, noFilter);
+    expect(rows).toEqual([
+      {
+        task: 'Write report',
+        area: 'Client A',
+        category: 'Writing',
+        start: '2024-01-15T09:00:00',
+        end: '2024-01-15T09:50:00',
+        durationMinutes: 50,
+        grains: 2,
+        feeling: '',
+        effort: null,
+      },
+      {
+        task: 'Review, final',
+        area: 'Client B',
+        category: 'Review',
+        start: '2024-01-15T14:00:00',
+        end: '2024-01-15T14:25:00',
+        durationMinutes: 25,
+        grains: 1,
+        feeling: 'strong',
+        effort: 4,
+      },
+    ]);
+  });
+
+  it('filters by task area and status', () => {
+    const orphan = session('2024-01-15T12:00:00', '2024-01-15T12:25:00', { taskName: 'Deleted' });
+    const all = [...sessions, orphan];
+
+    expect(buildExportRows(all, getTask, noFilter)).toHaveLength(3);
+    expect(buildExportRows(all, getTask, { areas: ['Client B'], statuses: [] }).map((r) => r.area)).toEqual([
+      'Client B',
+    ]);
+    expect(buildExportRows(all, getTask, { areas: [], statuses: ['in progress'] }).map((r) => r.task)).toEqual([
+      'Write report',
+    ]);
+  });
+
+  it('writes CSV with quoted fields where needed', () => {
+    const csv = formatSessionExport(buildExportRows(sessions, getTask, noFilter), 'csv');
+    expect(csv.split('\n')).toEqual([
+      'task,area,category,start,end,duration_minutes,grains,feeling,effort',
+      'Write report,Client A,Writing,2024-01-15T09:00:00,2024-01-15T09:50:00,50,2,,',
+      '"Review, final",Client B,Review,2024-01-15T14:00:00,2024-01-15T14:25:00,25,1,strong,4',
+      '',
+    ]);
+  });
+
+  it('writes JSON that parses back to the rows', () => {
+    const rows = buildExportRows(sessions, getTask, noFilter);
+    expect(JSON.parse(formatSessionExport(rows, 'json'))).toEqual(rows);
+  });
+
+  it('writes a Markdown table with a total row', () => {
+    const table = formatSessionExport(buildExportRows(sessions, getTask, noFilter), 'markdown').trim().split('\n');
+    expect(table[0]).toBe('| Task | Area | Category | Start | End | Duration | Grains | Feeling | Effort |');
+    expect(table[2]).toBe('| Write report | Client A | Writing | 2024-01-15 09:00 | 2024-01-15 09:50 | 50m | 2 |  |  |');
+    expect(table[4]).toBe('| **Total** | | | | | 1h 15m | 3 | | |');
+  });
+
+  it('writes an iCalendar file with one event per session', () => {
+    const ics = formatSessionCalendar(
+      selectExportSessions(sessions, getTask, noFilter),
+      new Date('2024-02-01T12:00:00Z')
+    );
+    const lines = ics.split('\r\n');
+
+    expect(lines.slice(0, 2)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0']);
+    expect(lines.filter((l) => l === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines).toContain('UID:timer_sessions%2F2024-01-15T09%3A00%3A00@timegrain');
+    expect(lines).toContain('DTSTAMP:20240201T120000Z');
+    expect(lines).toContain(`DTSTART:${new Date('2024-01-15T14:00:00').toISOString().replace(/\.000|[-:]/g, '')}`);
+    expect(lines).toContain('SUMMARY:Review\\, final');
+    expect(lines).toContain('DESCRIPTION:Area: Client B\\nFeeling: strong');
+    expect(lines).toContain('DESCRIPTION:Area: Client A');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('keeps event UIDs stable and folds long lines', () => {
+    const longTask = { title: 'A'.repeat(100), area: '', category: '', status: 'today' } as unknown as Task;
+    const selected = selectExportSessions(sessions.slice(1, 2), () => longTask, noFilter);
+    const first = formatSessionCalendar(selected, new Date('2024-02-01T12:00:00Z'));
+    const again = formatSessionCalendar(selected, new Date('2024-03-01T12:00:00Z'));
+
+    const uid = (ics: string) => ics.split('\r\n').find((l) => l.startsWith('UID:'));
+    expect(uid(first)).toBe(uid(again));
+    expect(first.split('\r\n').every((l) => l.length <= 75)).toBe(true);
+    expect(first).toContain(`SUMMARY:${'A'.repeat(67)}\r\n ${'A'.repeat(33)}\r\n`);
+  });
+
+  it('keeps the event UID when a session moves into the archive', () => {
+    const live = sessions[1];
+    const archived = {
+      ...live,
+      archived: true,
+      originalPath: live.filePath,
+      filePath: `timer_sessions/archive/2024-01.md#${live.filePath}`,
+    };
+    const uid = (session: Session) =>
+      formatSessionCalendar(selectExportSessions([session], getTask, noFilter))
+        .split('\r\n')
+        .find((l) => l.startsWith('UID:'));
+
+    expect(uid(archived)).toBe(uid(live));
+    expect(uid(archived)).toBe('UID:timer_sessions%2F2024-01-15T09%3A00%3A00@timegrain');
+  });
+});
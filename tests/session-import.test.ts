@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCsv,
+  parseImportTable,
+  guessColumnMapping,
+  parseImportDuration,
+  buildImportEntries,
+  flagDuplicates,
+  matchTask,
+  type ImportColumnMapping,
+} from '../src/utils/session-import';
+import type { Session, Task } from '../src/types';
+
+const MINUTE_MS = 60 * 1000;
+
+function mapping(overrides: Partial<ImportColumnMapping>): ImportColumnMapping {
+  return { task: 'task', start: 'start', startTime: '', end: '', endTime: '', duration: '', durationUnit: 'minutes', ...overrides };
+}
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and line breaks', () => {
+    const rows = parseCsv('a,b,c\r\n"x, y","say ""hi""","two\nlines"\n\n1,2,3\n');
+    expect(rows).toEqual([
+      ['a', 'b', 'c'],
+      ['x, y', 'say "hi"', 'two\nlines'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('detects semicolon-separated files', () => {
+    expect(parseCsv('\uFEFFtask;start\nWrite;2024-01-15 09:00')).toEqual([
+      ['task', 'start'],
+      ['Write', '2024-01-15 09:00'],
+    ]);
+  });
+});
+
+describe('parseImportTable', () => {
+  it('reads JSON arrays nested in an object, skipping nested values', () => {
+    const json = JSON.stringify({
+      entries: [
+        { description: 'Write', start: '2024-01-15T09:00:00', duration: 1500, tags: ['a'] },
+        { description: 'Review', start: '2024-01-15T10:00:00', billable: false },
+      ],
+    });
+    const table = parseImportTable(json, 'json');
+    expect(table.columns).toEqual(['description', 'start', 'duration', 'billable']);
+    expect(table.records[0]).toEqual({ description: 'Write', start: '2024-01-15T09:00:00', duration: '1500' });
+    expect(table.records[1].billable).toBe('false');
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('recognizes Toggl and Clockify CSV headers', () => {
+    const columns = ['Project', 'Description', 'Start date', 'Start time', 'End date', 'End time', 'Duration'];
+    expect(guessColumnMapping(columns)).toEqual({
+      task: 'Description',
+      start: 'Start date',
+      startTime: 'Start time',
+      end: 'End date',
+      endTime: 'End time',
+      duration: 'Duration',
+      durationUnit: 'minutes',
+    });
+  });
+
+  it('uses a single start column and decimal hours', () => {
+    const result = guessColumnMapping(['Task', 'Start', 'Duration (decimal)']);
+    expect(result).toMatchObject({ task: 'Task', start: 'Start', startTime: '', end: '', duration: 'Duration (decimal)' });
+    expect(result.durationUnit).toBe('hours');
+  });
+});
+
+describe('parseImportDuration', () => {
+  it('reads clock durations regardless of unit', () => {
+    expect(parseImportDuration('1:30:15', 'minutes')).toBe(90 * MINUTE_MS + 15000);
+    expect(parseImportDuration('0:25', 'seconds')).toBe(25 * MINUTE_MS);
+  });
+
+  it('reads numbers in the chosen unit', () => {
+    expect(parseImportDuration('25', 'minutes')).toBe(25 * MINUTE_MS);
+    expect(parseImportDuration('1,5', 'hours')).toBe(90 * MINUTE_MS);
+    expect(parseImportDuration('1500', 'seconds')).toBe(25 * MINUTE_MS);
+    expect(parseImportDuration('soon', 'minutes')).toBeNull();
+  });
+});
+
+describe('buildImportEntries', () => {
+  it('builds sessions from end dates, end times and durations', () => {
+    const records: Record<string, string>[] = [
+      { task: 'Write', start: '2024-01-15T09:00:00', end: '2024-01-15T09:50:00' },
+      { task: 'Review', start: '2024-01-15 10:00:00', duration: '25' },
+      { task: 'Late', start: '2024-01-15', 'start time': '23:30', 'end time': '00:15' },
+    ];
+    const { entries, errors } = buildImportEntries(
+      records,
+      mapping({ end: 'end', startTime: 'start time', endTime: 'end time', duration: 'duration' })
+    );
+
+    expect(errors).toEqual([]);
+    expect(entries.map((e) => [e.row, e.taskName, e.end.getTime() - e.start.getTime()])).toEqual([
+      [1, 'Write', 50 * MINUTE_MS],
+      [2, 'Review', 25 * MINUTE_MS],
+      [3, 'Late', 45 * MINUTE_MS],
+    ]);
+    expect(entries[2].end.getDate()).toBe(16);
+  });
+
+  it('reports rows it cannot read', () => {
+    const records = [
+      { task: '', start: '2024-01-15T09:00:00', duration: '25' },
+      { task: 'Write', start: 'yesterday', duration: '25' },
+      { task: 'Write', start: '2024-01-15T09:00:00', duration: '' },
+      { task: 'Write', start: '2024-01-15T09:00:00', duration: '-5' },
+    ];
+    const { entries, errors } = buildImportEntries(records, mapping({ duration: 'duration' }));
+
+    expect(entries).toEqual([]);
+    expect(errors).toEqual([
+      { row: 1, message: 'No task' },
+      { row: 2, message: 'Can\'t read start "yesterday"' },
+      { row: 3, message: 'No end or duration' },
+      { row: 4, message: 'Ends before it starts' },
+    ]);
+  });
+});
+
+describe('flagDuplicates', () => {
+  const entry = (row: number, taskName: string, start: string, minutes: number) => {
+    const started = new Date(start);
+    return { row, taskName, start: started, end: new Date(started.getTime() + minutes * MINUTE_MS) };
+  };
+
+  it('flags sessions already recorded and repeated rows', () => {
+    const existing = [
+      {
+        filePath: 'timer_sessions/20240115-0900.md',
+        started: new Date('2024-01-15T09:00:00'),
+        ended: new Date('2024-01-15T09:25:00'),
+        kind: 'work',
+      },
+      {
+        filePath: 'timer_sessions/20240115-1100.md',
+        started: new Date('2024-01-15T11:00:00'),
+        ended: new Date('2024-01-15T11:25:00'),
+        kind: 'work',
+        abandoned: true,
+      },
+    ] as Session[];
+
+    const flagged = flagDuplicates(
+      [
+        entry(1, 'Write', '2024-01-15T09:00:30', 25),
+        entry(2, 'Review', '2024-01-15T10:00:00', 25),
+        entry(3, 'Review', '2024-01-15T10:00:00', 25),
+        entry(4, 'Other', '2024-01-15T10:00:00', 25),
+        entry(5, 'Write', '2024-01-15T11:00:00', 25),
+      ],
+      existing
+    );
+
+    expect(flagged.map((e) => e.duplicate)).toEqual([
+      'Already recorded in timer_sessions/20240115-0900.md',
+      undefined,
+      'Same as row 2',
+      undefined,
+      undefined,
+    ]);
+  });
+});
+
+describe('matchTask', () => {
+  const tasks = [
+    { name: 'write-report', title: 'Write report', path: 'tasks/write-report.md' },
+    { name: 'Review PR', title: '', path: 'tasks/Review PR.md' },
+  ] as Task[];
+
+  it('matches by title, file name or slug, ignoring case', () => {
+    expect(matchTask('write REPORT', tasks)?.path).toBe('tasks/write-report.md');
+    expect(matchTask('review pr', tasks)?.path).toBe('tasks/Review PR.md');
+    expect(matchTask('Unknown', tasks)).toBeUndefined();
+  });
+});
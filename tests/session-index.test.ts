@@ -0,0 +1,390 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { App, TFile as VaultFile } from 'obsidian';
+import { Events, TFile, TFolder } from './__mocks__/obsidian';
+import { SessionRepository } from '../src/data/session-repository';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import type { TimegrainSettings } from '../src/types';
+
+/**
+ * Tests for the in-memory session index in SessionRepository
+ */
+
+class FakeVault extends Events {
+  folder = new TFolder('timer_sessions');
+  notes = ['Write report', 'Review', 'Plan'].map((name) => new TFile(`tasks/${name}.md`));
+
+  getAbstractFileByPath(path: string): TFile | TFolder | null {
+    if (path === this.folder.path) return this.folder;
+    return (
+      (this.folder.children.find((f) => f.path === path) as TFile) ||
+      this.notes.find((f) => f.path === path) ||
+      null
+    );
+  }
+}
+
+class FakeMetadataCache extends Events {
+  frontmatter = new Map<string, Record<string, unknown>>();
+
+  constructor(private vault: FakeVault) {
+    super();
+  }
+
+  getFirstLinkpathDest(linkpath: string): TFile | null {
+    return this.vault.notes.find((f) => f.basename === linkpath || f.path === `${linkpath}.md`) || null;
+  }
+
+  fileToLinktext(file: TFile): string {
+    const shared = this.vault.notes.filter((f) => f.basename === file.basename).length > 1;
+    return shared ? file.path.replace(/\.md$/, '') : file.basename;
+  }
+
+  getFileCache(file: TFile): { frontmatter?: Record<string, unknown> } | null {
+    const frontmatter = this.frontmatter.get(file.path);
+    return frontmatter ? { frontmatter } : null;
+  }
+}
+
+describe('SessionRepository index', () => {
+  let vault: FakeVault;
+  let metadataCache: FakeMetadataCache;
+  let repo: SessionRepository;
+  let settings: TimegrainSettings;
+
+  function addSession(name: string, frontmatter: Record<string, unknown>): TFile {
+    const file = new TFile(`timer_sessions/${name}.md`);
+    vault.folder.children.push(file);
+    metadataCache.frontmatter.set(file.path, frontmatter);
+    return file;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 0, 16, 12, 0)); // While the Jan 16 session is running
+    vault = new FakeVault();
+    metadataCache = new FakeMetadataCache(vault);
+    settings = { ...DEFAULT_SETTINGS };
+    const fileManager = {
+      processFrontMatter: async (file: TFile, fn: (fm: Record<string, unknown>) => void) => {
+        fn(metadataCache.frontmatter.get(file.path) as Record<string, unknown>);
+      },
+    };
+    repo = new SessionRepository({ vault, metadataCache, fileManager } as unknown as App, settings);
+
+    addSession('20240115-0900', { started: '2024-01-15T09:00:00', ended: '2024-01-15T09:50:00', task: '[[Write report]]' });
+    addSession('20240115-1400', { started: '2024-01-15T14:00:00', ended: '2024-01-15T14:25:00', task: '[[Review]]' });
+    addSession('20240116-1000', { started: '2024-01-16T10:00:00', task: '[[Write report]]' });
+    addSession('notes', { title: 'Not a session' });
+  });
+
+  afterEach(() => {
+    repo.destroy();
+    vi.useRealTimers();
+  });
+
+  it('indexes valid session files, most recent first', async () => {
+    const sessions = await repo.getAllSessions();
+    expect(sessions.map((s) => s.filePath)).toEqual([
+      'timer_sessions/20240116-1000.md',
+      'timer_sessions/20240115-1400.md',
+      'timer_sessions/20240115-0900.md',
+    ]);
+  });
+
+  it('reads frontmatter once and serves later queries from memory', async () => {
+    const spy = vi.spyOn(metadataCache, 'getFileCache');
+    await repo.getAllSessions();
+    const reads = spy.mock.calls.length;
+
+    await repo.getAllSessions();
+    await repo.getSessionsForDate(new Date(2024, 0, 15));
+    await repo.getSessionStatsByTask();
+    expect(spy.mock.calls.length).toBe(reads);
+  });
+
+  it('answers range queries from date buckets', async () => {
+    const day = await repo.getSessionsForDate(new Date(2024, 0, 15));
+    expect(day.map((s) => s.taskName)).toEqual(['Review', 'Write report']);
+
+    const morning = await repo.getSessionsInRange(new Date(2024, 0, 15, 8), new Date(2024, 0, 15, 12));
+    expect(morning).toHaveLength(1);
+  });
+
+  it('groups sessions into local days from the configured day start', async () => {
+    addSession('20240116-0130', { started: '2024-01-16T01:30:00', ended: '2024-01-16T02:20:00', task: '[[Review]]' });
+
+    expect(await repo.getDailyPomodorosCounts()).toEqual({ '2024-01-15': 3, '2024-01-16': 2 });
+    expect(await repo.getSessionsForDate(new Date(2024, 0, 16))).toHaveLength(2);
+
+    settings.dayStartTime = '04:00';
+    expect(await repo.getDailyPomodorosCounts()).toEqual({ '2024-01-15': 5 });
+    const late = await repo.getSessionsForDate(new Date(2024, 0, 15));
+    expect(late.map((s) => s.filePath)).toContain('timer_sessions/20240116-0130.md');
+    expect(await repo.getSessionsForDate(new Date(2024, 0, 16))).toHaveLength(1);
+  });
+
+  it('splits sessions that span midnight across both days', async () => {
+    addSession('20240116-2330', { started: '2024-01-16T23:30:00', ended: '2024-01-17T01:00:00', task: '[[Review]]' });
+
+    const nextDay = await repo.getSessionsForDate(new Date(2024, 0, 17));
+    expect(nextDay.map((s) => s.filePath)).toEqual(['timer_sessions/20240116-2330.md']);
+    expect(await repo.getDailyPomodorosCounts()).toMatchObject({ '2024-01-16': 1, '2024-01-17': 2 });
+
+    // Unfinished sessions overlap every range up to now
+    const running = await repo.getSessionsInRange(new Date(2024, 0, 16, 11), new Date(2024, 0, 16, 11, 30));
+    expect(running.map((s) => s.filePath)).toEqual(['timer_sessions/20240116-1000.md']);
+  });
+
+  it('counts grains with the grain length each session recorded', async () => {
+    addSession('20240117-0900', { started: '2024-01-17T09:00:00', ended: '2024-01-17T10:40:00', task: '[[Plan]]', grain_minutes: 50 });
+    settings.cycleSeconds = 50 * 60;
+    settings.grainLengthHistory = [
+      { since: '', seconds: 25 * 60 },
+      { since: '2024-01-16T12:00:00', seconds: 50 * 60 },
+    ];
+
+    const counts = await repo.getDailyPomodorosCounts();
+    // Unstamped Jan 15 sessions use the 25 minute grains in effect back then
+    expect(counts).toMatchObject({ '2024-01-15': 3, '2024-01-17': 2 });
+  });
+
+  it('counts grains across the sessions of a paused work block', async () => {
+    const block = { task: '[[Plan]]', block_id: 'b-20240117-0900' };
+    addSession('20240117-0900', { ...block, started: '2024-01-17T09:00:00', ended: '2024-01-17T09:12:00' });
+    addSession('20240117-0920', { ...block, started: '2024-01-17T09:20:00', ended: '2024-01-17T09:33:00' });
+
+    expect(await repo.getDailyPomodorosCounts()).toMatchObject({ '2024-01-17': 1 });
+    expect((await repo.getSessionStatsByTask())['tasks/Plan.md'].actualPoms).toBe(1);
+
+    // The grain completes in the second session, so its half of the day gets it
+    const resumed = await repo.getSessionsInRange(new Date(2024, 0, 17, 9, 20), new Date(2024, 0, 17, 10));
+    expect(resumed.map((s) => s.pomodoros)).toEqual([1]);
+  });
+
+  it('credits each session of a block with its own grain length', async () => {
+    const block = { task: '[[Plan]]', block_id: 'b-20240117-0900' };
+    addSession('20240117-0900', { ...block, started: '2024-01-17T09:00:00', ended: '2024-01-17T09:30:00', grain_minutes: 25 });
+    // The grain length went up to 50 minutes during the pause
+    addSession('20240117-0940', { ...block, started: '2024-01-17T09:40:00', ended: '2024-01-17T10:10:00', grain_minutes: 50 });
+
+    // 1.2 grains of 25 minutes, then 0.6 of 50 minutes: no second grain yet
+    expect(await repo.getDailyPomodorosCounts()).toMatchObject({ '2024-01-17': 1 });
+    const [resumed, first] = await repo.getSessionsInRange(new Date(2024, 0, 17, 9), new Date(2024, 0, 17, 11));
+    expect([first.pomodoros, resumed.pomodoros]).toEqual([1, 0]);
+    expect(resumed.blockOffsetMs).toBe(60 * 60 * 1000);
+  });
+
+  it('backfills grain lengths on unstamped work sessions', async () => {
+    const processFrontMatter = vi.fn(async (file: TFile, fn: (fm: Record<string, unknown>) => void) => {
+      fn(metadataCache.frontmatter.get(file.path) as Record<string, unknown>);
+    });
+    repo = new SessionRepository(
+      { vault, metadataCache, fileManager: { processFrontMatter } } as unknown as App,
+      settings
+    );
+    addSession('20240115-1000-break', { started: '2024-01-15T10:00:00', ended: '2024-01-15T10:05:00', task: '', kind: 'break' });
+    settings.grainLengthHistory = [
+      { since: '', seconds: 25 * 60 },
+      { since: '2024-01-15T12:00:00', seconds: 50 * 60 },
+    ];
+
+    expect(await repo.countSessionsWithoutGrainLength()).toBe(3);
+    expect(await repo.backfillGrainLengths()).toEqual({ updated: 3, failed: 0 });
+    expect(metadataCache.frontmatter.get('timer_sessions/20240115-0900.md')?.grain_minutes).toBe(25);
+    expect(metadataCache.frontmatter.get('timer_sessions/20240115-1400.md')?.grain_minutes).toBe(50);
+    expect(metadataCache.frontmatter.get('timer_sessions/20240115-1000-break.md')?.grain_minutes).toBeUndefined();
+    expect(await repo.countSessionsWithoutGrainLength()).toBe(0);
+  });
+
+  it('keeps stats of tasks that share a name apart', async () => {
+    vault.notes.push(new TFile('archive/Review.md'));
+    addSession('20240117-0900', {
+      started: '2024-01-17T09:00:00',
+      ended: '2024-01-17T09:50:00',
+      task: '[[archive/Review|Review]]',
+      task_path: 'archive/Review.md',
+    });
+
+    const stats = await repo.getSessionStatsByTask();
+    expect(stats['tasks/Review.md'].totalMinutes).toBe(25);
+    expect(stats['archive/Review.md'].totalMinutes).toBe(50);
+  });
+
+  it('only merges sessions of the same task note', async () => {
+    vault.notes.push(new TFile('archive/Review.md'));
+    const other = addSession('20240115-1430', {
+      started: '2024-01-15T14:30:00',
+      ended: '2024-01-15T14:50:00',
+      task: '[[archive/Review|Review]]',
+      task_path: 'archive/Review.md',
+    });
+    const review = vault.folder.children[1] as TFile;
+
+    const [first] = await repo.getSessionsForDate(new Date(2024, 0, 15));
+    expect(repo.getTaskKey(first)).toBe('archive/Review.md');
+    await expect(
+      repo.mergeSessions(review as unknown as VaultFile, other as unknown as VaultFile)
+    ).rejects.toThrow('Only sessions of the same task can be merged');
+  });
+
+  it('links reassigned sessions unambiguously', async () => {
+    vault.notes.push(new TFile('archive/Review.md'));
+    const file = vault.folder.children[0] as TFile;
+
+    await repo.reassignSession(file as unknown as VaultFile, 'Review', 'archive/Review.md');
+    expect(metadataCache.frontmatter.get(file.path)).toMatchObject({
+      task: '[[archive/Review|Review]]',
+      task_path: 'archive/Review.md',
+    });
+  });
+
+  it('points sessions at a renamed task note', async () => {
+    addSession('20240117-0900', {
+      started: '2024-01-17T09:00:00',
+      ended: '2024-01-17T09:25:00',
+      task: '[[Write report]]',
+      task_path: 'tasks/Write report.md',
+    });
+    await repo.getAllSessions();
+
+    const renamed = new TFile('tasks/Final report.md');
+    vault.notes[0] = renamed;
+    vault.trigger('rename', renamed, 'tasks/Write report.md');
+
+    await vi.waitFor(() =>
+      expect(metadataCache.frontmatter.get('timer_sessions/20240117-0900.md')).toMatchObject({
+        task: '[[Final report]]',
+        task_path: 'tasks/Final report.md',
+      })
+    );
+    // Older sessions without task_path follow too, by their now-broken link
+    expect(metadataCache.frontmatter.get('timer_sessions/20240115-0900.md')?.task).toBe('[[Final report]]');
+    expect(metadataCache.frontmatter.get('timer_sessions/20240115-1400.md')?.task).toBe('[[Review]]');
+  });
+
+  it('reports sessions with unreadable times or missing tasks', async () => {
+    addSession('20240117-0900', { started: '2024-01-17T25:00:00', ended: '2024-01-17T09:25:00', task: '[[Plan]]' });
+    addSession('20240117-1000', { started: '2024-01-17T10:00:00', ended: '2024-01-17T10:25:00', task: '[[Old task]]' });
+    addSession('20240117-1100', { started: 'soon', task: '[[Plan]]', abandoned: true });
+
+    const issues = await repo.checkIntegrity();
+    expect(issues.map((i) => [i.kind, i.filePath, i.detail])).toEqual([
+      ['unparseable', 'timer_sessions/20240117-0900.md', 'Can\'t read started "2024-01-17T25:00:00"'],
+      ['missing-task', 'timer_sessions/20240117-1000.md', 'Task note "Old task" doesn\'t exist'],
+    ]);
+    expect(await repo.getSessionsForDate(new Date(2024, 0, 17))).toHaveLength(1);
+  });
+
+  it('rolls old sessions into a monthly archive note and keeps reading them', async () => {
+    const written = new Map<string, string>();
+    Object.assign(vault, {
+      createFolder: vi.fn(async () => undefined),
+      create: vi.fn(async (path: string, content: string) => {
+        written.set(path, content);
+        return new TFile(path);
+      }),
+      delete: vi.fn(async (file: TFile) => {
+        vault.folder.children = vault.folder.children.filter((f) => f !== file);
+        vault.trigger('delete', file);
+      }),
+    });
+    settings.archiveAfterMonths = 12;
+    await repo.getAllSessions();
+    vi.setSystemTime(new Date(2025, 1, 10));
+
+    expect(await repo.countArchivableSessions()).toEqual({ sessions: 2, months: 1 });
+    expect(await repo.archiveOldSessions()).toEqual({ archived: 2, months: 1, failed: 0 });
+
+    const content = written.get('timer_sessions/archive/2024-01.md') ?? '';
+    const frontmatter = JSON.parse(content.split('---\n')[1]);
+    expect(frontmatter).toMatchObject({ archive_month: '2024-01', session_count: 2 });
+    expect(frontmatter.sessions.map((e: { file: string }) => e.file)).toEqual([
+      'timer_sessions/20240115-0900.md',
+      'timer_sessions/20240115-1400.md',
+    ]);
+    expect(content).toContain('| **Total** | | | 1h 15m | |');
+
+    // Obsidian indexes the new note once it's written
+    vault.trigger('create', addSession('archive/2024-01', frontmatter));
+    await vi.waitFor(async () => expect(await repo.getSessionsForDate(new Date(2024, 0, 15))).toHaveLength(2));
+
+    const [review] = await repo.getSessionsForDate(new Date(2024, 0, 15));
+    expect(review).toMatchObject({
+      archived: true,
+      originalPath: 'timer_sessions/20240115-1400.md',
+      filePath: 'timer_sessions/archive/2024-01.md#timer_sessions/20240115-1400.md',
+    });
+    expect((await repo.getSessionStatsByTask())['tasks/Write report.md'].totalMinutes).toBe(50);
+    expect(await repo.countArchivableSessions()).toEqual({ sessions: 0, months: 0 });
+  });
+
+  it('finds unfinished sessions from the index', async () => {
+    const active = await repo.findActiveSessions();
+    expect(active.map((s) => s.filePath)).toEqual(['timer_sessions/20240116-1000.md']);
+  });
+
+  it('updates a session when its metadata changes', async () => {
+    await repo.getAllSessions();
+    const listener = vi.fn();
+    repo.on('sessions-updated', listener);
+
+    const file = vault.folder.children[2] as TFile;
+    metadataCache.frontmatter.set(file.path, {
+      started: '2024-01-16T10:00:00',
+      ended: '2024-01-16T11:00:00',
+      task: '[[Write report]]',
+    });
+    metadataCache.trigger('changed', file);
+
+    await vi.waitFor(async () => expect(await repo.findActiveSessions()).toHaveLength(0));
+    const stats = await repo.getSessionStatsByTask();
+    expect(stats['tasks/Write report.md'].totalMinutes).toBe(110);
+
+    vi.advanceTimersByTime(300);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('notifies listeners after an edit made through the repository', async () => {
+    const listener = vi.fn();
+    repo.on('sessions-updated', listener);
+
+    const file = vault.folder.children[0] as TFile;
+    await repo.markSessionAbandoned(file as unknown as VaultFile);
+    expect(listener).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(300);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('adds created files and drops deleted or moved ones', async () => {
+    await repo.getAllSessions();
+
+    const created = addSession('20240117-0800', { started: '2024-01-17T08:00:00', ended: '2024-01-17T08:25:00', task: '[[Plan]]' });
+    vault.trigger('create', created);
+    await vi.waitFor(async () => expect(await repo.getSessionsForDate(new Date(2024, 0, 17))).toHaveLength(1));
+
+    vault.trigger('delete', vault.folder.children[0]);
+    const moved = new TFile('archive/20240115-1400.md');
+    vault.trigger('rename', moved, 'timer_sessions/20240115-1400.md');
+
+    expect(await repo.getSessionsForDate(new Date(2024, 0, 15))).toHaveLength(0);
+  });
+
+  it('finds sessions in layout subfolders', async () => {
+    const year = new TFolder('timer_sessions/2024');
+    const file = new TFile('timer_sessions/2024/20240118-0900.md');
+    year.children.push(file);
+    vault.folder.children.push(year);
+    metadataCache.frontmatter.set(file.path, { started: '2024-01-18T09:00:00', ended: '2024-01-18T09:25:00', task: '[[Plan]]' });
+
+    expect(await repo.getSessionsForDate(new Date(2024, 0, 18))).toHaveLength(1);
+  });
+
+  it('stops watching after destroy', async () => {
+    await repo.getAllSessions();
+    repo.destroy();
+
+    vault.trigger('delete', vault.folder.children[0]);
+    expect(await repo.getSessionsForDate(new Date(2024, 0, 15))).toHaveLength(2);
+  });
+});
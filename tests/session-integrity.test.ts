@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { findSessionIssues } from '../src/utils/session-integrity';
+import type { Session } from '../src/types';
+
+function session(name: string, started: string, ended?: string, extra: Partial<Session> = {}): Session {
+  return {
+    filePath: `timer_sessions/${name}.md`,
+    started: new Date(started),
+    ended: ended ? new Date(ended) : undefined,
+    taskName: 'Write report',
+    kind: 'work',
+    interruptions: [],
+    grainMs: 25 * 60 * 1000,
+    file: { basename: name },
+    ...extra,
+  } as Session;
+}
+
+const allTasksExist = () => true;
+
+function summarize(sessions: Session[], taskExists: (s: Session) => boolean = allTasksExist) {
+  return findSessionIssues(sessions, taskExists).map((i) => [i.kind, i.filePath, i.other?.filePath]);
+}
+
+describe('findSessionIssues', () => {
+  it('finds nothing in clean data', () => {
+    expect(
+      summarize([
+        session('a', '2024-01-15T09:00:00', '2024-01-15T09:25:00'),
+        session('b', '2024-01-15T09:25:00', '2024-01-15T09:50:00'),
+      ])
+    ).toEqual([]);
+  });
+
+  it('flags sessions that end before they start', () => {
+    expect(summarize([session('a', '2024-01-15T09:00:00', '2024-01-15T08:00:00')])).toEqual([
+      ['ended-before-started', 'timer_sessions/a.md', undefined],
+    ]);
+  });
+
+  it('flags the earlier of two overlapping sessions, including nested ones', () => {
+    expect(
+      summarize([
+        session('a', '2024-01-15T09:00:00', '2024-01-15T11:00:00'),
+        session('b', '2024-01-15T09:30:00', '2024-01-15T10:00:00', { taskName: 'Review' }),
+        session('c', '2024-01-15T10:30:00', '2024-01-15T10:45:00', { kind: 'break', taskName: '' }),
+      ])
+    ).toEqual([
+      ['overlap', 'timer_sessions/a.md', 'timer_sessions/b.md'],
+      ['overlap', 'timer_sessions/a.md', 'timer_sessions/c.md'],
+    ]);
+  });
+
+  it('reports sync conflict copies as duplicates rather than overlaps', () => {
+    expect(
+      summarize([
+        session('a 1', '2024-01-15T09:00:00', '2024-01-15T09:25:00'),
+        session('a', '2024-01-15T09:00:00', '2024-01-15T09:25:00'),
+      ])
+    ).toEqual([['duplicate', 'timer_sessions/a 1.md', 'timer_sessions/a.md']]);
+  });
+
+  it('flags work sessions linking to missing task notes', () => {
+    const sessions = [
+      session('a', '2024-01-15T09:00:00', '2024-01-15T09:25:00', { taskName: 'Deleted' }),
+      session('b', '2024-01-15T09:30:00', '2024-01-15T09:35:00', { kind: 'break', taskName: '' }),
+    ];
+    expect(summarize(sessions, (s) => s.taskName !== 'Deleted')).toEqual([
+      ['missing-task', 'timer_sessions/a.md', undefined],
+    ]);
+  });
+
+  it('leaves abandoned and running sessions alone', () => {
+    expect(
+      summarize([
+        session('a', '2024-01-15T09:00:00', '2024-01-15T08:00:00', { abandoned: true }),
+        session('b', '2024-01-15T10:00:00', '2024-01-15T11:00:00', { abandoned: true }),
+        session('c', '2024-01-15T10:30:00'),
+        session('d', '2024-01-15T10:40:00', '2024-01-15T10:50:00'),
+      ])
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { getSessionFolder, planSessionMoves } from '../src/utils/session-paths';
+
+describe('getSessionFolder', () => {
+  const date = new Date(2024, 0, 15, 9, 30);
+
+  it('keeps the base directory for the flat layout', () => {
+    expect(getSessionFolder('timer_sessions', 'flat', date)).toBe('timer_sessions');
+  });
+
+  it('adds year and month subfolders', () => {
+    expect(getSessionFolder('timer_sessions', 'year', date)).toBe('timer_sessions/2024');
+    expect(getSessionFolder('timer_sessions', 'year-month', date)).toBe('timer_sessions/2024/01');
+  });
+});
+
+describe('planSessionMoves', () => {
+  const none = () => false;
+
+  it('moves files into their layout folder', () => {
+    const moves = planSessionMoves(
+      [
+        { path: 'timer_sessions/20240115-0930.md', started: new Date(2024, 0, 15, 9, 30) },
+        { path: 'timer_sessions/2023/20231231-2300.md', started: new Date(2023, 11, 31, 23) },
+      ],
+      'timer_sessions',
+      'year-month',
+      none
+    );
+
+    expect(moves).toEqual([
+      { from: 'timer_sessions/20240115-0930.md', to: 'timer_sessions/2024/01/20240115-0930.md' },
+      { from: 'timer_sessions/2023/20231231-2300.md', to: 'timer_sessions/2023/12/20231231-2300.md' },
+    ]);
+  });
+
+  it('skips files already in place', () => {
+    const moves = planSessionMoves(
+      [{ path: 'timer_sessions/2024/20240115-0930.md', started: new Date(2024, 0, 15, 9, 30) }],
+      'timer_sessions',
+      'year',
+      none
+    );
+    expect(moves).toEqual([]);
+  });
+
+  it('moves nested files back for the flat layout', () => {
+    const moves = planSessionMoves(
+      [{ path: 'timer_sessions/2024/01/20240115-0930.md', started: new Date(2024, 0, 15, 9, 30) }],
+      'timer_sessions',
+      'flat',
+      none
+    );
+    expect(moves).toEqual([
+      { from: 'timer_sessions/2024/01/20240115-0930.md', to: 'timer_sessions/20240115-0930.md' },
+    ]);
+  });
+
+  it('suffixes names that clash with existing or planned files', () => {
+    const started = new Date(2024, 0, 15, 9, 30);
+    const moves = planSessionMoves(
+      [
+        { path: 'timer_sessions/a/20240115-0930.md', started },
+        { path: 'timer_sessions/b/20240115-0930.md', started },
+      ],
+      'timer_sessions',
+      'year',
+      (path) => path === 'timer_sessions/2024/20240115-0930.md'
+    );
+
+    expect(moves.map((m) => m.to)).toEqual([
+      'timer_sessions/2024/20240115-0930-2.md',
+      'timer_sessions/2024/20240115-0930-3.md',
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findOverlappingSessions,
+  getSessionEnd,
+  getOverlapMs,
+  countGrainsInRange,
+  splitSessionByDay,
+} from '../src/utils/session-ranges';
+import { DayBoundaryService } from '../src/services/day-boundary-service';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import type { Session } from '../src/types';
+
+function session(started: string, ended?: string, extra: Partial<Session> = {}): Session {
+  return {
+    filePath: `timer_sessions/${started}.md`,
+    started: new Date(started),
+    ended: ended ? new Date(ended) : undefined,
+    kind: 'work',
+    interruptions: [],
+    grainMs: 25 * 60 * 1000,
+    ...extra,
+  } as Session;
+}
+
+describe('session ranges', () => {
+  const now = new Date('2024-01-15T18:00:00');
+
+  it('treats unfinished sessions as running until now', () => {
+    expect(getSessionEnd(session('2024-01-15T17:00:00'), now)).toBe(now);
+  });
+
+  describe('findOverlappingSessions', () => {
+    const sessions = [
+      session('2024-01-15T09:00:00', '2024-01-15T09:25:00'),
+      session('2024-01-15T10:00:00', '2024-01-15T10:25:00'),
+      session('2024-01-15T11:00:00', '2024-01-15T11:25:00', { abandoned: true }),
+      session('2024-01-15T17:30:00'),
+    ];
+    const find = (start: string, end: string) =>
+      findOverlappingSessions(sessions, new Date(start), new Date(end), now).map((s) => s.filePath);
+
+    it('finds sessions that intersect the range', () => {
+      expect(find('2024-01-15T09:10:00', '2024-01-15T10:05:00')).toEqual([
+        'timer_sessions/2024-01-15T09:00:00.md',
+        'timer_sessions/2024-01-15T10:00:00.md',
+      ]);
+    });
+
+    it('allows ranges that only touch at the edges', () => {
+      expect(find('2024-01-15T09:25:00', '2024-01-15T10:00:00')).toEqual([]);
+    });
+
+    it('ignores abandoned sessions', () => {
+      expect(find('2024-01-15T11:05:00', '2024-01-15T11:10:00')).toEqual([]);
+    });
+
+    it('includes running sessions', () => {
+      expect(find('2024-01-15T17:40:00', '2024-01-15T17:50:00')).toEqual([
+        'timer_sessions/2024-01-15T17:30:00.md',
+      ]);
+    });
+  });
+
+  describe('splitting across days', () => {
+    // 23:30-01:00: 90 minutes, 3 grains completing at 23:55, 00:20 and 00:45
+    const overnight = session('2024-01-15T23:30:00', '2024-01-16T01:00:00', {
+      durationMs: 90 * 60 * 1000,
+      pomodoros: 3,
+    });
+    const midnight = new Date('2024-01-16T00:00:00');
+
+    it('measures the part of a session inside a range', () => {
+      expect(getOverlapMs(overnight, new Date('2024-01-15T00:00:00'), midnight)).toBe(30 * 60 * 1000);
+      expect(getOverlapMs(overnight, midnight, new Date('2024-01-17T00:00:00'))).toBe(60 * 60 * 1000);
+      expect(getOverlapMs(overnight, new Date('2024-01-16T02:00:00'), new Date('2024-01-16T03:00:00'))).toBe(0);
+    });
+
+    it('counts grains where they complete', () => {
+      expect(countGrainsInRange(overnight, new Date('2024-01-15T00:00:00'), midnight)).toBe(1);
+      expect(countGrainsInRange(overnight, midnight, new Date('2024-01-17T00:00:00'))).toBe(2);
+      expect(countGrainsInRange(overnight, new Date('2024-01-16T00:20:00'), new Date('2024-01-16T00:45:00'))).toBe(1);
+    });
+
+    it('splits a session across the days it covers', () => {
+      const days = new DayBoundaryService({ ...DEFAULT_SETTINGS });
+      expect(splitSessionByDay(overnight, days)).toEqual([
+        { dayKey: '2024-01-15', durationMs: 30 * 60 * 1000, grains: 1 },
+        { dayKey: '2024-01-16', durationMs: 60 * 60 * 1000, grains: 2 },
+      ]);
+    });
+
+    it('keeps a session on one day when it ends before the day start', () => {
+      const days = new DayBoundaryService({ ...DEFAULT_SETTINGS, dayStartTime: '04:00' });
+      expect(splitSessionByDay(overnight, days)).toEqual([
+        { dayKey: '2024-01-15', durationMs: 90 * 60 * 1000, grains: 3 },
+      ]);
+    });
+
+    it('uses the grain length the session was recorded with', () => {
+      const long = { ...overnight, grainMs: 50 * 60 * 1000, pomodoros: 1 };
+      expect(countGrainsInRange(long, new Date('2024-01-15T00:00:00'), midnight)).toBe(0);
+      expect(countGrainsInRange(long, midnight, new Date('2024-01-17T00:00:00'))).toBe(1);
+    });
+
+    it('continues a grain started earlier in the work block', () => {
+      const resumed = session('2024-01-15T23:50:00', '2024-01-16T00:10:00', { blockOffsetMs: 10 * 60 * 1000 });
+      expect(countGrainsInRange(resumed, new Date('2024-01-15T00:00:00'), midnight)).toBe(0);
+      expect(countGrainsInRange(resumed, midnight, new Date('2024-01-17T00:00:00'))).toBe(1);
+    });
+
+    it('does not add an empty day for a session ending exactly at midnight', () => {
+      const days = new DayBoundaryService({ ...DEFAULT_SETTINGS });
+      const evening = session('2024-01-15T23:00:00', '2024-01-16T00:00:00', { pomodoros: 2 });
+      expect(splitSessionByDay(evening, days).map((s) => s.dayKey)).toEqual(['2024-01-15']);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  parseTargetPresets,
+  formatTargetPresets,
+  formatTargetPresetLabel,
+  resolveTarget,
+} from '../src/utils/targets';
+import { TimerService } from '../src/services/timer-service';
+import type { SessionRepository } from '../src/data/session-repository';
+import { createMockSessionRepository, type MockSessionRepository } from './helpers/mock-session-repository';
+
+describe('target presets', () => {
+  describe('parseTargetPresets', () => {
+    it('parses minutes and grains with actions', () => {
+      expect(parseTargetPresets('45m:overtime, 2g:complete, 90m:pause')).toEqual([
+        { amount: 45, unit: 'minutes', onExpiry: 'overtime' },
+        { amount: 2, unit: 'grains', onExpiry: 'complete' },
+        { amount: 90, unit: 'minutes', onExpiry: 'pause' },
+      ]);
+    });
+
+    it('defaults the action to overtime', () => {
+      expect(parseTargetPresets('30m')).toEqual([
+        { amount: 30, unit: 'minutes', onExpiry: 'overtime' },
+      ]);
+    });
+
+    it('tolerates whitespace and case', () => {
+      expect(parseTargetPresets(' 3G : Complete ')).toEqual([
+        { amount: 3, unit: 'grains', onExpiry: 'complete' },
+      ]);
+    });
+
+    it('skips invalid entries', () => {
+      expect(parseTargetPresets('abc, 0m, 10h, 5m:explode, , 20m')).toEqual([
+        { amount: 20, unit: 'minutes', onExpiry: 'overtime' },
+      ]);
+    });
+  });
+
+  it('round-trips through formatTargetPresets', () => {
+    const text = '1g:complete, 45m:overtime, 90m:pause';
+    expect(formatTargetPresets(parseTargetPresets(text))).toBe(text);
+  });
+
+  it('formats chip labels', () => {
+    expect(formatTargetPresetLabel({ amount: 45, unit: 'minutes', onExpiry: 'overtime' })).toBe('45m');
+    expect(formatTargetPresetLabel({ amount: 1, unit: 'grains', onExpiry: 'complete' })).toBe('1 grain');
+    expect(formatTargetPresetLabel({ amount: 2, unit: 'grains', onExpiry: 'complete' })).toBe('2 grains');
+  });
+
+  it('resolves grains using the current cycle length', () => {
+    expect(resolveTarget({ amount: 2, unit: 'grains', onExpiry: 'pause' }, 50 * 60)).toEqual({
+      durationMs: 100 * 60 * 1000,
+      onExpiry: 'pause',
+    });
+    expect(resolveTarget({ amount: 45, unit: 'minutes', onExpiry: 'overtime' }, 25 * 60).durationMs).toBe(
+      45 * 60 * 1000
+    );
+  });
+});
+
+describe('TimerService targets', () => {
+  let repo: MockSessionRepository;
+  let timer: TimerService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repo = createMockSessionRepository();
+    timer = new TimerService(repo as unknown as SessionRepository);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('writes the target into the session frontmatter', async () => {
+    await timer.start('Task', null, { durationMs: 45 * 60 * 1000, onExpiry: 'overtime' });
+
+    expect(repo.createSession).toHaveBeenCalledWith(
+      'Task',
+      expect.any(Date),
+      expect.objectContaining({ target_minutes: 45, target_action: 'overtime' })
+    );
+  });
+
+  it('counts down to the target', async () => {
+    await timer.start('Task', null, { durationMs: 10 * 60 * 1000, onExpiry: 'overtime' });
+    vi.advanceTimersByTime(4 * 60 * 1000);
+
+    const status = timer.getStatus();
+    expect(status.targetSeconds).toBe(600);
+    expect(status.remainingSeconds).toBe(360);
+    expect(status.overtimeSeconds).toBe(0);
+  });
+
+  it('keeps running as overtime and records it on complete', async () => {
+    const onReached = vi.fn();
+    timer.on('target-reached', onReached);
+
+    await timer.start('Task', null, { durationMs: 10 * 60 * 1000, onExpiry: 'overtime' });
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    timer.tick();
+    await vi.waitFor(() => expect(onReached).toHaveBeenCalledWith({ action: 'overtime', sessionFile: null }));
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    expect(timer.isRunning()).toBe(true);
+    expect(timer.getStatus().overtimeSeconds).toBe(300);
+
+    await timer.complete();
+    expect(repo.completeSession.mock.calls[0][4].overtime_minutes).toBe(5);
+  });
+
+  it('completes automatically when the preset says so', async () => {
+    await timer.start('Task', null, { durationMs: 10 * 60 * 1000, onExpiry: 'complete' });
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    timer.tick();
+
+    expect(timer.isIdle()).toBe(true);
+    await vi.waitFor(() => expect(repo.completeSession).toHaveBeenCalled());
+    expect(repo.completeSession.mock.calls[0][1]).toBe('complete');
+  });
+
+  it('pauses automatically and splits overtime across resumed sessions', async () => {
+    await timer.start('Task', null, { durationMs: 10 * 60 * 1000, onExpiry: 'pause' });
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    timer.tick();
+    await vi.waitFor(() => expect(timer.isPaused()).toBe(true));
+    expect(repo.completeSession.mock.calls[0][4].overtime_minutes).toBeUndefined();
+
+    await timer.resume();
+    vi.advanceTimersByTime(3 * 60 * 1000);
+    timer.tick();
+    expect(timer.isRunning()).toBe(true);
+
+    await timer.complete();
+    expect(repo.completeSession.mock.calls[1][4].overtime_minutes).toBe(3);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseDependencies,
+  findBlockingDependencies,
+  findDependencyCycles,
+  formatBlockedBy,
+} from '../src/utils/task-dependencies';
+
+describe('parseDependencies', () => {
+  it('reads wikilinks, lists and plain names', () => {
+    expect(parseDependencies('[[Setup database]]')).toEqual(['Setup database']);
+    expect(parseDependencies('[[work/tasks/Setup database.md|Setup]], [[Design#Schema]]')).toEqual([
+      'work/tasks/Setup database',
+      'Design',
+    ]);
+    expect(parseDependencies(['[[Setup database]]', 'Design', '[[Design]]'])).toEqual(['Setup database', 'Design']);
+    expect(parseDependencies('Setup database, Design')).toEqual(['Setup database', 'Design']);
+  });
+
+  it('ignores empty and non-text values', () => {
+    expect(parseDependencies(null)).toEqual([]);
+    expect(parseDependencies('')).toEqual([]);
+    expect(parseDependencies([3, null, '[[]]'])).toEqual([]);
+  });
+});
+
+describe('findBlockingDependencies', () => {
+  it('lists the dependencies that are still open', () => {
+    const graph = new Map([
+      ['deploy.md', ['build.md', 'review.md']],
+      ['build.md', []],
+      ['review.md', ['review.md']],
+    ]);
+    const open = new Set(['review.md']);
+
+    const blocking = findBlockingDependencies(graph, (path) => open.has(path));
+    expect(Array.from(blocking)).toEqual([['deploy.md', ['review.md']]]);
+    expect(formatBlockedBy(['tasks/review.md'])).toBe('Waiting on review');
+  });
+});
+
+describe('findDependencyCycles', () => {
+  it('finds each cycle once, starting from its first path', () => {
+    const graph = new Map([
+      ['c.md', ['a.md']],
+      ['a.md', ['b.md']],
+      ['b.md', ['c.md', 'd.md']],
+      ['d.md', []],
+      ['e.md', ['e.md']],
+      ['f.md', ['missing.md']],
+    ]);
+
+    expect(findDependencyCycles(graph)).toEqual([['a.md', 'b.md', 'c.md'], ['e.md']]);
+  });
+
+  it('reports nothing for a chain of dependencies', () => {
+    const graph = new Map([
+      ['a.md', ['b.md', 'c.md']],
+      ['b.md', ['c.md']],
+      ['c.md', []],
+    ]);
+    expect(findDependencyCycles(graph)).toEqual([]);
+  });
+});
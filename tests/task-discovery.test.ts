@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  globToRegExp,
+  findTaskFolder,
+  isTaskNote,
+  parsePropertyRule,
+  getAreaFolderName,
+  type TaskDiscoveryRules,
+} from '../src/utils/task-discovery';
+
+function rules(overrides: Partial<TaskDiscoveryRules> = {}): TaskDiscoveryRules {
+  return {
+    folders: ['**/tasks'],
+    property: '',
+    tag: '',
+    include: [],
+    exclude: ['**/templates', '**/template'],
+    sessionsDir: 'timer_sessions',
+    ...overrides,
+  };
+}
+
+describe('globToRegExp', () => {
+  it('keeps * within a folder name and lets ** span folders', () => {
+    expect(globToRegExp('Projects/*/Todo').test('projects/alpha/todo')).toBe(true);
+    expect(globToRegExp('Projects/*/Todo').test('Projects/a/b/Todo')).toBe(false);
+    expect(globToRegExp('**/tasks').test('tasks')).toBe(true);
+    expect(globToRegExp('**/tasks').test('work/client/tasks')).toBe(true);
+    expect(globToRegExp('Archive/**').test('Archive/2023/old.md')).toBe(true);
+    expect(globToRegExp('notes/task?.md').test('notes/task1.md')).toBe(true);
+  });
+});
+
+describe('isTaskNote', () => {
+  it('matches the default tasks folders as before', () => {
+    expect(isTaskNote('tasks/Write report.md', rules())).toBe(true);
+    expect(isTaskNote('work/Tasks/sub/Review.md', rules())).toBe(true);
+    expect(isTaskNote('work/notes/Review.md', rules())).toBe(false);
+    expect(isTaskNote('work/tasks/image.png', rules())).toBe(false);
+    expect(isTaskNote('templates/tasks/Template.md', rules())).toBe(false);
+    expect(isTaskNote('work/tasks/.hidden/Draft.md', rules())).toBe(false);
+  });
+
+  it('excludes the configured sessions directory rather than a fixed name', () => {
+    const custom = rules({ folders: ['**'], sessionsDir: 'Logs/pomodoro' });
+    expect(isTaskNote('Logs/pomodoro/tasks/20240115-0900.md', custom)).toBe(false);
+    expect(isTaskNote('timer_sessions/20240115-0900.md', custom)).toBe(true);
+  });
+
+  it('finds tasks by property, tag or include pattern', () => {
+    const custom = rules({ folders: [], property: 'type: task', tag: '#task', include: ['Inbox/todo-*.md'] });
+
+    expect(isTaskNote('Notes/A.md', custom, { frontmatter: { type: 'Task' }, tags: [] })).toBe(true);
+    expect(isTaskNote('Notes/B.md', custom, { frontmatter: { type: ['note', 'task'] }, tags: [] })).toBe(true);
+    expect(isTaskNote('Notes/C.md', custom, { frontmatter: { type: 'note' }, tags: ['#project'] })).toBe(false);
+    expect(isTaskNote('Notes/D.md', custom, { tags: ['#task/waiting'] })).toBe(true);
+    expect(isTaskNote('Notes/E.md', custom, { tags: ['#tasks'] })).toBe(false);
+    expect(isTaskNote('Inbox/todo-call.md', custom)).toBe(true);
+    expect(isTaskNote('Notes/A.md', custom)).toBe(false);
+  });
+
+  it('lets exclude patterns win over every other rule', () => {
+    const custom = rules({ tag: 'task', exclude: ['Archive/**', '**/*.excalidraw.md'] });
+    expect(isTaskNote('Archive/tasks/Old.md', custom)).toBe(false);
+    expect(isTaskNote('Archive/Old.md', custom, { tags: ['#task'] })).toBe(false);
+    expect(isTaskNote('work/tasks/Sketch.excalidraw.md', custom)).toBe(false);
+  });
+});
+
+describe('parsePropertyRule', () => {
+  it('reads "key: value" and bare keys', () => {
+    expect(parsePropertyRule('type: task')).toEqual({ key: 'type', value: 'task' });
+    expect(parsePropertyRule('is_task')).toEqual({ key: 'is_task', value: null });
+    expect(parsePropertyRule('  ')).toBeNull();
+  });
+});
+
+describe('getAreaFolderName', () => {
+  it('uses the folder holding the outermost task folder', () => {
+    expect(findTaskFolder('area/subarea/tasks/nested/tasks/Task.md', rules())).toBe('area/subarea/tasks');
+    expect(getAreaFolderName('area/subarea/tasks/Task.md', rules())).toBe('subarea');
+    expect(getAreaFolderName('tasks/Task.md', rules())).toBeNull();
+    expect(getAreaFolderName('Projects/Alpha/Todo/Task.md', rules({ folders: ['Projects/*/Todo'] }))).toBe('Alpha');
+  });
+
+  it('uses the note folder for tasks found another way', () => {
+    const custom = rules({ folders: [], tag: 'task' });
+    expect(getAreaFolderName('Work/Client/Call.md', custom)).toBe('Client');
+    expect(getAreaFolderName('Call.md', custom)).toBeNull();
+  });
+});
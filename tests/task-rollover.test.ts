@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { App } from 'obsidian';
+import { TFile } from './__mocks__/obsidian';
+import { TaskRepository } from '../src/data/task-repository';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import type { Task, TimegrainSettings } from '../src/types';
+
+/**
+ * Tests for rolling stale tasks over to their next status
+ */
+
+describe('TaskRepository rollover', () => {
+  let settings: TimegrainSettings;
+  let repo: TaskRepository;
+  let tasks: Task[];
+
+  function addTask(name: string, modified: Date): Task {
+    const task = {
+      path: `tasks/${name}.md`,
+      name,
+      title: name,
+      status: 'today',
+      modificationDate: modified.getTime(),
+      file: new TFile(`tasks/${name}.md`),
+    } as unknown as Task;
+    tasks.push(task);
+    return task;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 0, 16, 9, 0));
+    settings = { ...DEFAULT_SETTINGS };
+    tasks = [];
+    const fileManager = { processFrontMatter: vi.fn(async () => {}) };
+    repo = new TaskRepository({ fileManager } as unknown as App, settings);
+    vi.spyOn(repo, 'getAllTasks').mockImplementation(() => tasks);
+  });
+
+  afterEach(() => {
+    repo.destroy();
+    vi.useRealTimers();
+  });
+
+  it('rolls over tasks last changed before today', async () => {
+    const yesterday = addTask('Write report', new Date(2024, 0, 15, 22, 0));
+    const earlier = addTask('Review', new Date(2024, 0, 16, 0, 30));
+
+    expect(await repo.rolloverStaleTasks()).toBe(1);
+    expect(yesterday.status).toBe('this week');
+    expect(earlier.status).toBe('today');
+  });
+
+  it('counts changes before the configured day start toward the day before', async () => {
+    settings.dayStartTime = '04:00';
+    const lastNight = addTask('Write report', new Date(2024, 0, 16, 1, 30));
+    const thisMorning = addTask('Review', new Date(2024, 0, 16, 4, 15));
+
+    expect(await repo.rolloverStaleTasks()).toBe(1);
+    expect(lastNight.status).toBe('this week');
+    expect(thisMorning.status).toBe('today');
+  });
+
+  it('keeps tasks of the evening before until the day start has passed', async () => {
+    settings.dayStartTime = '04:00';
+    vi.setSystemTime(new Date(2024, 0, 16, 2, 0));
+    const evening = addTask('Write report', new Date(2024, 0, 15, 21, 0));
+
+    expect(await repo.rolloverStaleTasks()).toBe(0);
+    expect(evening.status).toBe('today');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TASK_STATUSES,
+  canTransition,
+  getNextStatuses,
+  getPlanTargetStatus,
+  getStatusesInGroup,
+  getStatusLabel,
+  resolveStatus,
+  createStatusDefinition,
+  renameStatus,
+  migrateStatusDefinitions,
+} from '../src/utils/task-status';
+import type { TaskStatusDefinition } from '../src/types';
+
+function workflow(): TaskStatusDefinition[] {
+  return [
+    { id: 'doing', label: 'Doing', color: '#4ade80', group: 'active', transitions: ['blocked', 'done'] },
+    { id: 'next', label: 'Next', color: '#60a5fa', group: 'planned', transitions: ['doing'] },
+    { id: 'waiting on client', label: 'Waiting on client', color: '#fb923c', group: 'parked', transitions: [] },
+    { id: 'blocked', label: 'Blocked', color: '#ef4444', group: 'parked', transitions: ['doing'] },
+    { id: 'done', label: 'Done', color: '#22c55e', group: 'done', transitions: [], rolloverTo: 'next' },
+  ];
+}
+
+describe('task status workflow', () => {
+  it('keeps the statuses Timegrain started with', () => {
+    expect(getStatusesInGroup(DEFAULT_TASK_STATUSES, 'active')).toEqual(['today', 'in progress']);
+    expect(getStatusesInGroup(DEFAULT_TASK_STATUSES, 'planned')).toEqual(['this week', 'this month', 'backlog', 'not started']);
+    expect(getStatusesInGroup(DEFAULT_TASK_STATUSES, 'done')).toEqual(['done', 'archived']);
+    expect(getPlanTargetStatus(DEFAULT_TASK_STATUSES)).toBe('today');
+  });
+
+  it('allows only listed transitions, and any move from statuses without a list', () => {
+    const definitions = workflow();
+    expect(canTransition(definitions, 'next', 'doing')).toBe(true);
+    expect(canTransition(definitions, 'next', 'done')).toBe(false);
+    expect(canTransition(definitions, 'next', 'next')).toBe(true);
+    expect(canTransition(definitions, 'waiting on client', 'done')).toBe(true);
+    expect(canTransition(definitions, 'someday', 'done')).toBe(true);
+    expect(getNextStatuses(definitions, 'doing').map((d) => d.id)).toEqual(['blocked', 'done']);
+  });
+
+  it('labels statuses and falls back for ones not defined', () => {
+    const definitions = workflow();
+    expect(getStatusLabel(definitions, 'waiting on client')).toBe('Waiting on client');
+    expect(getStatusLabel(definitions, 'someday')).toBe('someday');
+    expect(resolveStatus(definitions, 'backlog', 'planned')).toBe('next');
+    expect(resolveStatus(definitions, 'blocked', 'planned')).toBe('blocked');
+  });
+
+  it('renames a status everywhere it is referenced', () => {
+    const definitions = workflow();
+    renameStatus(definitions, 'done', 'shipped');
+    expect(definitions[4].id).toBe('shipped');
+    expect(definitions[0].transitions).toEqual(['blocked', 'shipped']);
+
+    renameStatus(definitions, 'next', 'up next');
+    expect(definitions[4].rolloverTo).toBe('up next');
+    expect(createStatusDefinition([...definitions, createStatusDefinition(definitions)]).id).toBe('new status 2');
+  });
+
+  it('moves statuses from settings saved before workflows into groups', () => {
+    const definitions = migrateStatusDefinitions(undefined, {
+      taskStatuses: ['today', 'this week'],
+      completedStatuses: ['done', 'Cancelled'],
+    });
+
+    expect(getStatusesInGroup(definitions, 'active')).toEqual(['today', 'this week']);
+    expect(getStatusesInGroup(definitions, 'done')).toEqual(['done', 'cancelled']);
+    expect(definitions.find((d) => d.id === 'in progress')?.group).toBe('planned');
+    expect(definitions.find((d) => d.id === 'archived')?.group).toBe('parked');
+    expect(DEFAULT_TASK_STATUSES.find((d) => d.id === 'in progress')?.group).toBe('active');
+  });
+
+  it('uses saved definitions as they are', () => {
+    const saved = workflow();
+    const definitions = migrateStatusDefinitions(saved, { completedStatuses: ['next'] });
+    expect(definitions).toEqual(saved);
+    expect(definitions[0]).not.toBe(saved[0]);
+  });
+});
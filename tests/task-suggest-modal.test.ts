@@ -94,6 +94,9 @@ function createTask(
     category: opts.category ?? '',
     scope: opts.scope ?? '',
     tags: opts.tags ?? [],
+    dependsOn: [],
+    blocked: false,
+    blockedBy: [],
     modificationDate: opts.modificationDate ?? Date.now(),
     file: {} as Task['file'],
   };
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TimerService, type BreakSettings } from '../src/services/timer-service';
+import type { SessionRepository } from '../src/data/session-repository';
+import { createMockSessionRepository, type MockSessionRepository } from './helpers/mock-session-repository';
+
+/**
+ * Tests for break cycles in TimerService
+ * Uses one-minute grains and second-long breaks so boundaries are easy to reach with fake timers
+ */
+
+const GRAIN_MS = 60 * 1000;
+
+describe('TimerService breaks', () => {
+  let repo: MockSessionRepository;
+  let settings: BreakSettings;
+  let timer: TimerService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repo = createMockSessionRepository();
+    settings = {
+      breakBehavior: 'off',
+      shortBreakSeconds: 2,
+      longBreakSeconds: 5,
+      longBreakInterval: 2,
+    };
+    timer = new TimerService(repo as unknown as SessionRepository, GRAIN_MS, settings);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('closes the work session and hands it over for rating before a break', async () => {
+    const onBreak = vi.fn();
+    timer.on('break-start', onBreak);
+
+    await timer.start('Task');
+    await timer.startBreak('short');
+
+    expect(repo.completeSession).toHaveBeenCalledTimes(1);
+    expect(repo.completeSession.mock.calls[0][1]).toBe('pause');
+    expect(repo.createBreakSession).toHaveBeenCalledWith('short', expect.any(Date));
+    expect(onBreak).toHaveBeenCalledWith({
+      breakType: 'short',
+      durationMs: 2000,
+      sessionFile: expect.objectContaining({ path: 'timer_sessions/s1.md' }),
+    });
+
+    const status = timer.getStatus();
+    expect(status.mode).toBe('break');
+    expect(status.breakType).toBe('short');
+    expect(status.remainingSeconds).toBe(2);
+  });
+
+  it('returns to the paused work block when the break ends', async () => {
+    await timer.start('Task', 'tasks/Task.md');
+    vi.advanceTimersByTime(GRAIN_MS);
+    await timer.startBreak('short');
+    vi.advanceTimersByTime(2000);
+    timer.tick();
+
+    await vi.waitFor(() => expect(timer.isPaused()).toBe(true));
+    expect(timer.isOnBreak()).toBe(false);
+    expect(timer.getStatus()).toMatchObject({ taskName: 'Task', taskPath: 'tasks/Task.md', elapsedSeconds: 60 });
+
+    await timer.resume();
+    const blockId = repo.createSession.mock.calls[0][2].block_id;
+    expect(repo.createSession.mock.calls[1][2].block_id).toBe(blockId);
+  });
+
+  it('reaches a multi-grain target with automatic breaks between grains', async () => {
+    settings.breakBehavior = 'auto';
+    const onReached = vi.fn();
+    timer.on('target-reached', onReached);
+
+    await timer.start('Task', null, { durationMs: 2 * GRAIN_MS, onExpiry: 'complete' });
+    for (let grain = 0; grain < 2; grain++) {
+      vi.advanceTimersByTime(GRAIN_MS);
+      timer.tick();
+      if (grain === 0) {
+        await vi.waitFor(() => expect(timer.isOnBreak()).toBe(true));
+        vi.advanceTimersByTime(2000);
+        timer.tick();
+        await vi.waitFor(() => expect(timer.isPaused()).toBe(true));
+        await timer.resume();
+      }
+    }
+
+    await vi.waitFor(() => expect(onReached).toHaveBeenCalledWith(expect.objectContaining({ action: 'complete' })));
+    expect(repo.completeSession).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'timer_sessions/s2.md' }),
+      'complete',
+      expect.any(Date),
+      expect.any(Date),
+      expect.any(Object)
+    );
+  });
+
+  it('counts the break down and returns to idle when it runs out', async () => {
+    const onComplete = vi.fn();
+    timer.on('break-complete', onComplete);
+
+    await timer.startBreak('short');
+    vi.advanceTimersByTime(1000);
+    timer.tick();
+    expect(timer.getStatus().remainingSeconds).toBe(1);
+
+    vi.advanceTimersByTime(1000);
+    timer.tick();
+
+    expect(timer.isIdle()).toBe(true);
+    expect(timer.isOnBreak()).toBe(false);
+    await vi.waitFor(() =>
+      expect(onComplete).toHaveBeenCalledWith({ breakType: 'short', skipped: false })
+    );
+  });
+
+  it('offers a break when a grain completes in offer mode', async () => {
+    settings.breakBehavior = 'offer';
+    const onOffer = vi.fn();
+    timer.on('break-offer', onOffer);
+
+    await timer.start('Task');
+    vi.advanceTimersByTime(GRAIN_MS);
+    timer.tick();
+
+    expect(onOffer).toHaveBeenCalledWith({ breakType: 'short' });
+    expect(timer.isOnBreak()).toBe(false);
+  });
+
+  it('starts the break automatically in auto mode', async () => {
+    settings.breakBehavior = 'auto';
+
+    await timer.start('Task');
+    vi.advanceTimersByTime(GRAIN_MS);
+    timer.tick();
+    await vi.waitFor(() => expect(timer.isOnBreak()).toBe(true));
+
+    expect(repo.createBreakSession).toHaveBeenCalledWith('short', expect.any(Date));
+  });
+
+  it('suggests a long break after the configured number of grains', async () => {
+    await timer.start('Task');
+    vi.advanceTimersByTime(GRAIN_MS);
+    timer.tick();
+    expect(timer.getNextBreakType()).toBe('short');
+
+    vi.advanceTimersByTime(GRAIN_MS);
+    timer.tick();
+    expect(timer.getNextBreakType()).toBe('long');
+
+    await timer.startBreak();
+    expect(timer.getStatus().breakType).toBe('long');
+    expect(timer.getStatus().remainingSeconds).toBe(5);
+
+    await timer.skipBreak();
+    expect(timer.getNextBreakType()).toBe('short');
+  });
+
+  it('does not pause a break', async () => {
+    await timer.startBreak('short');
+    await expect(timer.pause()).rejects.toThrow('Breaks cannot be paused');
+
+    await timer.togglePause();
+    expect(timer.isOnBreak()).toBe(true);
+  });
+
+  it('ends the break early on complete without returning a file to rate', async () => {
+    const onComplete = vi.fn();
+    timer.on('break-complete', onComplete);
+
+    await timer.startBreak('short');
+    const result = await timer.complete();
+
+    expect(result).toBeNull();
+    expect(timer.isIdle()).toBe(true);
+    expect(onComplete).toHaveBeenCalledWith({ breakType: 'short', skipped: true });
+  });
+});
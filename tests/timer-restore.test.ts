@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TimerService } from '../src/services/timer-service';
+import type { SessionRepository } from '../src/data/session-repository';
+import { createMockSessionRepository, type MockSessionRepository } from './helpers/mock-session-repository';
+import type { TFile } from 'obsidian';
+import type { PersistedTimerState } from '../src/types';
+
+/**
+ * Tests for rehydrating TimerService from persisted `_timerState`
+ */
+
+const GRAIN_MS = 25 * 60 * 1000;
+
+describe('TimerService restoreFromPersistedState', () => {
+  let repo: MockSessionRepository;
+  let timer: TimerService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repo = createMockSessionRepository();
+    timer = new TimerService(repo as unknown as SessionRepository, GRAIN_MS);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function persistPausedBlock(): Promise<PersistedTimerState> {
+    const original = new TimerService(createMockSessionRepository() as unknown as SessionRepository, GRAIN_MS);
+    await original.start('Write report', 'tasks/Write report.md');
+    vi.advanceTimersByTime(40 * 60 * 1000);
+    original.tick();
+    await original.logInterruption('external');
+    await original.pause();
+    return original.getPersistedState();
+  }
+
+  it('restores a paused block with its accumulated time and grain count', async () => {
+    const persisted = await persistPausedBlock();
+    const pauseListener = vi.fn();
+    timer.on('timer-pause', pauseListener);
+
+    await timer.restoreFromPersistedState(persisted);
+
+    const status = timer.getStatus();
+    expect(status.state).toBe('paused');
+    expect(status.taskName).toBe('Write report');
+    expect(status.taskPath).toBe('tasks/Write report.md');
+    expect(status.elapsedSeconds).toBe(40 * 60);
+    expect(status.currentPomodoro).toBe(2);
+    expect(status.interruptions).toBe(1);
+    expect(status.sessionFilePath).toBeNull();
+    expect(pauseListener).toHaveBeenCalled();
+    expect(repo.markSessionResumed).not.toHaveBeenCalled();
+  });
+
+  it('resumes a restored paused block in the same work block', async () => {
+    const persisted = await persistPausedBlock();
+    await timer.restoreFromPersistedState(persisted);
+    await timer.resume();
+
+    expect(repo.createSession).toHaveBeenCalledWith(
+      'Write report',
+      expect.any(Date),
+      expect.objectContaining({ block_id: persisted.blockId })
+    );
+    expect(timer.isRunning()).toBe(true);
+  });
+
+  it('does not re-notify grains completed before the restart', async () => {
+    const persisted = await persistPausedBlock();
+    await timer.restoreFromPersistedState(persisted);
+    await timer.resume();
+
+    const listener = vi.fn();
+    timer.on('pomodoro-complete', listener);
+    timer.tick();
+    expect(listener).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    timer.tick();
+    expect(listener).toHaveBeenCalledWith({ count: 2 });
+  });
+
+  it('restores a running block into its unfinished session file', async () => {
+    const original = new TimerService(createMockSessionRepository() as unknown as SessionRepository, GRAIN_MS);
+    await original.start('Write report');
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    await original.pause();
+    await original.resume();
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    const persisted = original.getPersistedState();
+
+    const sessionFile = { path: persisted.sessionFilePath } as TFile;
+    await timer.restoreFromPersistedState(persisted, sessionFile);
+
+    expect(repo.markSessionResumed).toHaveBeenCalledWith(sessionFile);
+    const status = timer.getStatus();
+    expect(status.state).toBe('running');
+    expect(status.sessionFilePath).toBe(persisted.sessionFilePath);
+    expect(status.elapsedSeconds).toBe(10 * 60);
+  });
+
+  it('requires the session file for a running block', async () => {
+    await timer.start('Write report');
+    const persisted = timer.getPersistedState();
+    const fresh = new TimerService(repo as unknown as SessionRepository, GRAIN_MS);
+
+    await expect(fresh.restoreFromPersistedState(persisted)).rejects.toThrow('No session file to restore');
+    expect(fresh.isIdle()).toBe(true);
+  });
+
+  it('refuses to restore breaks or over an active timer', async () => {
+    const persisted = await persistPausedBlock();
+
+    await expect(
+      timer.restoreFromPersistedState({ ...persisted, mode: 'break' })
+    ).rejects.toThrow('Only work blocks can be restored');
+
+    await timer.start('Other');
+    await expect(timer.restoreFromPersistedState(persisted)).rejects.toThrow('Timer is already running');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TimerService } from '../src/services/timer-service';
+import type { SessionRepository } from '../src/data/session-repository';
+import { createMockSessionRepository, type MockSessionRepository } from './helpers/mock-session-repository';
+
+/**
+ * Tests for switching tasks mid-block in TimerService
+ */
+
+describe('TimerService switchTask', () => {
+  let repo: MockSessionRepository;
+  let timer: TimerService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repo = createMockSessionRepository();
+    timer = new TimerService(repo as unknown as SessionRepository, 25 * 60 * 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('closes the current session with action switch and opens one for the new task', async () => {
+    await timer.start('First', 'tasks/First.md');
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    await timer.switchTask('Second', 'tasks/Second.md');
+
+    expect(repo.completeSession).toHaveBeenCalledTimes(1);
+    expect(repo.completeSession.mock.calls[0][0].path).toBe('timer_sessions/s1.md');
+    expect(repo.completeSession.mock.calls[0][1]).toBe('switch');
+    expect(repo.createSession).toHaveBeenLastCalledWith('Second', expect.any(Date), expect.any(Object));
+
+    const status = timer.getStatus();
+    expect(status.taskName).toBe('Second');
+    expect(status.taskPath).toBe('tasks/Second.md');
+    expect(status.sessionFilePath).toBe('timer_sessions/s2.md');
+  });
+
+  it('shares a block id across both sessions', async () => {
+    await timer.start('First');
+    await timer.switchTask('Second');
+
+    const firstBlockId = repo.createSession.mock.calls[0][2].block_id;
+    expect(firstBlockId).toEqual(expect.any(String));
+    expect(repo.completeSession.mock.calls[0][4].block_id).toBe(firstBlockId);
+    expect(repo.createSession.mock.calls[1][2].block_id).toBe(firstBlockId);
+  });
+
+  it('records the task note path on each session', async () => {
+    await timer.start('First', 'tasks/First.md');
+    await timer.switchTask('Second', 'tasks/Second.md');
+
+    expect(repo.createSession.mock.calls[0][2].task_path).toBe('tasks/First.md');
+    expect(repo.createSession.mock.calls[1][2].task_path).toBe('tasks/Second.md');
+  });
+
+  it('keeps the block timer and grain count going', async () => {
+    await timer.start('First');
+    vi.advanceTimersByTime(30 * 60 * 1000);
+    timer.tick();
+    expect(timer.getStatus().currentPomodoro).toBe(2);
+
+    await timer.switchTask('Second');
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    timer.tick();
+
+    const status = timer.getStatus();
+    expect(status.elapsedSeconds).toBe(35 * 60);
+    expect(status.currentPomodoro).toBe(2);
+  });
+
+  it('resumes on the new task when switching while paused', async () => {
+    await timer.start('First');
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    await timer.pause();
+    await timer.switchTask('Second');
+
+    // The paused session was already closed - only the pause is recorded
+    expect(repo.completeSession).toHaveBeenCalledTimes(1);
+    expect(repo.completeSession.mock.calls[0][1]).toBe('pause');
+    expect(timer.isRunning()).toBe(true);
+    expect(timer.getStatus().elapsedSeconds).toBe(5 * 60);
+  });
+
+  it('emits timer-switch with the previous task', async () => {
+    const onSwitch = vi.fn();
+    timer.on('timer-switch', onSwitch);
+
+    await timer.start('First');
+    await timer.switchTask('Second', 'tasks/Second.md');
+
+    expect(onSwitch).toHaveBeenCalledWith({
+      fromTaskName: 'First',
+      taskName: 'Second',
+      taskPath: 'tasks/Second.md',
+    });
+  });
+
+  it('gives a recovered session without a block id a new one on switch', async () => {
+    await timer.restoreFromSession(
+      { path: 'timer_sessions/old.md' } as never,
+      'First',
+      new Date()
+    );
+    await timer.switchTask('Second');
+
+    const blockId = repo.completeSession.mock.calls[0][4].block_id;
+    expect(blockId).toEqual(expect.any(String));
+    expect(repo.createSession.mock.calls[0][2].block_id).toBe(blockId);
+  });
+
+  it('rejects switching when idle', async () => {
+    await expect(timer.switchTask('Second')).rejects.toThrow('Timer is not running');
+  });
+});
@@ -1,3 +1,4 @@
+import { resolve } from 'path';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
@@ -11,7 +12,7 @@ export default defineConfig({
   },
   resolve: {
     alias: {
-      obsidian: './tests/__mocks__/obsidian.ts',
+      obsidian: resolve(__dirname, 'tests/__mocks__/obsidian.ts'),
     },
   },
 });